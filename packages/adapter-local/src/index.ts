@@ -1,25 +1,35 @@
-import type { Backend } from '@base44-to-supabase/adapter';
+import type {
+  Backend,
+  EntitySchema,
+  ResilienceOptions,
+  SoftDeleteOptions,
+} from '@base44-to-supabase/adapter';
 import { createSupabaseBackend } from '@base44-to-supabase/adapter-supabase';
 
-export type LocalSupabaseBackendOptions = {
+export type LocalSupabaseBackendOptions = ResilienceOptions & {
   url?: string;
   anonKey: string;
+  softDelete?: SoftDeleteOptions;
 };
 
 const DEFAULT_LOCAL_URL = 'http://127.0.0.1:54321';
 
-export function createLocalSupabaseBackend(options: LocalSupabaseBackendOptions): Backend {
-  return createSupabaseBackend({
+export function createLocalSupabaseBackend<S extends EntitySchema = EntitySchema>(
+  options: LocalSupabaseBackendOptions,
+): Backend<S> {
+  return createSupabaseBackend<S>({
+    ...options,
     url: options.url ?? DEFAULT_LOCAL_URL,
-    anonKey: options.anonKey,
   });
 }
 
-export function createLocalSupabaseBackendFromEnv(env: NodeJS.ProcessEnv = process.env): Backend {
+export function createLocalSupabaseBackendFromEnv<S extends EntitySchema = EntitySchema>(
+  env: NodeJS.ProcessEnv = process.env,
+): Backend<S> {
   const url = env.SUPABASE_URL ?? env.SUPABASE_LOCAL_URL ?? DEFAULT_LOCAL_URL;
   const anonKey = env.SUPABASE_ANON_KEY ?? env.SUPABASE_LOCAL_ANON_KEY;
   if (!anonKey) {
     throw new Error('Missing SUPABASE_ANON_KEY (or SUPABASE_LOCAL_ANON_KEY) in environment');
   }
-  return createLocalSupabaseBackend({ url, anonKey });
+  return createLocalSupabaseBackend<S>({ url, anonKey });
 }
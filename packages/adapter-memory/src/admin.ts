@@ -0,0 +1,118 @@
+import type { AdminUser, AdminUpdateUserParams, BackendAdmin } from '@base44-to-supabase/adapter';
+import { ConflictError, NotFoundError, ValidationError, settle } from '@base44-to-supabase/adapter';
+
+import { toStoredUser, type StoredUser } from './auth.js';
+
+const DEFAULT_PER_PAGE = 50;
+
+const DURATION_UNITS: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+
+// Accepts the Go-style durations GoTrue uses for `ban_duration`, e.g. `24h` or `1h30m`.
+function parseBanDuration(duration: string): number | undefined {
+  if (duration === 'none') return undefined;
+  const parts = [...duration.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0 || parts.map((p) => p[0]).join('') !== duration)
+    throw new ValidationError(`Invalid ban duration: ${duration}`);
+  return parts.reduce((ms, [, amount, unit]) => ms + Number(amount) * DURATION_UNITS[unit!]!, 0);
+}
+
+function toAdminUser(user: StoredUser): AdminUser {
+  const out: AdminUser = {
+    id: user.id,
+    appMetadata: { ...user.appMetadata },
+    userMetadata: { ...user.userMetadata },
+    createdAt: user.createdAt,
+    lastSignInAt: user.lastSignInAt,
+  };
+  if (user.email) out.email = user.email;
+  if (user.phone) out.phone = user.phone;
+  return out;
+}
+
+// Mirrors GoTrue: top-level keys are merged and keys set to null are removed.
+function mergeMetadata(target: Record<string, unknown>, updates: Record<string, unknown>) {
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null) delete target[key];
+    else target[key] = value;
+  }
+}
+
+export function createMemoryAdmin(users: StoredUser[]): BackendAdmin {
+  function requireUser(id: string): StoredUser {
+    const user = users.find((u) => u.id === id);
+    if (!user) throw new NotFoundError('User not found');
+    return user;
+  }
+
+  function assertUnique(params: { email?: string; phone?: string }, self?: StoredUser) {
+    const taken = users.some(
+      (u) =>
+        u !== self &&
+        ((params.email && u.email === params.email) || (params.phone && u.phone === params.phone)),
+    );
+    if (taken) throw new ConflictError('A user with this email or phone already exists');
+  }
+
+  function apply(user: StoredUser, params: AdminUpdateUserParams) {
+    if (params.email !== undefined) user.email = params.email;
+    if (params.phone !== undefined) user.phone = params.phone;
+    if (params.password !== undefined) user.password = params.password;
+    if (params.appMetadata) mergeMetadata(user.appMetadata, params.appMetadata);
+    if (params.userMetadata) mergeMetadata(user.userMetadata, params.userMetadata);
+    if (params.banDuration !== undefined) {
+      const ms = parseBanDuration(params.banDuration);
+      user.bannedUntil = ms === undefined ? undefined : Date.now() + ms;
+    }
+  }
+
+  return {
+    listUsers(options) {
+      return settle(() => {
+        const page = Math.max(1, options?.page ?? 1);
+        const perPage = options?.perPage ?? DEFAULT_PER_PAGE;
+        const start = (page - 1) * perPage;
+        return {
+          users: users.slice(start, start + perPage).map(toAdminUser),
+          nextPage: start + perPage < users.length ? page + 1 : null,
+        };
+      });
+    },
+    getUser(id) {
+      return settle(() => {
+        const user = users.find((u) => u.id === id);
+        return user ? toAdminUser(user) : null;
+      });
+    },
+    createUser(params) {
+      return settle(() => {
+        if (!params.email && !params.phone)
+          throw new ValidationError('An email or phone number is required');
+        assertUnique(params);
+        const user = toStoredUser({});
+        apply(user, params);
+        users.push(user);
+        return toAdminUser(user);
+      });
+    },
+    updateUser(id, params) {
+      return settle(() => {
+        const user = requireUser(id);
+        assertUnique(params, user);
+        apply(user, params);
+        return toAdminUser(user);
+      });
+    },
+    deleteUser(id) {
+      return settle(() => {
+        users.splice(users.indexOf(requireUser(id)), 1);
+      });
+    },
+    setAppMetadata(id, metadata) {
+      return settle(() => {
+        const user = requireUser(id);
+        mergeMetadata(user.appMetadata, metadata);
+        return toAdminUser(user);
+      });
+    },
+  };
+}
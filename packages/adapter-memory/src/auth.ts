@@ -0,0 +1,214 @@
+import { randomUUID } from 'node:crypto';
+
+import type { AuthSession, AuthUser, BackendAuth } from '@base44-to-supabase/adapter';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  settle,
+} from '@base44-to-supabase/adapter';
+
+export type MemoryUser = {
+  id?: string;
+  email?: string;
+  phone?: string;
+  // Users without a password can only sign in with a one-time code or OAuth.
+  password?: string;
+  appMetadata?: Record<string, unknown>;
+  userMetadata?: Record<string, unknown>;
+};
+
+// Shared by `auth` and `admin` so admin changes are visible to sign-in and vice versa.
+export type StoredUser = {
+  id: string;
+  email?: string;
+  phone?: string;
+  password?: string;
+  appMetadata: Record<string, unknown>;
+  userMetadata: Record<string, unknown>;
+  createdAt: string;
+  lastSignInAt: string | null;
+  bannedUntil?: number;
+};
+
+export type MemoryAuthOptions = {
+  // Code accepted by `verifyOtp` for every pending request. Defaults to `123456`.
+  otpCode?: string;
+  // Base of the URL returned by `signInWithOAuth`.
+  oauthBaseUrl?: string;
+};
+
+const SESSION_TTL_SECONDS = 3600;
+const DEFAULT_OTP_CODE = '123456';
+const DEFAULT_OAUTH_BASE_URL = 'memory://oauth';
+
+export function toStoredUser(user: MemoryUser): StoredUser {
+  return {
+    id: user.id ?? randomUUID(),
+    email: user.email,
+    phone: user.phone,
+    password: user.password,
+    appMetadata: { ...user.appMetadata },
+    userMetadata: { ...user.userMetadata },
+    createdAt: new Date().toISOString(),
+    lastSignInAt: null,
+  };
+}
+
+export function createMemoryAuth(
+  users: StoredUser[],
+  options: MemoryAuthOptions = {},
+): BackendAuth {
+  const listeners = new Set<(event: string, session: AuthSession | null) => void>();
+  // Pending one-time codes keyed by `email:<address>` / `phone:<number>`.
+  const pendingOtps = new Map<string, string>();
+  // Pending OAuth codes mapped to the provider they were issued for.
+  const pendingOAuth = new Map<string, string>();
+  const otpCode = options.otpCode ?? DEFAULT_OTP_CODE;
+  const oauthBaseUrl = options.oauthBaseUrl ?? DEFAULT_OAUTH_BASE_URL;
+  let session: AuthSession | null = null;
+
+  function findUser(target: { email?: string; phone?: string }): StoredUser | undefined {
+    if (target.email) return users.find((u) => u.email === target.email);
+    if (target.phone) return users.find((u) => u.phone === target.phone);
+    return undefined;
+  }
+
+  function otpKey(target: { email?: string; phone?: string }): string {
+    if (target.email) return `email:${target.email}`;
+    if (target.phone) return `phone:${target.phone}`;
+    throw new ValidationError('An email or phone number is required');
+  }
+
+  function toUser(u: StoredUser): AuthUser {
+    const user: AuthUser = { id: u.id };
+    if (u.email) user.email = u.email;
+    if (u.phone) user.phone = u.phone;
+    return user;
+  }
+
+  function startSession(user: AuthUser): AuthSession {
+    return {
+      accessToken: `memory-access-${randomUUID()}`,
+      refreshToken: `memory-refresh-${randomUUID()}`,
+      expiresAt: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+      user,
+    };
+  }
+
+  function signInAs(user: StoredUser): AuthSession {
+    if (user.bannedUntil !== undefined && user.bannedUntil > Date.now())
+      throw new ForbiddenError('User is banned');
+    user.lastSignInAt = new Date().toISOString();
+    session = startSession(toUser(user));
+    emit('SIGNED_IN');
+    return { ...session };
+  }
+
+  function emit(event: string) {
+    for (const listener of [...listeners]) listener(event, session ? { ...session } : null);
+  }
+
+  return {
+    signIn({ email, password }) {
+      return settle(() => {
+        const user = findUser({ email });
+        if (!user || user.password === undefined || user.password !== password)
+          throw new UnauthorizedError('Invalid login credentials');
+        return signInAs(user);
+      });
+    },
+    signUp({ email, password }) {
+      return settle(() => {
+        if (findUser({ email })) throw new ConflictError('User already registered');
+        const user = toStoredUser({ email, password });
+        users.push(user);
+        return signInAs(user);
+      });
+    },
+    signInWithOtp(params) {
+      return settle(() => {
+        const key = otpKey(params);
+        if (!findUser(params)) {
+          if (params.shouldCreateUser === false) throw new NotFoundError('User not found');
+          users.push(toStoredUser({ email: params.email, phone: params.phone }));
+        }
+        // Nothing is delivered in memory: the fixed `otpCode` stands in for the emailed/SMS code.
+        pendingOtps.set(key, otpCode);
+      });
+    },
+    verifyOtp(params) {
+      return settle(() => {
+        const key = otpKey(params);
+        const user = findUser(params);
+        if (!user || pendingOtps.get(key) !== params.token)
+          throw new UnauthorizedError('Token has expired or is invalid');
+        pendingOtps.delete(key);
+        return signInAs(user);
+      });
+    },
+    signInWithOAuth({ provider, redirectTo }) {
+      return settle(() => {
+        const code = randomUUID();
+        pendingOAuth.set(code, provider);
+        const url = new URL(`${oauthBaseUrl}/${encodeURIComponent(provider)}/authorize`);
+        url.searchParams.set('code', code);
+        if (redirectTo) url.searchParams.set('redirect_to', redirectTo);
+        return { url: url.toString() };
+      });
+    },
+    exchangeCodeForSession(code) {
+      return settle(() => {
+        const provider = pendingOAuth.get(code);
+        if (!provider) throw new UnauthorizedError('Invalid or expired auth code');
+        pendingOAuth.delete(code);
+        // Each provider signs in as a single synthetic user so repeated flows reuse the account.
+        const email = `${provider}-user@oauth.memory`;
+        let user = findUser({ email });
+        if (!user) {
+          user = toStoredUser({ email, appMetadata: { provider } });
+          users.push(user);
+        }
+        return signInAs(user);
+      });
+    },
+    resetPasswordForEmail() {
+      // No emails are sent in memory; the call succeeds so flows can be exercised.
+      return Promise.resolve();
+    },
+    updatePassword(newPassword) {
+      return settle(() => {
+        const user = users.find((u) => u.id === session?.user?.id);
+        if (!user) throw new UnauthorizedError('Auth session missing!');
+        user.password = newPassword;
+        emit('USER_UPDATED');
+      });
+    },
+    signOut() {
+      return settle(() => {
+        session = null;
+        emit('SIGNED_OUT');
+      });
+    },
+    getUser() {
+      return Promise.resolve(session?.user ? { ...session.user } : null);
+    },
+    getSession() {
+      return Promise.resolve(session ? { ...session } : null);
+    },
+    onAuthStateChange(callback) {
+      listeners.add(callback);
+      // Supabase reports the current session to every new subscriber.
+      queueMicrotask(() => {
+        if (listeners.has(callback)) callback('INITIAL_SESSION', session ? { ...session } : null);
+      });
+      return {
+        unsubscribe: () => {
+          listeners.delete(callback);
+        },
+      };
+    },
+  };
+}
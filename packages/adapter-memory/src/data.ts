@@ -0,0 +1,274 @@
+import type {
+  BackendData,
+  DataFilterNode,
+  DataRecord,
+  DataRelations,
+  Id,
+  RealtimeHub,
+  SoftDeleteOptions,
+} from '@base44-to-supabase/adapter';
+import {
+  ConflictError,
+  ValidationError,
+  aggregateRecords,
+  buildPage,
+  decodeCursor,
+  excludeSoftDeleted,
+  joinIncludes,
+  normalizePageOrder,
+  settle,
+  softDeleteColumn,
+} from '@base44-to-supabase/adapter';
+
+import {
+  compareRecords,
+  matchesReadOptions,
+  normalizeOrderBy,
+  normalizeSelect,
+  projectRecord,
+  sortRecords,
+} from './filters.js';
+
+export type MemoryTables = Map<string, DataRecord[]>;
+
+export function createMemoryData(
+  tables: MemoryTables,
+  hub: RealtimeHub,
+  generateId: () => Id,
+  relations: DataRelations = {},
+  softDelete?: SoftDeleteOptions,
+): BackendData {
+  function table(entity: string): DataRecord[] {
+    let rows = tables.get(entity);
+    if (!rows) {
+      rows = [];
+      tables.set(entity, rows);
+    }
+    return rows;
+  }
+
+  // Ids are a primary key: like Postgres, a batch with a taken id inserts nothing.
+  function assertNewIds(entity: string, rows: DataRecord[]) {
+    const ids = new Set(table(entity).map((r) => r.id));
+    for (const row of rows) {
+      if (row.id === undefined || row.id === null) continue;
+      if (ids.has(row.id)) {
+        throw new ConflictError(`Duplicate id ${String(row.id as string)}`, { entity });
+      }
+      ids.add(row.id);
+    }
+  }
+
+  function insert(entity: string, data: DataRecord): DataRecord {
+    const row = structuredClone({ ...data, id: data.id ?? generateId() });
+    table(entity).push(row);
+    hub.emit({ entity, event: 'insert', new: structuredClone(row), old: null });
+    return structuredClone(row);
+  }
+
+  function replace(entity: string, index: number, patch: DataRecord): DataRecord {
+    const rows = table(entity);
+    const before = rows[index]!;
+    const after = structuredClone({ ...before, ...patch });
+    rows[index] = after;
+    hub.emit({
+      entity,
+      event: 'update',
+      new: structuredClone(after),
+      old: structuredClone(before),
+    });
+    return structuredClone(after);
+  }
+
+  function requireFilters(entity: string, filters: DataFilterNode[]) {
+    if (filters.length === 0) {
+      throw new ValidationError('Bulk updates and deletes require at least one filter', { entity });
+    }
+  }
+
+  function remove(entity: string, index: number) {
+    const [removed] = table(entity).splice(index, 1);
+    hub.emit({ entity, event: 'delete', new: null, old: structuredClone(removed!) });
+  }
+
+  // Soft-deletes the row at `index` unless it is already marked, returning whether it changed.
+  function markDeleted(entity: string, index: number, column: string): boolean {
+    if (!isLive(table(entity)[index]!, column)) return false;
+    replace(entity, index, { [column]: new Date().toISOString() });
+    return true;
+  }
+
+  function isLive(row: DataRecord, column: string): boolean {
+    return row[column] === null || row[column] === undefined;
+  }
+
+  function findIndex(entity: string, id: Id): number {
+    return table(entity).findIndex((r) => r.id === id);
+  }
+
+  const memoryData: BackendData = {
+    create(entity, data) {
+      return settle(() => {
+        assertNewIds(entity, [data]);
+        return insert(entity, data) as any;
+      });
+    },
+    async read(entity, readOptions) {
+      const options = excludeSoftDeleted(softDelete, entity, readOptions);
+      let fields = normalizeSelect(options?.select);
+      let rows = table(entity).filter((r) => matchesReadOptions(r, options));
+      rows = sortRecords(rows, normalizeOrderBy(options?.orderBy));
+      if (options?.include) {
+        // Joined before paging, so required relations drop rows the way an inner join does.
+        rows = await joinIncludes(memoryData, entity, rows, options.include, relations);
+        if (fields) fields = [...fields, ...Object.keys(options.include)];
+      }
+
+      if (options?.id !== undefined) {
+        const row = rows[0];
+        return (row ? projectRecord(structuredClone(row), fields) : null) as any;
+      }
+
+      const offset = options?.offset ?? 0;
+      const end = options?.limit ? offset + options.limit : undefined;
+      return rows.slice(offset, end).map((r) => projectRecord(structuredClone(r), fields)) as any;
+    },
+    readPage(entity, pageOptions) {
+      return settle(() => {
+        const options = excludeSoftDeleted(softDelete, entity, pageOptions);
+        const order = normalizePageOrder(options.orderBy);
+        const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+        const direction = cursor?.direction ?? 'next';
+        // Previous pages are read in reverse order, starting right before the cursor row.
+        const effectiveOrder =
+          direction === 'next'
+            ? order
+            : order.map((o) => ({ field: o.field, ascending: !(o.ascending ?? true) }));
+
+        let rows = sortRecords(
+          table(entity).filter((r) => matchesReadOptions(r, options)),
+          effectiveOrder,
+        );
+        if (cursor) {
+          const boundary = Object.fromEntries(order.map((o, i) => [o.field, cursor.values[i]]));
+          rows = rows.filter((r) => compareRecords(r, boundary, effectiveOrder) > 0);
+        }
+
+        const page = buildPage(rows.slice(0, options.pageSize + 1), {
+          pageSize: options.pageSize,
+          order,
+          direction,
+          hasCursor: cursor !== null,
+        });
+        const fields = normalizeSelect(options.select);
+        return {
+          ...page,
+          items: page.items.map((r) => projectRecord(structuredClone(r), fields)),
+        } as any;
+      });
+    },
+    count(entity, options) {
+      return settle(() => {
+        const live = excludeSoftDeleted(softDelete, entity, options);
+        return table(entity).filter((r) => matchesReadOptions(r, live)).length;
+      });
+    },
+    aggregate(entity, options) {
+      return settle(() => {
+        const live = excludeSoftDeleted(softDelete, entity, options);
+        return aggregateRecords(
+          table(entity).filter((r) => matchesReadOptions(r, live)),
+          options,
+        );
+      });
+    },
+    upsert(entity, data, options) {
+      return settle(() => {
+        const conflictColumns = (options?.onConflict ?? 'id').split(',').map((c) => c.trim());
+        const upsertOne = (item: DataRecord): DataRecord => {
+          const rows = table(entity);
+          const index = conflictColumns.every((c) => item[c] !== undefined)
+            ? rows.findIndex((r) => conflictColumns.every((c) => r[c] === item[c]))
+            : -1;
+          return index === -1 ? insert(entity, item) : replace(entity, index, item);
+        };
+        if (Array.isArray(data)) return data.map(upsertOne) as any;
+        return upsertOne(data) as any;
+      });
+    },
+    update(entity, id, data) {
+      return settle(() => {
+        const index = findIndex(entity, id);
+        // Like PostgREST, updating a missing row is not an error.
+        if (index === -1) return { id, ...data } as any;
+        return replace(entity, index, data) as any;
+      });
+    },
+    delete(entity, id) {
+      return settle(() => {
+        const index = findIndex(entity, id);
+        if (index === -1) return;
+        const column = softDeleteColumn(softDelete, entity);
+        if (column) markDeleted(entity, index, column);
+        else remove(entity, index);
+      });
+    },
+    createMany(entity, rows) {
+      return settle(() => {
+        assertNewIds(entity, rows);
+        return rows.map((r) => insert(entity, r)) as any;
+      });
+    },
+    updateWhere(entity, filters, patch) {
+      return settle(() => {
+        requireFilters(entity, filters);
+        const updated: DataRecord[] = [];
+        table(entity).forEach((r, index) => {
+          if (matchesReadOptions(r, { filters })) updated.push(replace(entity, index, patch));
+        });
+        return updated as any;
+      });
+    },
+    deleteWhere(entity, filters) {
+      return settle(() => {
+        requireFilters(entity, filters);
+        const rows = table(entity);
+        const column = softDeleteColumn(softDelete, entity);
+        let deleted = 0;
+        if (column) {
+          // Rows that are already marked are not deleted again, so they are not counted.
+          rows.forEach((r, index) => {
+            if (matchesReadOptions(r, { filters }) && markDeleted(entity, index, column)) deleted++;
+          });
+          return deleted;
+        }
+        for (let index = rows.length - 1; index >= 0; index--) {
+          if (matchesReadOptions(rows[index]!, { filters })) {
+            remove(entity, index);
+            deleted++;
+          }
+        }
+        return deleted;
+      });
+    },
+    restore(entity, id) {
+      return settle(() => {
+        const column = softDeleteColumn(softDelete, entity);
+        if (!column) {
+          throw new ValidationError(`${entity} is not configured for soft delete`, { entity });
+        }
+        const index = findIndex(entity, id);
+        if (index !== -1 && !isLive(table(entity)[index]!, column)) {
+          replace(entity, index, { [column]: null });
+        }
+      });
+    },
+    purge(entity, id) {
+      return settle(() => {
+        const index = findIndex(entity, id);
+        if (index !== -1) remove(entity, index);
+      });
+    },
+  };
+  return memoryData;
+}
@@ -0,0 +1,72 @@
+import type { DataOrderBy, DataReadOptions, DataRecord } from '@base44-to-supabase/adapter';
+import { compareValues, matchesFilter, matchesFilterNode } from '@base44-to-supabase/adapter';
+
+function isNil(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+export function matchesReadOptions(record: DataRecord, options?: DataReadOptions): boolean {
+  if (!options) return true;
+  if (
+    options.id !== undefined &&
+    !matchesFilter(record, { field: 'id', op: 'eq', value: options.id })
+  ) {
+    return false;
+  }
+  if (options.filter) {
+    for (const [field, value] of Object.entries(options.filter)) {
+      if (!matchesFilter(record, { field, op: 'eq', value })) return false;
+    }
+  }
+  if (options.filters) {
+    for (const node of options.filters) {
+      if (!matchesFilterNode(record, node)) return false;
+    }
+  }
+  return true;
+}
+
+export function normalizeOrderBy(orderBy?: DataReadOptions['orderBy']): DataOrderBy[] {
+  if (!orderBy) return [];
+  return Array.isArray(orderBy) ? orderBy : [orderBy];
+}
+
+// Postgres puts nulls last when ascending and first when descending.
+export function compareRecords(a: DataRecord, b: DataRecord, orderBy: DataOrderBy[]): number {
+  for (const o of orderBy) {
+    const ascending = o.ascending ?? true;
+    const av = a[o.field];
+    const bv = b[o.field];
+    if (isNil(av) && isNil(bv)) continue;
+    if (isNil(av)) return ascending ? 1 : -1;
+    if (isNil(bv)) return ascending ? -1 : 1;
+    const c = compareValues(av, bv);
+    if (c !== 0) return ascending ? c : -c;
+  }
+  return 0;
+}
+
+export function sortRecords<T extends DataRecord>(rows: T[], orderBy: DataOrderBy[]): T[] {
+  if (orderBy.length === 0) return rows;
+  return [...rows].sort((a, b) => compareRecords(a, b, orderBy));
+}
+
+export function normalizeSelect(select?: DataReadOptions['select']): string[] | null {
+  if (!select) return null;
+  const fields = (Array.isArray(select) ? select : select.split(','))
+    .map((f) => f.trim())
+    .filter(Boolean);
+  if (fields.length === 0 || fields.includes('*')) return null;
+  return fields;
+}
+
+export function projectRecord<T extends DataRecord>(record: T, fields: string[] | null): T {
+  if (!fields) return record;
+  const out: Record<string, unknown> = {};
+  for (const f of fields) {
+    // Embedded resources (`project(*)`) need relationships, which this adapter does not model.
+    if (f.includes('(')) continue;
+    out[f] = record[f] ?? null;
+  }
+  return out as T;
+}
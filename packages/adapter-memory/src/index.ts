@@ -0,0 +1,76 @@
+import { randomUUID } from 'node:crypto';
+
+import type {
+  AdminBackend,
+  BackendRpc,
+  DataRecord,
+  DataRelations,
+  EntitySchema,
+  Id,
+  SoftDeleteOptions,
+} from '@base44-to-supabase/adapter';
+import { NotFoundError, createRealtimeHub, withSchema } from '@base44-to-supabase/adapter';
+
+import { createMemoryAdmin } from './admin.js';
+import { createMemoryAuth, toStoredUser, type MemoryUser } from './auth.js';
+import { createMemoryData, type MemoryTables } from './data.js';
+import { createMemoryStorage } from './storage.js';
+
+export type { MemoryUser } from './auth.js';
+
+export type MemoryRpcHandler = (params: Record<string, unknown> | undefined) => unknown;
+
+export type MemoryBackendOptions = {
+  // Initial rows per entity. Rows are copied, so the seed objects are never mutated.
+  seed?: Record<string, DataRecord[]>;
+  users?: MemoryUser[];
+  // Code accepted by `auth.verifyOtp`. Defaults to `123456`.
+  otpCode?: string;
+  rpc?: Record<string, MemoryRpcHandler>;
+  // Relations used to resolve `include` on reads, which this adapter joins client-side.
+  relations?: DataRelations;
+  // Entities whose deletes only set a timestamp; see `SoftDeleteOptions`.
+  softDelete?: SoftDeleteOptions;
+  generateId?: () => Id;
+  // Used to build signed and public storage URLs.
+  storageBaseUrl?: string;
+};
+
+const DEFAULT_STORAGE_BASE_URL = 'memory://storage';
+
+// Includes the `admin` surface so server-side code written against `createSupabaseAdminBackend`
+// can be exercised too; admin changes are visible to `auth` and vice versa.
+export function createMemoryBackend<S extends EntitySchema = EntitySchema>(
+  options: MemoryBackendOptions = {},
+): AdminBackend<S> {
+  const generateId = options.generateId ?? (() => randomUUID());
+
+  const tables: MemoryTables = new Map();
+  for (const [entity, rows] of Object.entries(options.seed ?? {})) {
+    tables.set(
+      entity,
+      rows.map((r) => structuredClone({ ...r, id: r.id ?? generateId() })),
+    );
+  }
+
+  const users = (options.users ?? []).map(toStoredUser);
+  const hub = createRealtimeHub();
+  const handlers = options.rpc ?? {};
+
+  const rpc: BackendRpc = {
+    async call(fn, params) {
+      const handler = handlers[fn];
+      if (!handler) throw new NotFoundError(`Unknown rpc function: ${fn}`);
+      return (await handler(params)) as any;
+    },
+  };
+
+  const backend = withSchema<S>({
+    auth: createMemoryAuth(users, { otpCode: options.otpCode }),
+    data: createMemoryData(tables, hub, generateId, options.relations, options.softDelete),
+    storage: createMemoryStorage(options.storageBaseUrl ?? DEFAULT_STORAGE_BASE_URL),
+    rpc,
+    realtime: hub.realtime,
+  });
+  return { ...backend, admin: createMemoryAdmin(users) };
+}
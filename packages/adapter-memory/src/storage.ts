@@ -0,0 +1,117 @@
+import { randomUUID } from 'node:crypto';
+
+import type { BackendStorage } from '@base44-to-supabase/adapter';
+import { ConflictError, NotFoundError, settle } from '@base44-to-supabase/adapter';
+
+type StoredObject = {
+  id: string;
+  bytes: Uint8Array;
+  contentType?: string;
+  cacheControl?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const DEFAULT_LIST_LIMIT = 100;
+
+async function toBytes(file: Uint8Array | ArrayBuffer | Blob): Promise<Uint8Array> {
+  if (file instanceof Uint8Array) return new Uint8Array(file);
+  if (file instanceof ArrayBuffer) return new Uint8Array(file.slice(0));
+  return new Uint8Array(await file.arrayBuffer());
+}
+
+function encodePath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
+
+export function createMemoryStorage(baseUrl: string): BackendStorage {
+  const buckets = new Map<string, Map<string, StoredObject>>();
+
+  function bucketObjects(bucket: string): Map<string, StoredObject> {
+    let objects = buckets.get(bucket);
+    if (!objects) {
+      objects = new Map();
+      buckets.set(bucket, objects);
+    }
+    return objects;
+  }
+
+  return {
+    async upload(bucket, path, file, options) {
+      const objects = bucketObjects(bucket);
+      const existing = objects.get(path);
+      if (existing && !options?.upsert)
+        throw new ConflictError('The resource already exists', { bucket });
+      const now = new Date().toISOString();
+      objects.set(path, {
+        id: existing?.id ?? randomUUID(),
+        bytes: await toBytes(file),
+        contentType: options?.contentType,
+        cacheControl: options?.cacheControl,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+      return { path };
+    },
+    download(bucket, path) {
+      return settle(() => {
+        const object = bucketObjects(bucket).get(path);
+        if (!object) throw new NotFoundError('Object not found', { bucket });
+        return new Uint8Array(object.bytes);
+      });
+    },
+    remove(bucket, paths) {
+      return settle(() => {
+        const objects = bucketObjects(bucket);
+        for (const p of Array.isArray(paths) ? paths : [paths]) objects.delete(p);
+      });
+    },
+    list(bucket, path, options) {
+      return settle(() => {
+        // Like Supabase, list the direct children of a folder; sub-folders have a null id.
+        const prefix = path ? `${path.replace(/\/+$/, '')}/` : '';
+        const entries = new Map<string, Record<string, unknown>>();
+        for (const [key, object] of bucketObjects(bucket)) {
+          if (!key.startsWith(prefix)) continue;
+          const rest = key.slice(prefix.length);
+          const slash = rest.indexOf('/');
+          const name = slash === -1 ? rest : rest.slice(0, slash);
+          if (options?.search && !name.includes(options.search)) continue;
+          if (slash !== -1) {
+            if (!entries.has(name)) entries.set(name, { name, id: null, metadata: null });
+            continue;
+          }
+          entries.set(name, {
+            name,
+            id: object.id,
+            created_at: object.createdAt,
+            updated_at: object.updatedAt,
+            metadata: {
+              size: object.bytes.byteLength,
+              mimetype: object.contentType ?? 'application/octet-stream',
+              cacheControl: object.cacheControl,
+            },
+          });
+        }
+        const offset = options?.offset ?? 0;
+        const limit = options?.limit ?? DEFAULT_LIST_LIMIT;
+        return [...entries.values()]
+          .sort((a, b) => String(a.name).localeCompare(String(b.name)))
+          .slice(offset, offset + limit);
+      });
+    },
+    createSignedUrl(bucket, path, expiresInSeconds) {
+      return settle(() => {
+        if (!bucketObjects(bucket).has(path))
+          throw new NotFoundError('Object not found', { bucket });
+        const token = randomUUID();
+        return {
+          signedUrl: `${baseUrl}/object/sign/${bucket}/${encodePath(path)}?token=${token}&expiresIn=${expiresInSeconds}`,
+        };
+      });
+    },
+    getPublicUrl(bucket, path) {
+      return { publicUrl: `${baseUrl}/object/public/${bucket}/${encodePath(path)}` };
+    },
+  };
+}
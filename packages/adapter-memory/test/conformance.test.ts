@@ -0,0 +1,19 @@
+import {
+  CONFORMANCE_RELATIONS,
+  CONFORMANCE_RPC,
+  CONFORMANCE_SOFT_DELETE,
+  runBackendConformance,
+} from '@base44-to-supabase/adapter/conformance';
+import { describe, it } from 'vitest';
+
+import { createMemoryBackend } from '../src/index.js';
+
+runBackendConformance(
+  () =>
+    createMemoryBackend({
+      relations: CONFORMANCE_RELATIONS,
+      softDelete: CONFORMANCE_SOFT_DELETE,
+      rpc: { [CONFORMANCE_RPC]: (params) => params?.value },
+    }),
+  { describe, it },
+);
@@ -0,0 +1,488 @@
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+  iterateAll,
+  type DataFilter,
+  type DataRecord,
+} from '@base44-to-supabase/adapter';
+import { describe, expect, it } from 'vitest';
+
+import { createMemoryBackend } from '../src/index.js';
+
+function seeded() {
+  return createMemoryBackend({
+    seed: {
+      todos: [
+        { id: '1', title: 'Write docs', done: false, priority: 2, tags: ['docs'] },
+        { id: '2', title: 'Fix bug', done: true, priority: 1, tags: ['bug', 'urgent'] },
+        { id: '3', title: 'Review PR', done: false, priority: null, tags: [] },
+      ],
+    },
+  });
+}
+
+describe('createMemoryBackend data', () => {
+  it('reads a single record by id or null', async () => {
+    const backend = seeded();
+    expect(await backend.data.read('todos', { id: '2' })).toMatchObject({ title: 'Fix bug' });
+    expect(await backend.data.read('todos', { id: 'missing' })).toBeNull();
+  });
+
+  it('supports filter ops, ordering, paging and select projection', async () => {
+    const backend = seeded();
+    const read = (options: Parameters<typeof backend.data.read>[1]) =>
+      backend.data.read('todos', options) as Promise<Array<Record<string, unknown>>>;
+
+    expect((await read({ filters: [{ field: 'done', op: 'eq', value: false }] })).length).toBe(2);
+    expect((await read({ filters: [{ field: 'priority', op: 'gte', value: 2 }] })).length).toBe(1);
+    expect(
+      (await read({ filters: [{ field: 'title', op: 'ilike', value: '%BUG%' }] })).length,
+    ).toBe(1);
+    expect((await read({ filters: [{ field: 'id', op: 'in', value: ['1', '3'] }] })).length).toBe(
+      2,
+    );
+    expect(
+      (await read({ filters: [{ field: 'tags', op: 'contains', value: ['urgent'] }] })).length,
+    ).toBe(1);
+    expect(
+      (await read({ filters: [{ field: 'tags', op: 'containedBy', value: ['docs', 'x'] }] }))
+        .length,
+    ).toBe(2);
+    expect((await read({ filters: [{ field: 'priority', op: 'is', value: null }] })).length).toBe(
+      1,
+    );
+
+    const grouped = await read({
+      filters: [
+        {
+          or: [
+            { field: 'done', op: 'eq', value: true },
+            { not: { field: 'priority', op: 'gte', value: 2 } },
+          ],
+        },
+      ],
+      select: 'id',
+    });
+    // Row 3 has a null priority: `not (priority >= 2)` is unknown, as in SQL.
+    expect(grouped).toEqual([{ id: '2' }]);
+    await expect(read({ filters: [{ and: [] }] })).rejects.toThrow(ValidationError);
+
+    const ordered = await read({ orderBy: { field: 'priority' }, select: 'id' });
+    expect(ordered).toEqual([{ id: '2' }, { id: '1' }, { id: '3' }]);
+
+    const page = await read({ orderBy: { field: 'id', ascending: false }, limit: 1, offset: 1 });
+    expect(page.map((r) => r.id)).toEqual(['2']);
+  });
+
+  it('supports text search, regex, overlap and range operators', async () => {
+    const backend = createMemoryBackend({
+      seed: {
+        posts: [
+          { id: '1', body: 'The quick brown fox', tags: ['a'], during: '[1,5)' },
+          { id: '2', body: 'A lazy brown dog sleeps', tags: ['b', 'c'], during: '[5,9)' },
+          { id: '3', body: 'Quick thinking', tags: [], during: '[10,)' },
+        ],
+      },
+    });
+    const ids = async (filter: DataFilter) =>
+      ((await backend.data.read('posts', { filters: [filter], select: 'id' })) as DataRecord[]).map(
+        (r) => r.id,
+      );
+
+    expect(await ids({ field: 'body', op: 'textSearch', value: 'quick & !fox' })).toEqual(['3']);
+    expect(await ids({ field: 'body', op: 'textSearch', value: 'slee:*' })).toEqual(['2']);
+    expect(
+      await ids({
+        field: 'body',
+        op: 'textSearch',
+        value: 'brown quick',
+        search: { type: 'plain' },
+      }),
+    ).toEqual(['1']);
+    expect(
+      await ids({
+        field: 'body',
+        op: 'textSearch',
+        value: 'quick fox',
+        search: { type: 'phrase' },
+      }),
+    ).toEqual([]);
+    expect(
+      await ids({
+        field: 'body',
+        op: 'textSearch',
+        value: '"brown dog" or thinking -lazy',
+        search: { type: 'websearch' },
+      }),
+    ).toEqual(['2', '3']);
+    await expect(ids({ field: 'body', op: 'textSearch', value: 'a <-> b' })).rejects.toThrow(
+      ValidationError,
+    );
+
+    expect(await ids({ field: 'body', op: 'match', value: '^[A-Z] ' })).toEqual(['2']);
+    expect(await ids({ field: 'tags', op: 'overlaps', value: ['c', 'a'] })).toEqual(['1', '2']);
+    expect(await ids({ field: 'during', op: 'overlaps', value: '[4,6)' })).toEqual(['1', '2']);
+    expect(await ids({ field: 'during', op: 'rangeGt', value: '[3,5)' })).toEqual(['2', '3']);
+    expect(await ids({ field: 'during', op: 'rangeLt', value: '[5,6)' })).toEqual(['1']);
+    expect(await ids({ field: 'during', op: 'rangeLte', value: '[0,9)' })).toEqual(['1', '2']);
+    expect(await ids({ field: 'during', op: 'rangeGte', value: '(1,2)' })).toEqual(['2', '3']);
+    expect(await ids({ field: 'during', op: 'rangeAdjacent', value: '[9,10)' })).toEqual([
+      '2',
+      '3',
+    ]);
+  });
+
+  it('joins declared relations for include', async () => {
+    const backend = createMemoryBackend({
+      seed: {
+        projects: [{ id: 'p1', name: 'Home' }],
+        todos: [
+          { id: 't1', title: 'Paint', project_id: 'p1' },
+          { id: 't2', title: 'Loose', project_id: null },
+        ],
+        comments: [
+          { id: 'c1', todo_id: 't1', body: 'first', rank: 2 },
+          { id: 'c2', todo_id: 't1', body: 'second', rank: 1 },
+          { id: 'c3', todo_id: 't1', body: 'third', rank: 3 },
+        ],
+      },
+      relations: {
+        todos: {
+          project: { entity: 'projects', kind: 'one', field: 'project_id' },
+          comments: { entity: 'comments', kind: 'many', field: 'todo_id' },
+        },
+      },
+    });
+
+    const todos = await backend.data.read('todos', {
+      select: ['title'],
+      orderBy: { field: 'id' },
+      include: {
+        project: { select: ['name'] },
+        comments: { select: ['body'], orderBy: { field: 'rank' }, limit: 2 },
+      },
+    });
+    expect(todos).toEqual([
+      {
+        title: 'Paint',
+        project: { name: 'Home' },
+        comments: [{ body: 'second' }, { body: 'first' }],
+      },
+      { title: 'Loose', project: null, comments: [] },
+    ]);
+
+    const withProject = await backend.data.read('todos', {
+      select: ['id'],
+      include: { project: { required: true } },
+    });
+    expect(withProject).toEqual([{ id: 't1', project: { id: 'p1', name: 'Home' } }]);
+
+    await expect(backend.data.read('todos', { include: { owner: true } })).rejects.toThrow(
+      ValidationError,
+    );
+  });
+
+  it('creates, upserts, updates and deletes records', async () => {
+    const backend = createMemoryBackend({ generateId: () => 'generated' });
+
+    const created = await backend.data.create('notes', { body: 'hi' });
+    expect(created).toEqual({ id: 'generated', body: 'hi' });
+
+    await backend.data.upsert('notes', { id: 'generated', body: 'updated' });
+    expect(await backend.data.read('notes', { id: 'generated' })).toEqual({
+      id: 'generated',
+      body: 'updated',
+    });
+
+    const updated = await backend.data.update('notes', 'generated', { pinned: true });
+    expect(updated).toEqual({ id: 'generated', body: 'updated', pinned: true });
+
+    await backend.data.delete('notes', 'generated');
+    expect(await backend.data.read('notes')).toEqual([]);
+  });
+
+  it('runs bulk mutations against filtered rows', async () => {
+    const backend = seeded();
+
+    const created = await backend.data.createMany('todos', [
+      { title: 'A', done: false },
+      { title: 'B', done: false },
+    ]);
+    expect(created).toHaveLength(2);
+    expect(created.every((r: DataRecord) => typeof r.id === 'string')).toBe(true);
+
+    const done = await backend.data.updateWhere(
+      'todos',
+      [{ field: 'done', op: 'eq', value: false }],
+      { done: true },
+    );
+    expect(done).toHaveLength(4);
+
+    expect(
+      await backend.data.deleteWhere('todos', [{ field: 'title', op: 'in', value: ['A', 'B'] }]),
+    ).toBe(2);
+    await expect(backend.data.deleteWhere('todos', [])).rejects.toThrow(ValidationError);
+    expect(await backend.data.count('todos')).toBe(3);
+  });
+
+  it('soft-deletes configured entities and restores or purges them', async () => {
+    const backend = createMemoryBackend({
+      seed: {
+        todos: [
+          { id: '1', title: 'A', done: false },
+          { id: '2', title: 'B', done: true },
+          { id: '3', title: 'C', done: true },
+        ],
+        notes: [{ id: 'n1', body: 'hi' }],
+      },
+      softDelete: { entities: ['todos'] },
+    });
+
+    await backend.data.delete('todos', '1');
+    expect(await backend.data.read('todos', { id: '1' })).toBeNull();
+    expect(await backend.data.read('todos', { id: '1', includeDeleted: true })).toMatchObject({
+      deleted_at: expect.any(String),
+    });
+    expect(await backend.data.count('todos')).toBe(2);
+    expect(await backend.data.count('todos', { includeDeleted: true })).toBe(3);
+
+    // Already deleted rows are not counted again.
+    expect(
+      await backend.data.deleteWhere('todos', [{ field: 'id', op: 'in', value: ['1', '2'] }]),
+    ).toBe(1);
+    expect(await backend.data.read('todos', { select: ['id'] })).toEqual([{ id: '3' }]);
+
+    await backend.data.restore('todos', '1');
+    expect(await backend.data.read('todos', { id: '1' })).toMatchObject({ deleted_at: null });
+
+    await backend.data.purge('todos', '2');
+    expect(await backend.data.count('todos', { includeDeleted: true })).toBe(2);
+
+    await backend.data.delete('notes', 'n1');
+    expect(await backend.data.count('notes')).toBe(0);
+    await expect(backend.data.restore('notes', 'n1')).rejects.toThrow(ValidationError);
+  });
+
+  it('pages with keyset cursors in both directions', async () => {
+    const backend = createMemoryBackend({
+      seed: {
+        events: [5, 3, 3, 1, 4, 2].map((rank, i) => ({ id: `e${i}`, rank })),
+      },
+    });
+    const orderBy = { field: 'rank', ascending: false };
+
+    const first = await backend.data.readPage('events', { orderBy, pageSize: 4 });
+    expect(first.items.map((r) => r.id)).toEqual(['e0', 'e4', 'e1', 'e2']);
+    expect(first.prevCursor).toBeNull();
+
+    const second = await backend.data.readPage('events', {
+      orderBy,
+      pageSize: 4,
+      cursor: first.nextCursor,
+    });
+    expect(second.items.map((r) => r.id)).toEqual(['e5', 'e3']);
+    expect(second.nextCursor).toBeNull();
+
+    const back = await backend.data.readPage('events', {
+      orderBy,
+      pageSize: 4,
+      cursor: second.prevCursor,
+    });
+    expect(back.items.map((r) => r.id)).toEqual(first.items.map((r) => r.id));
+    expect(back.prevCursor).toBeNull();
+
+    const all: unknown[] = [];
+    for await (const row of iterateAll(backend.data, 'events', { orderBy, pageSize: 2 })) {
+      all.push(row.id);
+    }
+    expect(all).toEqual(['e0', 'e4', 'e1', 'e2', 'e5', 'e3']);
+  });
+
+  it('counts and aggregates with optional grouping', async () => {
+    const backend = createMemoryBackend({
+      seed: {
+        orders: [
+          { status: 'paid', amount: 10 },
+          { status: 'paid', amount: 30 },
+          { status: 'open', amount: 5 },
+          { status: 'open', amount: null },
+        ],
+      },
+    });
+
+    expect(await backend.data.count('orders')).toBe(4);
+    expect(await backend.data.count('orders', { filter: { status: 'paid' } })).toBe(2);
+
+    const byStatus = await backend.data.aggregate('orders', {
+      groupBy: 'status',
+      aggregates: [
+        { fn: 'count' },
+        { fn: 'sum', field: 'amount' },
+        { fn: 'avg', field: 'amount', as: 'average' },
+        { fn: 'max', field: 'amount' },
+      ],
+    });
+    expect(byStatus).toEqual([
+      { status: 'paid', count: 2, sum_amount: 40, average: 20, max_amount: 30 },
+      { status: 'open', count: 2, sum_amount: 5, average: 5, max_amount: 5 },
+    ]);
+
+    expect(
+      await backend.data.aggregate('orders', {
+        aggregates: [{ fn: 'min', field: 'amount' }],
+        filters: [{ field: 'status', op: 'eq', value: 'missing' }],
+      }),
+    ).toEqual([{ min_amount: null }]);
+  });
+
+  it('emits realtime changes for mutations', async () => {
+    const backend = seeded();
+    const events: string[] = [];
+    const sub = backend.realtime.subscribe('todos', (change) => events.push(change.event), {
+      filter: { field: 'done', op: 'eq', value: false },
+    });
+
+    await backend.data.create('todos', { title: 'New', done: false });
+    await backend.data.create('todos', { title: 'Done already', done: true });
+    await backend.data.update('todos', '1', { title: 'Write more docs' });
+    await backend.data.delete('todos', '3');
+    sub.unsubscribe();
+    await backend.data.delete('todos', '1');
+
+    expect(events).toEqual(['insert', 'update', 'delete']);
+  });
+});
+
+describe('createMemoryBackend auth', () => {
+  it('signs users in and out and notifies listeners', async () => {
+    const backend = createMemoryBackend({ users: [{ email: 'a@b.com', password: 'pw' }] });
+    const events: string[] = [];
+    backend.auth.onAuthStateChange((event) => events.push(event));
+
+    await expect(backend.auth.signIn({ email: 'a@b.com', password: 'nope' })).rejects.toThrow(
+      UnauthorizedError,
+    );
+    const session = await backend.auth.signIn({ email: 'a@b.com', password: 'pw' });
+    expect(session.user?.email).toBe('a@b.com');
+    expect((await backend.auth.getUser())?.email).toBe('a@b.com');
+
+    await backend.auth.signOut();
+    expect(await backend.auth.getSession()).toBeNull();
+    expect(events).toEqual(['INITIAL_SESSION', 'SIGNED_IN', 'SIGNED_OUT']);
+  });
+
+  it('signs in with a one-time code', async () => {
+    const backend = createMemoryBackend({ otpCode: '000111' });
+
+    await expect(
+      backend.auth.signInWithOtp({ email: 'new@b.com', shouldCreateUser: false }),
+    ).rejects.toThrow(NotFoundError);
+    await backend.auth.signInWithOtp({ email: 'new@b.com' });
+    await expect(backend.auth.verifyOtp({ email: 'new@b.com', token: '123456' })).rejects.toThrow(
+      UnauthorizedError,
+    );
+    const session = await backend.auth.verifyOtp({ email: 'new@b.com', token: '000111' });
+    expect(session.user?.email).toBe('new@b.com');
+
+    // Codes are single use.
+    await expect(backend.auth.verifyOtp({ email: 'new@b.com', token: '000111' })).rejects.toThrow(
+      UnauthorizedError,
+    );
+
+    await backend.auth.signInWithOtp({ phone: '+15550100' });
+    const phoneSession = await backend.auth.verifyOtp({ phone: '+15550100', token: '000111' });
+    expect(phoneSession.user?.phone).toBe('+15550100');
+  });
+
+  it('completes an OAuth flow by exchanging the code', async () => {
+    const backend = createMemoryBackend();
+    const { url } = await backend.auth.signInWithOAuth({
+      provider: 'github',
+      redirectTo: 'https://app.test/callback',
+    });
+    const code = new URL(url!).searchParams.get('code')!;
+
+    const session = await backend.auth.exchangeCodeForSession(code);
+    expect(session.user?.email).toBe('github-user@oauth.memory');
+    await expect(backend.auth.exchangeCodeForSession(code)).rejects.toThrow(UnauthorizedError);
+  });
+});
+
+describe('createMemoryBackend admin', () => {
+  it('manages users visible to auth', async () => {
+    const backend = createMemoryBackend({ users: [{ email: 'a@b.com', password: 'pw' }] });
+
+    const created = await backend.admin.createUser({
+      email: 'c@d.com',
+      password: 'secret',
+      appMetadata: { role: 'editor', plan: 'free' },
+    });
+    await expect(backend.admin.createUser({ email: 'c@d.com' })).rejects.toThrow(ConflictError);
+
+    const page = await backend.admin.listUsers({ perPage: 1 });
+    expect(page.users.map((u) => u.email)).toEqual(['a@b.com']);
+    expect(page.nextPage).toBe(2);
+
+    const updated = await backend.admin.setAppMetadata(created.id, { role: 'admin', plan: null });
+    expect(updated.appMetadata).toEqual({ role: 'admin' });
+
+    const session = await backend.auth.signIn({ email: 'c@d.com', password: 'secret' });
+    expect(session.user?.id).toBe(created.id);
+
+    await backend.admin.updateUser(created.id, { banDuration: '24h' });
+    await expect(backend.auth.signIn({ email: 'c@d.com', password: 'secret' })).rejects.toThrow(
+      ForbiddenError,
+    );
+
+    await backend.admin.deleteUser(created.id);
+    expect(await backend.admin.getUser(created.id)).toBeNull();
+    await expect(backend.admin.deleteUser(created.id)).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe('createMemoryBackend storage', () => {
+  it('stores, lists and removes bytes', async () => {
+    const backend = createMemoryBackend();
+    await backend.storage.upload('files', 'docs/a.txt', new Uint8Array([1, 2, 3]));
+    await backend.storage.upload('files', 'docs/nested/b.txt', new Uint8Array([4]));
+
+    await expect(
+      backend.storage.upload('files', 'docs/a.txt', new Uint8Array([9])),
+    ).rejects.toThrow(ConflictError);
+    expect([...(await backend.storage.download('files', 'docs/a.txt'))]).toEqual([1, 2, 3]);
+
+    const listed = await backend.storage.list('files', 'docs');
+    expect(listed.map((e) => e.name)).toEqual(['a.txt', 'nested']);
+
+    await backend.storage.remove('files', ['docs/a.txt']);
+    await expect(backend.storage.download('files', 'docs/a.txt')).rejects.toThrow(NotFoundError);
+  });
+});
+
+describe('createMemoryBackend with a schema', () => {
+  type Schema = {
+    todos: { id: string; title: string; done: boolean };
+  };
+
+  it('constrains entities, fields and select at compile time', async () => {
+    const backend = createMemoryBackend<Schema>();
+    const todo = await backend.data.create('todos', { title: 'typed', done: false });
+    expect(todo.title).toBe('typed');
+
+    const rows = await backend.data.read('todos', {
+      filters: [{ field: 'done', op: 'eq', value: false }],
+      select: ['title'],
+    });
+    expect(rows).toEqual([{ title: 'typed' }]);
+
+    // @ts-expect-error unknown entity
+    await backend.data.read('todo');
+    // @ts-expect-error unknown field in payload
+    await backend.data.update('todos', todo.id, { titel: 'typo' });
+    // @ts-expect-error unknown filter field
+    await backend.data.count('todos', { filters: [{ field: 'state', op: 'eq', value: 1 }] });
+  });
+});
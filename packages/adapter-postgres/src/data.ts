@@ -0,0 +1,295 @@
+import type {
+  BackendData,
+  DataFilterNode,
+  DataOrderBy,
+  DataReadOptions,
+  DataRecord,
+  DataRelations,
+  SoftDeleteOptions,
+} from '@base44-to-supabase/adapter';
+import {
+  ValidationError,
+  aggregateAlias,
+  buildPage,
+  decodeCursor,
+  excludeSoftDeleted,
+  joinIncludes,
+  normalizeGroupBy,
+  normalizePageOrder,
+  softDeleteColumn,
+} from '@base44-to-supabase/adapter';
+
+import { toBackendError } from './errors.js';
+import type { Executor } from './pool.js';
+import {
+  afterSql,
+  orderSql,
+  param,
+  quoteIdent,
+  tableRef,
+  whereSql,
+  type SqlParams,
+} from './sql.js';
+
+// Rows a write or read applies to.
+type Target = Pick<DataReadOptions, 'id' | 'filter' | 'filters'>;
+
+function normalizeOrderBy(orderBy?: DataReadOptions['orderBy']): DataOrderBy[] {
+  if (!orderBy) return [];
+  return Array.isArray(orderBy) ? orderBy : [orderBy];
+}
+
+function normalizeSelect(select?: DataReadOptions['select']): string[] | null {
+  if (!select) return null;
+  const fields = (Array.isArray(select) ? select : select.split(','))
+    .map((f) => f.trim())
+    // Embedded resources (`project(*)`) are resolved through `include` instead.
+    .filter((f) => f && !f.includes('('));
+  if (fields.length === 0 || fields.includes('*')) return null;
+  return fields;
+}
+
+function projectRecord(record: DataRecord, fields: string[] | null): DataRecord {
+  if (!fields) return record;
+  return Object.fromEntries(fields.map((f) => [f, record[f] ?? null]));
+}
+
+function definedEntries(row: DataRecord): [string, unknown][] {
+  return Object.entries(row).filter(([, v]) => v !== undefined);
+}
+
+// node-postgres returns bigint and numeric results as strings; counts, sums and averages are
+// returned as numbers, like PostgREST does.
+function numericAggregate(value: unknown): unknown {
+  return typeof value === 'string' ? Number(value) : value;
+}
+
+export function createPostgresData(
+  executor: Executor,
+  schema: string,
+  relations: DataRelations = {},
+  softDelete?: SoftDeleteOptions,
+): BackendData {
+  const table = (entity: string) => tableRef(schema, entity);
+
+  // Runs one statement and translates Postgres errors.
+  async function query(
+    exec: Executor,
+    entity: string,
+    sql: string,
+    params: SqlParams,
+  ): Promise<DataRecord[]> {
+    try {
+      return await exec.query(sql, params);
+    } catch (error) {
+      throw toBackendError(error, { entity });
+    }
+  }
+
+  function insert(
+    exec: Executor,
+    entity: string,
+    row: DataRecord,
+    conflict?: string[],
+  ): Promise<DataRecord[]> {
+    const entries = definedEntries(row);
+    const params: SqlParams = [];
+    let sql = entries.length
+      ? `INSERT INTO ${table(entity)} (${entries.map(([k]) => quoteIdent(k)).join(', ')}) VALUES (${entries.map(([, v]) => param(params, v)).join(', ')})`
+      : `INSERT INTO ${table(entity)} DEFAULT VALUES`;
+    if (conflict) {
+      // Updating the conflict columns to themselves keeps rows without other changes returned.
+      const updated = entries.map(([k]) => k).filter((k) => !conflict.includes(k));
+      const set = (updated.length ? updated : conflict).map(
+        (k) => `${quoteIdent(k)} = excluded.${quoteIdent(k)}`,
+      );
+      sql += ` ON CONFLICT (${conflict.map(quoteIdent).join(', ')}) DO UPDATE SET ${set.join(', ')}`;
+    }
+    return query(exec, entity, `${sql} RETURNING *`, params);
+  }
+
+  // Sets `patch` on the rows matching `target` (and `extra` conditions) and returns them.
+  function updateRows(
+    entity: string,
+    target: Target,
+    patch: DataRecord,
+    extra: string[] = [],
+  ): Promise<DataRecord[]> {
+    const params: SqlParams = [];
+    const set = definedEntries(patch).map(([k, v]) => `${quoteIdent(k)} = ${param(params, v)}`);
+    const where = whereSql(target, params, extra);
+    const sql = set.length
+      ? `UPDATE ${table(entity)} SET ${set.join(', ')}${where} RETURNING *`
+      : `SELECT * FROM ${table(entity)}${where}`;
+    return query(executor, entity, sql, params);
+  }
+
+  function deleteRows(entity: string, target: Target): Promise<DataRecord[]> {
+    const params: SqlParams = [];
+    const sql = `DELETE FROM ${table(entity)}${whereSql(target, params)} RETURNING *`;
+    return query(executor, entity, sql, params);
+  }
+
+  // Soft-deletes the live rows matching `target`; already marked rows are left alone.
+  function markDeleted(entity: string, target: Target, column: string): Promise<DataRecord[]> {
+    const params: SqlParams = [];
+    const where = whereSql(target, params, [`${quoteIdent(column)} IS NULL`]);
+    const sql = `UPDATE ${table(entity)} SET ${quoteIdent(column)} = now()${where} RETURNING *`;
+    return query(executor, entity, sql, params);
+  }
+
+  function requireFilters(entity: string, filters: DataFilterNode[]): Target {
+    if (filters.length === 0) {
+      throw new ValidationError('Bulk updates and deletes require at least one filter', { entity });
+    }
+    return { filters };
+  }
+
+  // `select`, ordering and pagination are applied in SQL. With `include`, relations are joined
+  // client-side, so all columns are loaded and pagination waits until `required` relations have
+  // dropped their rows.
+  async function read(entity: string, readOptions?: DataReadOptions): Promise<DataRecord[]> {
+    const options = excludeSoftDeleted(softDelete, entity, readOptions);
+    const include = options?.include;
+    let fields = normalizeSelect(options?.select);
+    const params: SqlParams = [];
+    const columns = fields && !include ? fields.map(quoteIdent).join(', ') : '*';
+    let sql = `SELECT ${columns} FROM ${table(entity)}${whereSql(options, params)}`;
+    sql += orderSql(normalizeOrderBy(options?.orderBy));
+    if (!include) {
+      if (options?.limit !== undefined) sql += ` LIMIT ${param(params, options.limit)}`;
+      if (options?.offset !== undefined) sql += ` OFFSET ${param(params, options.offset)}`;
+      return query(executor, entity, sql, params);
+    }
+
+    let rows = await query(executor, entity, sql, params);
+    rows = await joinIncludes(data, entity, rows, include, relations);
+    const offset = options?.offset ?? 0;
+    const end = options?.limit !== undefined ? offset + options.limit : undefined;
+    if (fields) fields = [...fields, ...Object.keys(include)];
+    return rows.slice(offset, end).map((row) => projectRecord(row, fields));
+  }
+
+  const data: BackendData = {
+    async create(entity, row) {
+      const [created] = await insert(executor, entity, row);
+      return created as any;
+    },
+    async read(entity, options) {
+      const rows = await read(entity, options);
+      if (options?.id !== undefined) return (rows[0] ?? null) as any;
+      return rows as any;
+    },
+    async readPage(entity, pageOptions) {
+      const options = excludeSoftDeleted(softDelete, entity, pageOptions);
+      const order = normalizePageOrder(options.orderBy);
+      const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+      const direction = cursor?.direction ?? 'next';
+      // Previous pages are read in reverse order, starting right before the cursor row.
+      const effectiveOrder =
+        direction === 'next'
+          ? order
+          : order.map((o) => ({ field: o.field, ascending: !(o.ascending ?? true) }));
+
+      const params: SqlParams = [];
+      const after = cursor ? [afterSql(effectiveOrder, cursor.values, params)] : [];
+      const where = whereSql(options, params, after);
+      const sql = `SELECT * FROM ${table(entity)}${where}${orderSql(effectiveOrder)} LIMIT ${param(params, options.pageSize + 1)}`;
+      const rows = await query(executor, entity, sql, params);
+      const page = buildPage(rows, {
+        pageSize: options.pageSize,
+        order,
+        direction,
+        hasCursor: cursor !== null,
+      });
+      // Every column is loaded so the cursors can be built from the order fields.
+      const fields = normalizeSelect(options.select);
+      return { ...page, items: page.items.map((row) => projectRecord(row, fields)) } as any;
+    },
+    async count(entity, countOptions) {
+      const options = excludeSoftDeleted(softDelete, entity, countOptions);
+      const params: SqlParams = [];
+      const sql = `SELECT count(*) AS "count" FROM ${table(entity)}${whereSql(options, params)}`;
+      const [row] = await query(executor, entity, sql, params);
+      return Number(row?.count ?? 0);
+    },
+    async aggregate(entity, aggregateOptions) {
+      const options = excludeSoftDeleted(softDelete, entity, aggregateOptions);
+      const groupBy = normalizeGroupBy(options.groupBy);
+      const terms = [
+        ...groupBy.map(quoteIdent),
+        ...options.aggregates.map((a) => {
+          const target = a.field ? quoteIdent(a.field) : '*';
+          return `${a.fn}(${target}) AS ${quoteIdent(aggregateAlias(a))}`;
+        }),
+      ];
+      const params: SqlParams = [];
+      const group = groupBy.length ? ` GROUP BY ${groupBy.map(quoteIdent).join(', ')}` : '';
+      const sql = `SELECT ${terms.join(', ')} FROM ${table(entity)}${whereSql(options, params)}${group}`;
+      const rows = await query(executor, entity, sql, params);
+      const numeric = new Set(
+        options.aggregates.filter((a) => a.fn !== 'min' && a.fn !== 'max').map(aggregateAlias),
+      );
+      return rows.map((row) =>
+        Object.fromEntries(
+          Object.entries(row).map(([k, v]) => [k, numeric.has(k) ? numericAggregate(v) : v]),
+        ),
+      );
+    },
+    async upsert(entity, input, options) {
+      const conflict = (options?.onConflict ?? 'id').split(',').map((c) => c.trim());
+      const upsertOne = async (exec: Executor, item: DataRecord) => {
+        const keyed = conflict.every((c) => item[c] !== undefined);
+        const [row] = await insert(exec, entity, item, keyed ? conflict : undefined);
+        return row!;
+      };
+      if (!Array.isArray(input)) return (await upsertOne(executor, input)) as any;
+      return executor.transaction(async (tx) => {
+        const rows: DataRecord[] = [];
+        for (const item of input) rows.push(await upsertOne(tx, item));
+        return rows;
+      }) as any;
+    },
+    async update(entity, id, patch) {
+      const [row] = await updateRows(entity, { id }, patch);
+      // Like PostgREST, updating a missing row is not an error.
+      return (row ?? { id, ...patch }) as any;
+    },
+    async delete(entity, id) {
+      const column = softDeleteColumn(softDelete, entity);
+      if (column) await markDeleted(entity, { id }, column);
+      else await deleteRows(entity, { id });
+    },
+    async createMany(entity, rows) {
+      // Rows may set different columns, so each gets its own INSERT in one transaction.
+      const created = await executor.transaction(async (tx) => {
+        const inserted: DataRecord[] = [];
+        for (const row of rows) inserted.push(...(await insert(tx, entity, row)));
+        return inserted;
+      });
+      return created as any;
+    },
+    async updateWhere(entity, filters, patch) {
+      return (await updateRows(entity, requireFilters(entity, filters), patch)) as any;
+    },
+    async deleteWhere(entity, filters) {
+      const column = softDeleteColumn(softDelete, entity);
+      const target = requireFilters(entity, filters);
+      const rows = column
+        ? await markDeleted(entity, target, column)
+        : await deleteRows(entity, target);
+      return rows.length;
+    },
+    async restore(entity, id) {
+      const column = softDeleteColumn(softDelete, entity);
+      if (!column) {
+        throw new ValidationError(`${entity} is not configured for soft delete`, { entity });
+      }
+      await updateRows(entity, { id }, { [column]: null }, [`${quoteIdent(column)} IS NOT NULL`]);
+    },
+    async purge(entity, id) {
+      await deleteRows(entity, { id });
+    },
+  };
+  return data;
+}
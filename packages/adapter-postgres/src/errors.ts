@@ -0,0 +1,57 @@
+import {
+  BackendError,
+  ConflictError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  ValidationError,
+  type BackendErrorOptions,
+} from '@base44-to-supabase/adapter';
+
+export type ErrorContext = {
+  entity?: string;
+};
+
+type ErrorClass = new (message: string, options?: BackendErrorOptions) => BackendError;
+
+// Postgres SQLSTATE codes, as reported by node-postgres' `DatabaseError.code`.
+const POSTGRES_CODES: Record<string, ErrorClass> = {
+  '23505': ConflictError, // unique_violation
+  '23P01': ConflictError, // exclusion_violation
+  '23503': ConflictError, // foreign_key_violation
+  '40001': ConflictError, // serialization_failure
+  '40P01': ConflictError, // deadlock_detected
+  '23502': ValidationError, // not_null_violation
+  '23514': ValidationError, // check_violation
+  '22P02': ValidationError, // invalid_text_representation
+  '22007': ValidationError, // invalid_datetime_format
+  '42703': ValidationError, // undefined_column
+  '42501': ForbiddenError, // insufficient_privilege (includes RLS violations)
+  '42P01': NotFoundError, // undefined_table
+  '42883': NotFoundError, // undefined_function
+  '57P01': NetworkError, // admin_shutdown
+  '08000': NetworkError, // connection_exception
+  '08003': NetworkError, // connection_does_not_exist
+  '08006': NetworkError, // connection_failure
+};
+
+// Socket errors from the driver itself, before Postgres answered.
+const NETWORK_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND']);
+
+// Translates errors thrown by node-postgres (or a compatible pool) into the adapter's BackendError
+// hierarchy.
+export function toBackendError(error: unknown, context: ErrorContext = {}): BackendError {
+  if (error instanceof BackendError) return error;
+
+  const err = error as any;
+  const message = typeof err?.message === 'string' && err.message ? err.message : String(error);
+  const options: BackendErrorOptions = { entity: context.entity, cause: error };
+
+  const code = typeof err?.code === 'string' ? err.code : undefined;
+  const ErrorType =
+    (code ? POSTGRES_CODES[code] : undefined) ??
+    (code && NETWORK_CODES.has(code) ? NetworkError : undefined);
+
+  if (ErrorType) return new ErrorType(message, options);
+  return new BackendError(message, 'unknown', options);
+}
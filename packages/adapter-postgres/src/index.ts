@@ -0,0 +1,97 @@
+import type {
+  Backend,
+  BackendDataFor,
+  BackendRpc,
+  DataRecord,
+  DataRelations,
+  EntitySchema,
+  SoftDeleteOptions,
+} from '@base44-to-supabase/adapter';
+
+import { createPostgresData } from './data.js';
+import { toBackendError } from './errors.js';
+import { poolExecutor, type Executor, type PgPool } from './pool.js';
+import { param, quoteIdent, tableRef, type SqlParams } from './sql.js';
+
+export type { PgPool, PgPoolClient, PgQueryResult, PgQueryable } from './pool.js';
+
+export type PostgresBackendOptions = {
+  // Schema holding the entity tables and RPC functions. Defaults to `public`.
+  schema?: string;
+  // Relations used to resolve `include` on reads, which this adapter joins client-side.
+  relations?: DataRelations;
+  // Entities whose deletes only set a timestamp; see `SoftDeleteOptions`.
+  softDelete?: SoftDeleteOptions;
+};
+
+// What runs inside `transaction`: the same data and RPC API, bound to one connection.
+export type PostgresTransaction<S extends EntitySchema = EntitySchema> = Pick<
+  Backend<S>,
+  'data' | 'rpc'
+>;
+
+export type PostgresBackend<S extends EntitySchema = EntitySchema> = PostgresTransaction<S> & {
+  // Runs `fn` in a transaction that commits when it resolves and rolls back when it throws.
+  transaction<T>(fn: (tx: PostgresTransaction<S>) => Promise<T>): Promise<T>;
+};
+
+// Like PostgREST, a function returning a single value (one row whose only column is named after
+// the function) resolves to that value, and set-returning functions of a single value to an
+// array of values; functions returning rows resolve to the rows.
+function rpcResult(fn: string, rows: DataRecord[]): unknown {
+  const scalar = rows.every((row) => {
+    const keys = Object.keys(row);
+    return keys.length === 1 && keys[0] === fn;
+  });
+  if (!scalar) return rows;
+  const values = rows.map((row) => row[fn]);
+  return values.length === 1 ? values[0] : values;
+}
+
+function createPostgresRpc(executor: Executor, schema: string): BackendRpc {
+  return {
+    async call(fn, params) {
+      // Named arguments, so the parameter order of the function does not matter.
+      const values: SqlParams = [];
+      const args = Object.entries(params ?? {}).map(
+        ([name, value]) => `${quoteIdent(name)} => ${param(values, value)}`,
+      );
+      const sql = `SELECT * FROM ${tableRef(schema, fn)}(${args.join(', ')})`;
+      try {
+        return rpcResult(fn, await executor.query(sql, values)) as any;
+      } catch (error) {
+        throw toBackendError(error);
+      }
+    },
+  };
+}
+
+function bind<S extends EntitySchema>(
+  executor: Executor,
+  options: PostgresBackendOptions,
+): PostgresTransaction<S> {
+  const schema = options.schema ?? 'public';
+  return {
+    data: createPostgresData(
+      executor,
+      schema,
+      options.relations,
+      options.softDelete,
+    ) as BackendDataFor<S>,
+    rpc: createPostgresRpc(executor, schema),
+  };
+}
+
+// Data and RPC straight over a node-postgres-compatible pool, for server-side code that does not
+// need PostgREST. Queries run with the pool's credentials, so row level security only applies if
+// its role is subject to it; keep this off the client.
+export function createPostgresBackend<S extends EntitySchema = EntitySchema>(
+  pool: PgPool,
+  options: PostgresBackendOptions = {},
+): PostgresBackend<S> {
+  const executor = poolExecutor(pool);
+  return {
+    ...bind<S>(executor, options),
+    transaction: (fn) => executor.transaction((tx) => fn(bind<S>(tx, options))),
+  };
+}
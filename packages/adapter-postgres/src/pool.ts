@@ -0,0 +1,63 @@
+// The parts of node-postgres this adapter uses, so any compatible pool works: `pg.Pool`, pg-mem's
+// adapters, or a wrapper that adds logging or tracing.
+export type PgQueryResult = {
+  rows: Record<string, unknown>[];
+};
+
+export interface PgQueryable {
+  query(text: string, values?: unknown[]): Promise<PgQueryResult>;
+}
+
+export interface PgPoolClient extends PgQueryable {
+  // An error discards the connection instead of returning it to the pool.
+  release(error?: Error | boolean): void;
+}
+
+export interface PgPool extends PgQueryable {
+  connect(): Promise<PgPoolClient>;
+}
+
+// Runs statements either on the pool or, inside a transaction, on the transaction's connection.
+export type Executor = {
+  query(sql: string, params: unknown[]): Promise<Record<string, unknown>[]>;
+  // Nested transactions join the outer one.
+  transaction<T>(fn: (executor: Executor) => Promise<T>): Promise<T>;
+};
+
+function clientExecutor(client: PgQueryable): Executor {
+  const executor: Executor = {
+    async query(sql, params) {
+      return (await client.query(sql, params)).rows;
+    },
+    transaction: (fn) => fn(executor),
+  };
+  return executor;
+}
+
+export function poolExecutor(pool: PgPool): Executor {
+  return {
+    async query(sql, params) {
+      return (await pool.query(sql, params)).rows;
+    },
+    async transaction(fn) {
+      const client = await pool.connect();
+      let releaseError: Error | undefined;
+      try {
+        await client.query('BEGIN');
+        const result = await fn(clientExecutor(client));
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        try {
+          await client.query('ROLLBACK');
+        } catch (rollbackError) {
+          // The connection is in an unknown state; make the pool drop it.
+          releaseError = rollbackError as Error;
+        }
+        throw error;
+      } finally {
+        client.release(releaseError);
+      }
+    },
+  };
+}
@@ -0,0 +1,161 @@
+import type {
+  DataFilter,
+  DataFilterNode,
+  DataOrderBy,
+  DataReadOptions,
+  DataTextSearchOptions,
+} from '@base44-to-supabase/adapter';
+import { ValidationError, isFilterGroup } from '@base44-to-supabase/adapter';
+
+// Parameter values of the statement being built, in placeholder order (`$1` is `params[0]`).
+export type SqlParams = unknown[];
+
+// Binary operators that map one to one onto a Postgres operator.
+const OPERATORS: Partial<Record<DataFilter['op'], string>> = {
+  eq: '=',
+  neq: '<>',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  like: 'LIKE',
+  ilike: 'ILIKE',
+  contains: '@>',
+  containedBy: '<@',
+  overlaps: '&&',
+  match: '~',
+  rangeGt: '>>',
+  rangeGte: '&>',
+  rangeLt: '<<',
+  rangeLte: '&<',
+  rangeAdjacent: '-|-',
+};
+
+const TSQUERY_FUNCTIONS: Record<NonNullable<DataTextSearchOptions['type']> | 'tsquery', string> = {
+  tsquery: 'to_tsquery',
+  plain: 'plainto_tsquery',
+  phrase: 'phraseto_tsquery',
+  websearch: 'websearch_to_tsquery',
+};
+
+export function quoteIdent(name: string): string {
+  return `"${name.replaceAll('"', '""')}"`;
+}
+
+export function tableRef(schema: string, entity: string): string {
+  return `${quoteIdent(schema)}.${quoteIdent(entity)}`;
+}
+
+// Adds `value` to `params` and returns its placeholder.
+export function param(params: SqlParams, value: unknown): string {
+  params.push(value === undefined ? null : value);
+  return `$${params.length}`;
+}
+
+// node-postgres sends arrays as Postgres arrays and objects as JSON, which `@>`/`<@` would compare
+// against as text; the cast makes object operands jsonb.
+function operand(params: SqlParams, value: unknown): string {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return `${param(params, JSON.stringify(value))}::jsonb`;
+  }
+  return param(params, value);
+}
+
+function filterSql(filter: DataFilter, params: SqlParams): string {
+  const { field, op, value } = filter;
+  const column = quoteIdent(field);
+  switch (op) {
+    case 'like':
+    case 'ilike':
+      // PostgREST accepts `*` as the wildcard; it is translated like PostgREST does.
+      return `${column} ${OPERATORS[op]} ${param(params, String(value as string).replaceAll('*', '%'))}`;
+    case 'in': {
+      const list = value as unknown[];
+      if (list.length === 0) return 'false';
+      return `${column} IN (${list.map((v) => param(params, v)).join(', ')})`;
+    }
+    case 'is':
+      if (value === null) return `${column} IS NULL`;
+      if (value === true) return `${column} IS TRUE`;
+      if (value === false) return `${column} IS FALSE`;
+      throw new ValidationError(`"is" filters on ${field} only accept null, true or false`);
+    case 'textSearch': {
+      const fn = TSQUERY_FUNCTIONS[filter.search?.type ?? 'tsquery'];
+      const config = filter.search?.config;
+      const args = config
+        ? `${param(params, config)}::regconfig, ${param(params, value)}`
+        : param(params, value);
+      return `${column} @@ ${fn}(${args})`;
+    }
+    default: {
+      const operator = OPERATORS[op];
+      if (!operator) throw new ValidationError(`Unsupported filter operator: ${String(op)}`);
+      return `${column} ${operator} ${operand(params, value)}`;
+    }
+  }
+}
+
+function nodeSql(node: DataFilterNode, params: SqlParams): string {
+  if (!isFilterGroup(node)) return filterSql(node, params);
+  if ('not' in node) return `NOT (${nodeSql(node.not, params)})`;
+  const isAnd = 'and' in node;
+  const children = isAnd ? node.and : node.or;
+  if (children.length === 0) {
+    throw new ValidationError(`Empty "${isAnd ? 'and' : 'or'}" filter group`);
+  }
+  const parts = children.map((child) => `(${nodeSql(child, params)})`);
+  return parts.join(isAnd ? ' AND ' : ' OR ');
+}
+
+// ` WHERE ...` for `id`, `filter` and `filters` plus any `extra` conditions, or '' for none.
+export function whereSql(
+  options: Pick<DataReadOptions, 'id' | 'filter' | 'filters'> | undefined,
+  params: SqlParams,
+  extra: string[] = [],
+): string {
+  const clauses: string[] = [];
+  if (options?.id !== undefined) clauses.push(`"id" = ${param(params, options.id)}`);
+  for (const [field, value] of Object.entries(options?.filter ?? {})) {
+    clauses.push(`${quoteIdent(field)} = ${param(params, value)}`);
+  }
+  for (const node of options?.filters ?? []) clauses.push(`(${nodeSql(node, params)})`);
+  clauses.push(...extra);
+  return clauses.length ? ` WHERE ${clauses.join(' AND ')}` : '';
+}
+
+export function orderSql(orderBy: DataOrderBy[]): string {
+  if (orderBy.length === 0) return '';
+  const terms = orderBy.map(
+    (o) => `${quoteIdent(o.field)} ${(o.ascending ?? true) ? 'ASC' : 'DESC'}`,
+  );
+  return ` ORDER BY ${terms.join(', ')}`;
+}
+
+// Rows strictly after `values` in `orderBy` order, for keyset pagination. Postgres sorts nulls
+// last when ascending and first when descending.
+export function afterSql(orderBy: DataOrderBy[], values: unknown[], params: SqlParams): string {
+  const alternatives = orderBy.map((o, i) => {
+    const column = quoteIdent(o.field);
+    const equalSoFar = orderBy.slice(0, i).map((prev, j) => {
+      const previous = values[j];
+      return previous === null || previous === undefined
+        ? `${quoteIdent(prev.field)} IS NULL`
+        : `${quoteIdent(prev.field)} = ${param(params, previous)}`;
+    });
+    const value = values[i];
+    let after: string;
+    if ((o.ascending ?? true) === true) {
+      after =
+        value === null || value === undefined
+          ? 'false'
+          : `(${column} > ${param(params, value)} OR ${column} IS NULL)`;
+    } else {
+      after =
+        value === null || value === undefined
+          ? `${column} IS NOT NULL`
+          : `${column} < ${param(params, value)}`;
+    }
+    return [...equalSoFar, after].join(' AND ');
+  });
+  return `(${alternatives.map((a) => `(${a})`).join(' OR ')})`;
+}
@@ -0,0 +1,269 @@
+import { randomUUID } from 'node:crypto';
+
+import { ConflictError, ValidationError, type DataRecord } from '@base44-to-supabase/adapter';
+import { DataType, newDb } from 'pg-mem';
+import { describe, expect, it } from 'vitest';
+
+import { createPostgresBackend, type PgPool, type PgQueryResult } from '../src/index.js';
+
+const SCHEMA = `
+create table "projects" (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique
+);
+create table "todos" (
+  id uuid primary key default gen_random_uuid(),
+  project_id uuid references "projects" (id),
+  "title" text,
+  "done" boolean not null default false,
+  "rank" int,
+  "meta" jsonb,
+  deleted_at timestamptz
+);
+create table "odd ""name""" (id text primary key, "select" text);
+`;
+
+function database() {
+  const db = newDb();
+  db.public.registerFunction({
+    name: 'gen_random_uuid',
+    returns: DataType.uuid,
+    implementation: randomUUID,
+    impure: true,
+  });
+  db.public.registerFunction({
+    name: 'todo_count',
+    returns: DataType.integer,
+    implementation: () => 2,
+  });
+  db.public.none(SCHEMA);
+  const { Pool } = db.adapters.createPg();
+  return { db, pool: new Pool() as PgPool };
+}
+
+function backend() {
+  const { db, pool } = database();
+  const pg = createPostgresBackend(pool, {
+    relations: { todos: { project: { entity: 'projects', kind: 'one', field: 'project_id' } } },
+    softDelete: { entities: ['todos'] },
+  });
+  return { db, pg };
+}
+
+async function seed(pg: ReturnType<typeof backend>['pg']) {
+  const project = await pg.data.create<DataRecord>('projects', { name: 'Home' });
+  const rows = await pg.data.createMany<DataRecord>('todos', [
+    { title: 'Buy milk', rank: 2, project_id: project.id, meta: { tag: 'shop' } },
+    { title: 'Walk dog', rank: 1, done: true },
+    { title: 'buy bread', rank: 3, project_id: project.id },
+  ]);
+  return { project, rows };
+}
+
+// Records statements instead of running them, for SQL pg-mem cannot execute (it also ignores
+// ROLLBACK). Statements passed `duplicate` are rejected like a unique violation.
+function recordingPool(rows: Record<string, unknown>[] = [], duplicate?: unknown) {
+  const statements: Array<{ text: string; values?: unknown[] }> = [];
+  const released: unknown[] = [];
+  const query = (text: string, values?: unknown[]): Promise<PgQueryResult> => {
+    statements.push({ text, values });
+    if (duplicate !== undefined && values?.includes(duplicate)) {
+      return Promise.reject(Object.assign(new Error('duplicate key value'), { code: '23505' }));
+    }
+    return Promise.resolve({ rows });
+  };
+  const pool: PgPool = {
+    query,
+    connect: () =>
+      Promise.resolve({
+        query,
+        release: (error?: Error | boolean) => {
+          released.push(error);
+        },
+      }),
+  };
+  return { pool, statements, released };
+}
+
+describe('createPostgresBackend', () => {
+  it('creates, reads, updates and deletes rows', async () => {
+    const { pg } = backend();
+    const { rows } = await seed(pg);
+    const [milk] = rows;
+
+    expect(await pg.data.read('todos', { id: milk!.id as string })).toMatchObject({
+      title: 'Buy milk',
+      done: false,
+      meta: { tag: 'shop' },
+    });
+    const updated = await pg.data.update<DataRecord>('todos', milk!.id as string, { done: true });
+    expect(updated).toMatchObject({ title: 'Buy milk', done: true });
+
+    await pg.data.delete('todos', milk!.id as string);
+    expect(await pg.data.count('todos')).toBe(2);
+    expect(await pg.data.count('todos', { includeDeleted: true })).toBe(3);
+    await pg.data.restore('todos', milk!.id as string);
+    await pg.data.purge('todos', milk!.id as string);
+    expect(await pg.data.count('todos', { includeDeleted: true })).toBe(2);
+  });
+
+  it('translates filters, ordering, select and pagination into SQL', async () => {
+    const { pg } = backend();
+    await seed(pg);
+
+    const read = (options: Parameters<typeof pg.data.read>[1]) =>
+      pg.data.read('todos', options) as Promise<DataRecord[]>;
+    expect(
+      await read({
+        filters: [
+          {
+            or: [
+              { field: 'title', op: 'ilike', value: 'buy*' },
+              { field: 'done', op: 'is', value: true },
+            ],
+          },
+        ],
+        orderBy: { field: 'rank', ascending: false },
+        select: ['title', 'rank'],
+        limit: 2,
+        offset: 1,
+      }),
+    ).toEqual([
+      { title: 'Buy milk', rank: 2 },
+      { title: 'Walk dog', rank: 1 },
+    ]);
+    expect(
+      await read({
+        filters: [{ field: 'rank', op: 'in', value: [1, 3] }],
+        orderBy: { field: 'rank' },
+      }),
+    ).toMatchObject([{ title: 'Walk dog' }, { title: 'buy bread' }]);
+    expect(await read({ filters: [{ field: 'rank', op: 'in', value: [] }] })).toEqual([]);
+    expect(
+      await read({ filters: [{ field: 'meta', op: 'contains', value: { tag: 'shop' } }] }),
+    ).toMatchObject([{ title: 'Buy milk' }]);
+    expect(
+      await read({
+        filters: [{ not: { field: 'title', op: 'like', value: '%b%' } }],
+        select: 'title',
+        orderBy: { field: 'title' },
+      }),
+    ).toEqual([{ title: 'Buy milk' }, { title: 'Walk dog' }]);
+
+    const first = await pg.data.readPage('todos', { orderBy: { field: 'rank' }, pageSize: 2 });
+    expect(first.items.map((r) => r.rank)).toEqual([1, 2]);
+    const second = await pg.data.readPage('todos', {
+      orderBy: { field: 'rank' },
+      pageSize: 2,
+      cursor: first.nextCursor,
+    });
+    expect(second.items.map((r) => r.rank)).toEqual([3]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('aggregates, includes relations and upserts', async () => {
+    const { pg } = backend();
+    const { project } = await seed(pg);
+
+    expect(
+      await pg.data.aggregate('todos', {
+        groupBy: 'done',
+        aggregates: [{ fn: 'count' }, { fn: 'sum', field: 'rank' }],
+      }),
+    ).toEqual(
+      expect.arrayContaining([
+        { done: false, count: 2, sum_rank: 5 },
+        { done: true, count: 1, sum_rank: 1 },
+      ]),
+    );
+
+    const withProject = (await pg.data.read('todos', {
+      filter: { title: 'Buy milk' },
+      select: ['title'],
+      include: { project: { select: ['name'] } },
+    })) as DataRecord[];
+    expect(withProject).toEqual([{ title: 'Buy milk', project: { name: 'Home' } }]);
+
+    const upserted = await pg.data.upsert<DataRecord>('projects', [
+      { name: 'Home', id: project.id },
+      { name: 'Work' },
+    ]);
+    expect(upserted).toHaveLength(2);
+    await pg.data.upsert('projects', { name: 'Office' }, { onConflict: 'name' });
+    expect(await pg.data.count('projects')).toBe(3);
+  });
+
+  it('commits transactions and rolls them back on errors', async () => {
+    const { pool, statements, released } = recordingPool([{ id: 1 }], 'Kept');
+    const pg = createPostgresBackend(pool);
+    await pg.transaction(async (tx) => {
+      await tx.data.create('projects', { name: 'New' });
+    });
+    await expect(
+      pg.transaction(async (tx) => {
+        await tx.data.create('projects', { name: 'Dropped' });
+        await tx.data.create('projects', { name: 'Kept' });
+      }),
+    ).rejects.toBeInstanceOf(ConflictError);
+    // Bulk inserts are atomic on their own.
+    await expect(
+      pg.data.createMany('projects', [{ name: 'New' }, { name: 'Kept' }]),
+    ).rejects.toBeInstanceOf(ConflictError);
+
+    expect(statements.map((s) => s.text.split(' ')[0])).toEqual([
+      'BEGIN',
+      'INSERT',
+      'COMMIT',
+      'BEGIN',
+      'INSERT',
+      'INSERT',
+      'ROLLBACK',
+      'BEGIN',
+      'INSERT',
+      'INSERT',
+      'ROLLBACK',
+    ]);
+    expect(released).toEqual([undefined, undefined, undefined]);
+  });
+
+  it('quotes identifiers and maps errors', async () => {
+    const { pg } = backend();
+    await pg.data.create('odd "name"', { id: 'a', select: 'x' });
+    expect(await pg.data.read('odd "name"', { filter: { select: 'x' } })).toEqual([
+      { id: 'a', select: 'x' },
+    ]);
+    await expect(pg.data.updateWhere('todos', [], { done: true })).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+    await expect(pg.data.restore('projects', randomUUID())).rejects.toBeInstanceOf(ValidationError);
+    expect(await pg.rpc.call('todo_count')).toBe(2);
+  });
+
+  it('passes values as parameters and RPC arguments by name', async () => {
+    const { pool, statements } = recordingPool([{ search_todos: 'ok' }]);
+    const pg = createPostgresBackend(pool, { schema: 'app' });
+
+    await pg.data.read('todos', {
+      filters: [
+        { field: 'title', op: 'match', value: "^a'; drop table todos; --" },
+        {
+          field: 'fts',
+          op: 'textSearch',
+          value: 'milk',
+          search: { config: 'english', type: 'websearch' },
+        },
+        { field: 'period', op: 'rangeAdjacent', value: '[1,5)' },
+      ],
+    });
+    expect(statements.at(-1)).toEqual({
+      text: 'SELECT * FROM "app"."todos" WHERE ("title" ~ $1) AND ("fts" @@ websearch_to_tsquery($2::regconfig, $3)) AND ("period" -|- $4)',
+      values: ["^a'; drop table todos; --", 'english', 'milk', '[1,5)'],
+    });
+
+    expect(await pg.rpc.call('search_todos', { query: 'milk', max: 5 })).toBe('ok');
+    expect(statements.at(-1)).toEqual({
+      text: 'SELECT * FROM "app"."search_todos"("query" => $1, "max" => $2)',
+      values: ['milk', 5],
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+
+import type { AuthSession, AuthUser, BackendAuth } from '@base44-to-supabase/adapter';
+import {
+  ConflictError,
+  UnauthorizedError,
+  ValidationError,
+  settle,
+} from '@base44-to-supabase/adapter';
+import type Database from 'better-sqlite3';
+
+import { SQL_NOW } from './sql.js';
+
+type UserRow = {
+  id: string;
+  email: string;
+  password_hash: string;
+};
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const SESSION_TTL_SECONDS = 3600;
+const KEY_LENGTH = 64;
+
+// Users live in the database file, so accounts survive restarts; sessions are per process.
+export const AUTH_USERS_SQL = `CREATE TABLE IF NOT EXISTS auth_users (
+  id TEXT PRIMARY KEY DEFAULT (gen_random_uuid()),
+  email TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT ${SQL_NOW},
+  last_sign_in_at TEXT
+)`;
+
+// Stored as `scrypt$<salt>$<key>`, both base64.
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function unsupported(feature: string): Promise<never> {
+  return Promise.reject(new ValidationError(`${feature} is not supported by the SQLite adapter`));
+}
+
+// Email and password only: one-time codes and OAuth need a mail server or a provider.
+export function createSqliteAuth(db: Database.Database): BackendAuth {
+  const listeners = new Set<(event: string, session: AuthSession | null) => void>();
+  let session: AuthSession | null = null;
+
+  function findUser(where: 'email' | 'id', value: string): UserRow | undefined {
+    return db.prepare(`SELECT * FROM auth_users WHERE ${where} = ?`).get(value) as
+      UserRow | undefined;
+  }
+
+  function emit(event: string) {
+    for (const listener of [...listeners]) listener(event, session ? { ...session } : null);
+  }
+
+  function signInAs(row: UserRow): AuthSession {
+    db.prepare(`UPDATE auth_users SET last_sign_in_at = ${SQL_NOW} WHERE id = ?`).run(row.id);
+    const user: AuthUser = { id: row.id, email: row.email };
+    session = {
+      accessToken: `sqlite-access-${randomUUID()}`,
+      refreshToken: `sqlite-refresh-${randomUUID()}`,
+      expiresAt: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+      user,
+    };
+    emit('SIGNED_IN');
+    return { ...session };
+  }
+
+  return {
+    async signIn({ email, password }) {
+      const row = findUser('email', email);
+      if (!row || !(await verifyPassword(password, row.password_hash))) {
+        throw new UnauthorizedError('Invalid login credentials');
+      }
+      return signInAs(row);
+    },
+    async signUp({ email, password }) {
+      if (findUser('email', email)) throw new ConflictError('User already registered');
+      const hash = await hashPassword(password);
+      const row = db
+        .prepare(`INSERT INTO auth_users (email, password_hash) VALUES (?, ?) RETURNING *`)
+        .get(email, hash) as UserRow;
+      return signInAs(row);
+    },
+    signInWithOtp() {
+      return unsupported('One-time code sign-in');
+    },
+    verifyOtp() {
+      return unsupported('One-time code sign-in');
+    },
+    signInWithOAuth() {
+      return unsupported('OAuth sign-in');
+    },
+    exchangeCodeForSession() {
+      return unsupported('OAuth sign-in');
+    },
+    resetPasswordForEmail() {
+      // No emails are sent locally; the call succeeds so flows can be exercised.
+      return Promise.resolve();
+    },
+    async updatePassword(newPassword) {
+      const row = session?.user ? findUser('id', session.user.id) : undefined;
+      if (!row) throw new UnauthorizedError('Auth session missing!');
+      const hash = await hashPassword(newPassword);
+      db.prepare(`UPDATE auth_users SET password_hash = ? WHERE id = ?`).run(hash, row.id);
+      emit('USER_UPDATED');
+    },
+    signOut() {
+      return settle(() => {
+        session = null;
+        emit('SIGNED_OUT');
+      });
+    },
+    getUser() {
+      return Promise.resolve(session?.user ? { ...session.user } : null);
+    },
+    getSession() {
+      return Promise.resolve(session ? { ...session } : null);
+    },
+    onAuthStateChange(callback) {
+      listeners.add(callback);
+      // Supabase reports the current session to every new subscriber.
+      queueMicrotask(() => {
+        if (listeners.has(callback)) callback('INITIAL_SESSION', session ? { ...session } : null);
+      });
+      return {
+        unsubscribe: () => {
+          listeners.delete(callback);
+        },
+      };
+    },
+  };
+}
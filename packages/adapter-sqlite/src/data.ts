@@ -0,0 +1,378 @@
+import type {
+  BackendData,
+  DataFilterNode,
+  DataOrderBy,
+  DataReadOptions,
+  DataRecord,
+  DataRelations,
+  RealtimeChange,
+  RealtimeHub,
+  SoftDeleteOptions,
+} from '@base44-to-supabase/adapter';
+import {
+  ValidationError,
+  aggregateAlias,
+  buildPage,
+  decodeCursor,
+  excludeSoftDeleted,
+  joinIncludes,
+  normalizeGroupBy,
+  normalizePageOrder,
+  settle,
+  softDeleteColumn,
+} from '@base44-to-supabase/adapter';
+import type Database from 'better-sqlite3';
+
+import { toBackendError } from './errors.js';
+import {
+  afterSql,
+  columnKind,
+  decodeRow,
+  decodeValue,
+  encodeValue,
+  orderSql,
+  quoteIdent,
+  whereSql,
+  type SqlFragment,
+  type TableColumns,
+} from './sql.js';
+
+// Rows a write or read applies to.
+type Target = Pick<DataReadOptions, 'id' | 'filter' | 'filters'>;
+
+function normalizeOrderBy(orderBy?: DataReadOptions['orderBy']): DataOrderBy[] {
+  if (!orderBy) return [];
+  return Array.isArray(orderBy) ? orderBy : [orderBy];
+}
+
+function normalizeSelect(select?: DataReadOptions['select']): string[] | null {
+  if (!select) return null;
+  const fields = (Array.isArray(select) ? select : select.split(','))
+    .map((f) => f.trim())
+    // Embedded resources (`project(*)`) are resolved through `include` instead.
+    .filter((f) => f && !f.includes('('));
+  if (fields.length === 0 || fields.includes('*')) return null;
+  return fields;
+}
+
+function projectRecord(record: DataRecord, fields: string[] | null): DataRecord {
+  if (!fields) return record;
+  return Object.fromEntries(fields.map((f) => [f, record[f] ?? null]));
+}
+
+export function createSqliteData(
+  db: Database.Database,
+  hub: RealtimeHub,
+  relations: DataRelations = {},
+  softDelete?: SoftDeleteOptions,
+): BackendData {
+  const tableColumns = new Map<string, TableColumns>();
+  // Realtime changes of the running transaction, delivered once it commits.
+  let pending: RealtimeChange[] = [];
+
+  // Declared column types, read once per table. Unknown tables fail like Postgres does.
+  function columns(entity: string): TableColumns {
+    const cached = tableColumns.get(entity);
+    if (cached) return cached;
+    const info = db.prepare(`SELECT name, type FROM pragma_table_xinfo(?)`).all(entity) as {
+      name: string;
+      type: string;
+    }[];
+    if (info.length === 0) throw new Error(`no such table: ${entity}`);
+    const result: TableColumns = new Map(info.map((c) => [c.name, columnKind(c.type)]));
+    tableColumns.set(entity, result);
+    return result;
+  }
+
+  function query(entity: string, sql: string, params: unknown[]): DataRecord[] {
+    const cols = columns(entity);
+    const rows = db.prepare(sql).all(...params) as Record<string, unknown>[];
+    return rows.map((row) => decodeRow(cols, row));
+  }
+
+  // Runs `fn` in a transaction and translates SQLite errors.
+  function run<T>(entity: string, fn: () => T): T {
+    let result: T;
+    try {
+      result = db.transaction(fn)();
+    } catch (error) {
+      pending = [];
+      throw toBackendError(error, { entity });
+    }
+    const changes = pending;
+    pending = [];
+    for (const change of changes) hub.emit(change);
+    return result;
+  }
+
+  function where(entity: string, options?: Target, extra: SqlFragment[] = []) {
+    return whereSql(
+      columns(entity),
+      options,
+      extra.map((e) => e.sql),
+      extra.flatMap((e) => e.params),
+    );
+  }
+
+  function assignments(patch: DataRecord): SqlFragment {
+    const entries = Object.entries(patch).filter(([, v]) => v !== undefined);
+    return {
+      sql: entries.map(([k]) => `${quoteIdent(k)} = ?`).join(', '),
+      params: entries.map(([, v]) => encodeValue(v)),
+    };
+  }
+
+  function insertSql(entity: string, row: DataRecord, conflict?: string[]): SqlFragment {
+    const entries = Object.entries(row).filter(([, v]) => v !== undefined);
+    const table = quoteIdent(entity);
+    let sql = entries.length
+      ? `INSERT INTO ${table} (${entries.map(([k]) => quoteIdent(k)).join(', ')}) VALUES (${entries.map(() => '?').join(', ')})`
+      : `INSERT INTO ${table} DEFAULT VALUES`;
+    if (conflict) {
+      // Updating the conflict columns to themselves keeps rows without other changes returned.
+      const updated = entries.map(([k]) => k).filter((k) => !conflict.includes(k));
+      const set = (updated.length ? updated : conflict).map(
+        (k) => `${quoteIdent(k)} = excluded.${quoteIdent(k)}`,
+      );
+      sql += ` ON CONFLICT (${conflict.map(quoteIdent).join(', ')}) DO UPDATE SET ${set.join(', ')}`;
+    }
+    return { sql: `${sql} RETURNING *`, params: entries.map(([, v]) => encodeValue(v)) };
+  }
+
+  function insert(entity: string, row: DataRecord): DataRecord {
+    const { sql, params } = insertSql(entity, row);
+    const [created] = query(entity, sql, params);
+    pending.push({ entity, event: 'insert', new: created!, old: null });
+    return created!;
+  }
+
+  // Updates the rows matching `condition`, emitting one realtime event per changed row.
+  function updateRows(entity: string, condition: SqlFragment, patch: DataRecord): DataRecord[] {
+    const set = assignments(patch);
+    const table = quoteIdent(entity);
+    const before = query(entity, `SELECT * FROM ${table}${condition.sql}`, condition.params);
+    if (!set.sql) return before;
+    const after = query(entity, `UPDATE ${table} SET ${set.sql}${condition.sql} RETURNING *`, [
+      ...set.params,
+      ...condition.params,
+    ]);
+    const old = new Map(before.map((row) => [row.id, row]));
+    for (const row of after) {
+      pending.push({ entity, event: 'update', new: row, old: old.get(row.id) ?? null });
+    }
+    return after;
+  }
+
+  function deleteRows(entity: string, condition: SqlFragment): DataRecord[] {
+    const table = quoteIdent(entity);
+    const removed = query(entity, `DELETE FROM ${table}${condition.sql} RETURNING *`, [
+      ...condition.params,
+    ]);
+    for (const row of removed) pending.push({ entity, event: 'delete', new: null, old: row });
+    return removed;
+  }
+
+  // Soft-deletes the live rows matching `target`; already marked rows are left alone.
+  function markDeleted(entity: string, target: Target, column: string): DataRecord[] {
+    const live = where(entity, target, [{ sql: `${quoteIdent(column)} IS NULL`, params: [] }]);
+    return updateRows(entity, live, { [column]: new Date().toISOString() });
+  }
+
+  function requireFilters(entity: string, filters: DataFilterNode[]): Target {
+    if (filters.length === 0) {
+      throw new ValidationError('Bulk updates and deletes require at least one filter', { entity });
+    }
+    return { filters };
+  }
+
+  // Pagination is applied in SQL unless `include` may drop rows (`required`), in which case rows
+  // are joined first, like an inner join would.
+  async function read(entity: string, readOptions?: DataReadOptions) {
+    const options = excludeSoftDeleted(softDelete, entity, readOptions);
+    const { include } = options ?? {};
+    let result = run(entity, () => {
+      const filter = where(entity, options);
+      const order = orderSql(normalizeOrderBy(options?.orderBy));
+      let sql = `SELECT * FROM ${quoteIdent(entity)}${filter.sql}${order}`;
+      const params = [...filter.params];
+      if (!include && (options?.limit !== undefined || options?.offset !== undefined)) {
+        sql += ` LIMIT ? OFFSET ?`;
+        params.push(options.limit ?? -1, options.offset ?? 0);
+      }
+      return query(entity, sql, params);
+    });
+
+    let fields = normalizeSelect(options?.select);
+    if (include) {
+      result = await joinIncludes(data, entity, result, include, relations);
+      const offset = options?.offset ?? 0;
+      const end = options?.limit !== undefined ? offset + options.limit : undefined;
+      result = result.slice(offset, end);
+      if (fields) fields = [...fields, ...Object.keys(include)];
+    }
+    return result.map((row) => projectRecord(row, fields));
+  }
+
+  const data: BackendData = {
+    create(entity, row) {
+      return settle(() => run(entity, () => insert(entity, row)) as any);
+    },
+    async read(entity, options) {
+      const rows = await read(entity, options);
+      if (options?.id !== undefined) return (rows[0] ?? null) as any;
+      return rows as any;
+    },
+    readPage(entity, pageOptions) {
+      return settle(() => {
+        const options = excludeSoftDeleted(softDelete, entity, pageOptions);
+        const order = normalizePageOrder(options.orderBy);
+        const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+        const direction = cursor?.direction ?? 'next';
+        // Previous pages are read in reverse order, starting right before the cursor row.
+        const effectiveOrder =
+          direction === 'next'
+            ? order
+            : order.map((o) => ({ field: o.field, ascending: !(o.ascending ?? true) }));
+
+        const rows = run(entity, () => {
+          const filter = where(
+            entity,
+            options,
+            cursor ? [afterSql(effectiveOrder, cursor.values)] : [],
+          );
+          const sql = `SELECT * FROM ${quoteIdent(entity)}${filter.sql}${orderSql(effectiveOrder)} LIMIT ?`;
+          return query(entity, sql, [...filter.params, options.pageSize + 1]);
+        });
+        const page = buildPage(rows, {
+          pageSize: options.pageSize,
+          order,
+          direction,
+          hasCursor: cursor !== null,
+        });
+        const fields = normalizeSelect(options.select);
+        return { ...page, items: page.items.map((row) => projectRecord(row, fields)) } as any;
+      });
+    },
+    count(entity, countOptions) {
+      return settle(() => {
+        const options = excludeSoftDeleted(softDelete, entity, countOptions);
+        return run(entity, () => {
+          const filter = where(entity, options);
+          const sql = `SELECT count(*) AS n FROM ${quoteIdent(entity)}${filter.sql}`;
+          return (db.prepare(sql).get(...filter.params) as { n: number }).n;
+        });
+      });
+    },
+    aggregate(entity, aggregateOptions) {
+      return settle(() => {
+        const options = excludeSoftDeleted(softDelete, entity, aggregateOptions);
+        const groupBy = normalizeGroupBy(options.groupBy);
+        return run(entity, () => {
+          const cols = columns(entity);
+          const terms = [
+            ...groupBy.map(quoteIdent),
+            ...options.aggregates.map((a) => {
+              const target = a.field ? quoteIdent(a.field) : '*';
+              return `${a.fn}(${target}) AS ${quoteIdent(aggregateAlias(a))}`;
+            }),
+          ];
+          const filter = where(entity, options);
+          const group = groupBy.length ? ` GROUP BY ${groupBy.map(quoteIdent).join(', ')}` : '';
+          const sql = `SELECT ${terms.join(', ')} FROM ${quoteIdent(entity)}${filter.sql}${group}`;
+          const rows = db.prepare(sql).all(...filter.params) as Record<string, unknown>[];
+          // Only group columns carry a column type; `min`/`max` of booleans stay 0/1.
+          return rows.map((row) =>
+            Object.fromEntries(
+              Object.entries(row).map(([k, v]) => [
+                k,
+                groupBy.includes(k) ? decodeValue(cols.get(k), v) : v,
+              ]),
+            ),
+          );
+        });
+      });
+    },
+    upsert(entity, input, options) {
+      return settle(() => {
+        const conflict = (options?.onConflict ?? 'id').split(',').map((c) => c.trim());
+        const upsertOne = (item: DataRecord): DataRecord => {
+          const keyed = conflict.every((c) => item[c] !== undefined);
+          if (!keyed) return insert(entity, item);
+          const match = where(entity, {
+            filter: Object.fromEntries(conflict.map((c) => [c, item[c]])),
+          });
+          const table = quoteIdent(entity);
+          const [before] = query(entity, `SELECT * FROM ${table}${match.sql}`, match.params);
+          const { sql, params } = insertSql(entity, item, conflict);
+          const [row] = query(entity, sql, params);
+          pending.push(
+            before
+              ? { entity, event: 'update', new: row!, old: before }
+              : { entity, event: 'insert', new: row!, old: null },
+          );
+          return row!;
+        };
+        return run(entity, () =>
+          Array.isArray(input) ? input.map(upsertOne) : upsertOne(input),
+        ) as any;
+      });
+    },
+    update(entity, id, patch) {
+      return settle(() => {
+        const [row] = run(entity, () => updateRows(entity, where(entity, { id }), patch));
+        // Like PostgREST, updating a missing row is not an error.
+        return (row ?? { id, ...patch }) as any;
+      });
+    },
+    delete(entity, id) {
+      return settle(() => {
+        const column = softDeleteColumn(softDelete, entity);
+        run(entity, () =>
+          column ? markDeleted(entity, { id }, column) : deleteRows(entity, where(entity, { id })),
+        );
+      });
+    },
+    createMany(entity, rows) {
+      return settle(() => run(entity, () => rows.map((row) => insert(entity, row))) as any);
+    },
+    updateWhere(entity, filters, patch) {
+      return settle(() => {
+        return run(entity, () =>
+          updateRows(entity, where(entity, requireFilters(entity, filters)), patch),
+        ) as any;
+      });
+    },
+    deleteWhere(entity, filters) {
+      return settle(() => {
+        const column = softDeleteColumn(softDelete, entity);
+        return run(entity, () => {
+          const target = requireFilters(entity, filters);
+          const rows = column
+            ? markDeleted(entity, target, column)
+            : deleteRows(entity, where(entity, target));
+          return rows.length;
+        });
+      });
+    },
+    restore(entity, id) {
+      return settle(() => {
+        const column = softDeleteColumn(softDelete, entity);
+        if (!column) {
+          throw new ValidationError(`${entity} is not configured for soft delete`, { entity });
+        }
+        run(entity, () => {
+          const deleted = where(entity, { id }, [
+            { sql: `${quoteIdent(column)} IS NOT NULL`, params: [] },
+          ]);
+          updateRows(entity, deleted, { [column]: null });
+        });
+      });
+    },
+    purge(entity, id) {
+      return settle(() => {
+        run(entity, () => deleteRows(entity, where(entity, { id })));
+      });
+    },
+  };
+  return data;
+}
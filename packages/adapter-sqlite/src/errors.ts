@@ -0,0 +1,53 @@
+import {
+  BackendError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  type BackendErrorOptions,
+} from '@base44-to-supabase/adapter';
+
+export type ErrorContext = {
+  entity?: string;
+  bucket?: string;
+};
+
+type ErrorClass = new (message: string, options?: BackendErrorOptions) => BackendError;
+
+// Extended SQLite result codes, as reported by better-sqlite3's `SqliteError.code`.
+const SQLITE_CODES: Record<string, ErrorClass> = {
+  SQLITE_CONSTRAINT_PRIMARYKEY: ConflictError,
+  SQLITE_CONSTRAINT_UNIQUE: ConflictError,
+  SQLITE_CONSTRAINT_FOREIGNKEY: ConflictError,
+  SQLITE_BUSY: ConflictError,
+  SQLITE_LOCKED: ConflictError,
+  SQLITE_CONSTRAINT_NOTNULL: ValidationError,
+  SQLITE_CONSTRAINT_CHECK: ValidationError,
+  SQLITE_MISMATCH: ValidationError,
+};
+
+// Plain `SQLITE_ERROR`s only differ by message.
+const SQLITE_MESSAGES: Array<[RegExp, ErrorClass]> = [
+  [/^no such table/, NotFoundError],
+  [/^no such column|has no column named/, ValidationError],
+];
+
+// Translates errors thrown by better-sqlite3 into the adapter's BackendError hierarchy.
+export function toBackendError(error: unknown, context: ErrorContext = {}): BackendError {
+  if (error instanceof BackendError) return error;
+
+  const err = error as any;
+  const message = typeof err?.message === 'string' && err.message ? err.message : String(error);
+  const options: BackendErrorOptions = {
+    entity: context.entity,
+    bucket: context.bucket,
+    cause: error,
+  };
+
+  const code = typeof err?.code === 'string' ? err.code : undefined;
+  const ErrorType =
+    (code ? SQLITE_CODES[code] : undefined) ??
+    SQLITE_MESSAGES.find(([pattern]) => pattern.test(message))?.[1];
+
+  if (ErrorType) return new ErrorType(message, options);
+  return new BackendError(message, 'unknown', options);
+}
@@ -0,0 +1,108 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import type {
+  Backend,
+  BackendRpc,
+  DataRelations,
+  EntitySchema,
+  SoftDeleteOptions,
+} from '@base44-to-supabase/adapter';
+import { NotFoundError, createRealtimeHub, withSchema } from '@base44-to-supabase/adapter';
+import Database from 'better-sqlite3';
+
+import { AUTH_USERS_SQL, createSqliteAuth } from './auth.js';
+import { createSqliteData } from './data.js';
+import { applySqliteMigrations, type SqliteMigrationReport } from './migrations.js';
+import { registerFunctions } from './sql.js';
+import { STORAGE_OBJECTS_SQL, createSqliteStorage } from './storage.js';
+
+export {
+  applySqliteMigrations,
+  splitStatements,
+  type SkippedStatement,
+  type SqliteMigrationReport,
+} from './migrations.js';
+
+export type SqliteRpcHandler = (
+  params: Record<string, unknown> | undefined,
+  db: Database.Database,
+) => unknown;
+
+export type SqliteBackendOptions = {
+  // Database file, created if missing. `:memory:` keeps everything in process.
+  filename: string;
+  // `supabase/migrations` as written by `init-supabase`. New files are applied on open.
+  migrationsDir?: string;
+  // Root folder for storage objects. Defaults to `storage` next to the database file (a temporary
+  // folder for `:memory:`).
+  storageDir?: string;
+  // Base of public and signed storage URLs. Defaults to the `file://` URL of `storageDir`.
+  storageBaseUrl?: string;
+  // Database functions called through `rpc.call`, which SQLite cannot define in SQL.
+  rpc?: Record<string, SqliteRpcHandler>;
+  // Relations used to resolve `include` on reads, which this adapter joins client-side.
+  relations?: DataRelations;
+  // Entities whose deletes only set a timestamp; see `SoftDeleteOptions`.
+  softDelete?: SoftDeleteOptions;
+};
+
+export type SqliteBackend<S extends EntitySchema = EntitySchema> = Backend<S> & {
+  // What opening the database applied from `migrationsDir`.
+  migrations: SqliteMigrationReport;
+  close(): void;
+};
+
+// Opens (or creates) a database with the SQL functions translated migrations rely on.
+export function openSqliteDatabase(filename: string): Database.Database {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  registerFunctions(db);
+  db.exec(AUTH_USERS_SQL);
+  db.exec(STORAGE_OBJECTS_SQL);
+  return db;
+}
+
+// A Backend on an embedded SQLite database, for local development without Docker or the Supabase
+// CLI. Tables come from the app's Supabase migrations; row level security, database functions and
+// triggers are not applied, so it must not hold data that needs those protections.
+export function createSqliteBackend<S extends EntitySchema = EntitySchema>(
+  options: SqliteBackendOptions,
+): SqliteBackend<S> {
+  const db = openSqliteDatabase(options.filename);
+  const migrations = options.migrationsDir
+    ? applySqliteMigrations(db, options.migrationsDir)
+    : { applied: [], skipped: [] };
+
+  const storageDir =
+    options.storageDir ??
+    (options.filename === ':memory:'
+      ? fs.mkdtempSync(path.join(os.tmpdir(), 'b44-sqlite-storage-'))
+      : path.join(path.dirname(path.resolve(options.filename)), 'storage'));
+  const storageBaseUrl = options.storageBaseUrl ?? pathToFileURL(storageDir).href;
+
+  const handlers = options.rpc ?? {};
+  const rpc: BackendRpc = {
+    async call(fn, params) {
+      const handler = handlers[fn];
+      if (!handler) throw new NotFoundError(`Unknown rpc function: ${fn}`);
+      return (await handler(params, db)) as any;
+    },
+  };
+
+  const hub = createRealtimeHub();
+  const backend = withSchema<S>({
+    auth: createSqliteAuth(db),
+    data: createSqliteData(db, hub, options.relations, options.softDelete),
+    storage: createSqliteStorage(db, storageDir, storageBaseUrl),
+    rpc,
+    realtime: hub.realtime,
+  });
+  return { ...backend, migrations, close: () => db.close() };
+}
@@ -0,0 +1,367 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import type Database from 'better-sqlite3';
+
+import { SQL_NOW, quoteIdent, sqliteColumnType } from './sql.js';
+
+export type SkippedStatement = {
+  file: string;
+  statement: string;
+  reason: string;
+};
+
+export type SqliteMigrationReport = {
+  // Files applied by this run, in order. Files applied before are not listed.
+  applied: string[];
+  // Statements SQLite has no equivalent for (policies, functions, triggers, gin indexes, ...) or
+  // that failed to apply. The rest of their file is still applied.
+  skipped: SkippedStatement[];
+};
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+// Words that end a column's type and start its constraints.
+const COLUMN_KEYWORDS = new Set([
+  'constraint',
+  'primary',
+  'not',
+  'null',
+  'default',
+  'references',
+  'unique',
+  'check',
+  'generated',
+  'collate',
+]);
+
+// Splits a script into statements, dropping comments. Quotes, quoted identifiers and
+// dollar-quoted bodies (`$$ ... $$`) are kept intact.
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+  while (i < sql.length) {
+    const rest = sql.slice(i);
+    if (rest.startsWith('--')) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+    if (rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+    const dollar = /^\$[A-Za-z_]*\$/.exec(rest);
+    const quote = rest[0] === "'" || rest[0] === '"' ? rest[0] : null;
+    if (dollar || quote) {
+      const close = dollar ? dollar[0] : quote!;
+      let end = sql.indexOf(close, i + close.length);
+      // Doubled quotes inside a literal are escapes, not the end.
+      while (quote && end !== -1 && sql[end + 1] === quote) end = sql.indexOf(quote, end + 2);
+      end = end === -1 ? sql.length : end + close.length;
+      current += sql.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (rest[0] === ';') {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+    } else {
+      current += rest[0];
+    }
+    i++;
+  }
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+// Words, quoted strings and identifiers, parenthesized groups (kept whole), `::` and single
+// punctuation characters.
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i]!;
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "'" || ch === '"') {
+      let end = i + 1;
+      while (end < text.length && !(text[end] === ch && text[end + 1] !== ch)) {
+        end += text[end] === ch ? 2 : 1;
+      }
+      tokens.push(text.slice(i, end + 1));
+      i = end + 1;
+    } else if (ch === '(') {
+      let depth = 0;
+      let end = i;
+      for (; end < text.length; end++) {
+        const c = text[end];
+        if (c === "'" || c === '"') end = text.indexOf(c, end + 1);
+        else if (c === '(') depth++;
+        else if (c === ')' && --depth === 0) break;
+        if (end === -1) end = text.length;
+      }
+      tokens.push(text.slice(i, end + 1));
+      i = end + 1;
+    } else if (text.startsWith('::', i)) {
+      tokens.push('::');
+      i += 2;
+    } else {
+      const word = /^[\w.$[\]]+/.exec(text.slice(i));
+      tokens.push(word ? word[0] : ch);
+      i += word ? word[0].length : 1;
+    }
+  }
+  return tokens;
+}
+
+// Splits a token list on top-level commas.
+function splitList(tokens: string[]): string[][] {
+  const items: string[][] = [[]];
+  for (const token of tokens) {
+    if (token === ',') items.push([]);
+    else items[items.length - 1]!.push(token);
+  }
+  return items.filter((item) => item.length > 0);
+}
+
+function join(tokens: string[]): string {
+  return tokens.join(' ').replace(/ \(/g, '(');
+}
+
+function unquote(name: string): string {
+  return name.startsWith('"') ? name.slice(1, -1).replaceAll('""', '"') : name.toLowerCase();
+}
+
+// `public.todos` and `"todos"` become `"todos"`; `auth.users` maps to the adapter's `auth_users`
+// table. Other schemas return null.
+function tableName(raw: string): string | null {
+  const parts = raw.match(/"(?:[^"]|"")*"|[^.]+/g)?.map(unquote) ?? [];
+  const [schema, name] = parts.length === 2 ? parts : ['public', parts[0]];
+  if (schema === 'auth' && name === 'users') return quoteIdent('auth_users');
+  return schema === 'public' && name ? quoteIdent(name) : null;
+}
+
+// `'{a,b}'` (a Postgres array literal) as JSON text.
+function arrayLiteralToJson(literal: string): string {
+  const inner = literal.slice(2, -2).trim();
+  const items = inner ? inner.split(',').map((item) => item.trim().replace(/^"(.*)"$/, '$1')) : [];
+  return `'${JSON.stringify(items).replaceAll("'", "''")}'`;
+}
+
+function translateDefault(tokens: string[], isArray: boolean): string {
+  // Casts (`'{}'::jsonb`) only matter to Postgres.
+  const value = tokens.filter((t, i) => t !== '::' && tokens[i - 1] !== '::');
+  const expr = join(value);
+  const lower = expr.toLowerCase();
+  if (/^(now\(\)|current_timestamp|current_date|localtimestamp|clock_timestamp\(\))$/.test(lower)) {
+    return SQL_NOW;
+  }
+  if (/^(extensions\.)?(gen_random_uuid|uuid_generate_v4)\(\)$/.test(lower)) {
+    return '(gen_random_uuid())';
+  }
+  if (lower === 'true' || lower === 'false') return lower === 'true' ? '1' : '0';
+  if (isArray && /^'\{.*\}'$/s.test(expr)) return arrayLiteralToJson(expr);
+  if (/^('.*'|-?\d+(\.\d+)?|null)$/is.test(expr)) return expr;
+  return `(${expr})`;
+}
+
+function translateReferences(tokens: string[], start: number): [string, number] {
+  let i = start;
+  const table = tableName(tokens[i++] ?? '');
+  if (!table) throw new Error('references a table outside the public schema');
+  let sql = `REFERENCES ${table}`;
+  if (tokens[i]?.startsWith('(')) sql += ` ${tokens[i++]!}`;
+  while (tokens[i]?.toLowerCase() === 'on') {
+    const event = tokens[i + 1]!.toUpperCase();
+    const first = tokens[i + 2]!.toLowerCase();
+    const action = first === 'set' || first === 'no' ? `${first} ${tokens[i + 3]!}` : first;
+    sql += ` ON ${event} ${action.toUpperCase()}`;
+    i += first === 'set' || first === 'no' ? 4 : 3;
+  }
+  return [sql, i];
+}
+
+// Full-text search columns (`tsvector generated always as (to_tsvector('english', ...))`) are
+// kept as the plain text they index; `textSearch` filters match words against it.
+function translateGenerated(expr: string): string {
+  const search = /^\(\s*to_tsvector\s*\(\s*'[^']*'\s*,(.*)\)\s*\)$/is.exec(expr);
+  return search ? `(${search[1]!.trim()})` : expr;
+}
+
+function translateColumn(tokens: string[]): string {
+  const name = quoteIdent(unquote(tokens[0]!));
+  let i = 1;
+  const typeTokens: string[] = [];
+  while (i < tokens.length && !COLUMN_KEYWORDS.has(tokens[i]!.toLowerCase())) {
+    typeTokens.push(tokens[i++]!);
+  }
+  const pgType = join(typeTokens);
+  const isArray = pgType.endsWith('[]');
+  let type = sqliteColumnType(pgType.replace(/\(.*\)/, ''));
+  const constraints: string[] = [];
+
+  while (i < tokens.length) {
+    const word = tokens[i]!.toLowerCase();
+    const next = tokens[i + 1]?.toLowerCase();
+    if (word === 'constraint' || word === 'collate') {
+      i += 2;
+    } else if (word === 'primary' || word === 'not') {
+      constraints.push(word === 'primary' ? 'PRIMARY KEY' : 'NOT NULL');
+      i += 2;
+    } else if (word === 'null') {
+      i++;
+    } else if (word === 'unique') {
+      constraints.push('UNIQUE');
+      i++;
+    } else if (word === 'check') {
+      // Check expressions are usually Postgres-specific; the database is for development only.
+      i += 2;
+    } else if (word === 'default') {
+      const start = ++i;
+      while (i < tokens.length && !COLUMN_KEYWORDS.has(tokens[i]!.toLowerCase())) i++;
+      constraints.push(`DEFAULT ${translateDefault(tokens.slice(start, i), isArray)}`);
+    } else if (word === 'references') {
+      const [sql, end] = translateReferences(tokens, i + 1);
+      constraints.push(sql);
+      i = end;
+    } else if (word === 'generated' && tokens.slice(i).some((t) => /^identity$/i.test(t))) {
+      // Identity columns become SQLite rowid aliases, which number themselves.
+      type = 'INTEGER';
+      while (!/^identity$/i.test(tokens[i]!)) i++;
+      if (tokens[++i]?.startsWith('(')) i++;
+    } else if (word === 'generated') {
+      // generated always as (expr) stored
+      const expr = tokens[i + 3] ?? '()';
+      type = 'TEXT';
+      constraints.push(`GENERATED ALWAYS AS ${translateGenerated(expr)} STORED`);
+      i += 4;
+      if (tokens[i]?.toLowerCase() === 'stored') i++;
+    } else {
+      throw new Error(`unsupported column clause "${next ? `${word} ${next}` : word}"`);
+    }
+  }
+  return [name, type, ...constraints].join(' ');
+}
+
+function translateTableConstraint(tokens: string[]): string | null {
+  let i = tokens[0]!.toLowerCase() === 'constraint' ? 2 : 0;
+  const word = tokens[i]!.toLowerCase();
+  if (word === 'check' || word === 'exclude') return null;
+  if (word === 'foreign') {
+    // foreign key (cols) references ...
+    const [references] = translateReferences(tokens, i + 4);
+    return `FOREIGN KEY ${tokens[i + 2]!} ${references}`;
+  }
+  const out: string[] = [];
+  for (; i < tokens.length; i++) out.push(tokens[i]!);
+  return join(out);
+}
+
+function translateCreateTable(statement: string): string {
+  const match = /^create\s+table\s+(?:if\s+not\s+exists\s+)?([\w."]+)\s*(\(.*\))$/is.exec(
+    statement,
+  );
+  if (!match) throw new Error('unsupported create table form');
+  const table = tableName(match[1]!);
+  if (!table) throw new Error('table outside the public schema');
+  const body = tokenize(match[2]!.slice(1, -1));
+  const items = splitList(body).flatMap((item) => {
+    const first = item[0]!.toLowerCase();
+    if (['constraint', 'primary', 'unique', 'foreign', 'check', 'exclude'].includes(first)) {
+      const constraint = translateTableConstraint(item);
+      return constraint ? [constraint] : [];
+    }
+    return [translateColumn(item)];
+  });
+  return `CREATE TABLE IF NOT EXISTS ${table} (\n  ${items.join(',\n  ')}\n)`;
+}
+
+function translateCreateIndex(statement: string): string {
+  const match =
+    /^create\s+(unique\s+)?index\s+(?:concurrently\s+)?(?:if\s+not\s+exists\s+)?([\w"]+)\s+on\s+(?:only\s+)?([\w."]+)\s*(?:using\s+(\w+)\s*)?(\(.*)$/is.exec(
+      statement,
+    );
+  if (!match) throw new Error('unsupported create index form');
+  const [, unique, name, rawTable, method, rest] = match;
+  if (method && method.toLowerCase() !== 'btree') {
+    throw new Error(`${method} indexes have no SQLite equivalent`);
+  }
+  const table = tableName(rawTable!);
+  if (!table) throw new Error('table outside the public schema');
+  return `CREATE ${unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${quoteIdent(unquote(name!))} ON ${table} ${rest!}`;
+}
+
+// Returns null when the column already exists: SQLite has no `add column if not exists`.
+function translateAddColumn(db: Database.Database, statement: string): string | null {
+  const match =
+    /^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?([\w."]+)\s+add\s+(?:column\s+)?(?:if\s+not\s+exists\s+)?(.*)$/is.exec(
+      statement,
+    );
+  const table = match ? tableName(match[1]!) : null;
+  if (!match || !table) throw new Error('unsupported alter table form');
+  const tokens = tokenize(match[2]!);
+  const existing = db.prepare(`SELECT name FROM pragma_table_info(?)`).all(unquote(table)) as {
+    name: string;
+  }[];
+  if (existing.some((c) => c.name === unquote(tokens[0]!))) return null;
+  return `ALTER TABLE ${table} ADD COLUMN ${translateColumn(tokens)}`;
+}
+
+// The SQLite form of a migration statement, or null when it is a no-op here. Throws with the
+// reason when SQLite has no equivalent.
+export function translateStatement(db: Database.Database, statement: string): string | null {
+  const words = statement.toLowerCase().split(/\s+/, 4).join(' ');
+  if (/^create table/.test(words)) return translateCreateTable(statement);
+  if (/^create (unique )?index/.test(words)) return translateCreateIndex(statement);
+  if (
+    /^alter table/.test(words) &&
+    /\badd\b/i.test(statement) &&
+    !/\bconstraint\b/i.test(statement)
+  ) {
+    return translateAddColumn(db, statement);
+  }
+  if (/^(create|alter|drop) policy/.test(words) || /row level security/i.test(statement)) {
+    throw new Error('row level security is not enforced by SQLite');
+  }
+  throw new Error(`"${words}" is not supported by SQLite`);
+}
+
+// Applies `.sql` files from `dir` in file name order, recording them in `schema_migrations` so
+// each file is applied once. Statements are translated to SQLite where possible (tables, btree
+// indexes, added columns); everything else is reported in `skipped`.
+export function applySqliteMigrations(db: Database.Database, dir: string): SqliteMigrationReport {
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (name TEXT PRIMARY KEY, applied_at TEXT NOT NULL DEFAULT ${SQL_NOW})`,
+  );
+  const done = new Set(
+    (db.prepare(`SELECT name FROM ${MIGRATIONS_TABLE}`).all() as { name: string }[]).map(
+      (row) => row.name,
+    ),
+  );
+  const files = fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.sql') && !done.has(file))
+    .sort();
+
+  const report: SqliteMigrationReport = { applied: [], skipped: [] };
+  for (const file of files) {
+    const sql = fs.readFileSync(path.join(dir, file), 'utf8');
+    db.transaction(() => {
+      for (const statement of splitStatements(sql)) {
+        try {
+          const translated = translateStatement(db, statement);
+          if (translated) db.exec(translated);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          report.skipped.push({ file, statement, reason });
+        }
+      }
+      db.prepare(`INSERT INTO ${MIGRATIONS_TABLE} (name) VALUES (?)`).run(file);
+    })();
+    report.applied.push(file);
+  }
+  return report;
+}
@@ -0,0 +1,221 @@
+import { randomUUID } from 'node:crypto';
+
+import type {
+  DataFilter,
+  DataFilterNode,
+  DataOrderBy,
+  DataReadOptions,
+  DataRecord,
+} from '@base44-to-supabase/adapter';
+import { ValidationError, isFilterGroup, matchesFilter } from '@base44-to-supabase/adapter';
+import type Database from 'better-sqlite3';
+
+// How a column's values are stored. SQLite has no booleans, arrays or json, so booleans are kept
+// as 0/1 and arrays and json as JSON text; the declared column type (see `sqliteColumnType`)
+// records which.
+export type ColumnKind = 'boolean' | 'json' | 'value';
+
+export type TableColumns = Map<string, ColumnKind>;
+
+export type SqlFragment = { sql: string; params: unknown[] };
+
+// SQL expression for the current time as an ISO timestamp, used for `now()` defaults.
+export const SQL_NOW = `(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+
+const FILTER_FUNCTION = 'b44_match';
+
+export function quoteIdent(name: string): string {
+  return `"${name.replaceAll('"', '""')}"`;
+}
+
+export function columnKind(declaredType: string): ColumnKind {
+  const type = declaredType.toUpperCase();
+  if (type === 'BOOLEAN') return 'boolean';
+  if (type === 'JSONB' || type.endsWith('_ARRAY')) return 'json';
+  return 'value';
+}
+
+// Maps a Postgres column type to the declared SQLite type. The name keeps booleans, json and
+// arrays recognizable (`columnKind`) while giving SQLite the matching type affinity.
+export function sqliteColumnType(pgType: string): string {
+  const type = pgType.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (type.endsWith('[]')) return `${sqliteColumnType(type.slice(0, -2))}_ARRAY`;
+  if (type === 'boolean' || type === 'bool') return 'BOOLEAN';
+  if (type === 'json' || type === 'jsonb') return 'JSONB';
+  if (/^(smallint|integer|int|int2|int4|int8|bigint|smallserial|serial|bigserial)$/.test(type)) {
+    return 'INTEGER';
+  }
+  if (/^(numeric|decimal|real|double precision|float4|float8)\b/.test(type)) return 'REAL';
+  return 'TEXT';
+}
+
+export function encodeValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return Buffer.from(value);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value;
+}
+
+export function decodeValue(kind: ColumnKind | undefined, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (kind === 'boolean') return Boolean(value);
+  if (kind === 'json' && typeof value === 'string') return JSON.parse(value) as unknown;
+  return value;
+}
+
+export function decodeRow(columns: TableColumns, row: Record<string, unknown>): DataRecord {
+  const out: DataRecord = {};
+  for (const [key, value] of Object.entries(row)) out[key] = decodeValue(columns.get(key), value);
+  return out;
+}
+
+// Postgres LIKE patterns (with PostgREST's `*` for `%`) as a case-sensitive GLOB pattern.
+function likeToGlob(pattern: string): string {
+  let glob = '';
+  let escaped = false;
+  for (const ch of pattern) {
+    if (escaped) {
+      glob += /[*?[]/.test(ch) ? `[${ch}]` : ch;
+      escaped = false;
+    } else if (ch === '\\') escaped = true;
+    else if (ch === '%' || ch === '*') glob += '*';
+    else if (ch === '_') glob += '?';
+    else glob += ch === '?' || ch === '[' ? `[${ch}]` : ch;
+  }
+  return glob;
+}
+
+function filterSql(columns: TableColumns, filter: DataFilter, params: unknown[]): string {
+  const { field, op, value } = filter;
+  const column = quoteIdent(field);
+  const push = (v: unknown) => {
+    params.push(encodeValue(v));
+    return '?';
+  };
+  switch (op) {
+    case 'eq':
+      return `${column} = ${push(value)}`;
+    case 'neq':
+      return `${column} <> ${push(value)}`;
+    case 'gt':
+      return `${column} > ${push(value)}`;
+    case 'gte':
+      return `${column} >= ${push(value)}`;
+    case 'lt':
+      return `${column} < ${push(value)}`;
+    case 'lte':
+      return `${column} <= ${push(value)}`;
+    case 'like':
+      return `${column} GLOB ${push(likeToGlob(String(value as string)))}`;
+    case 'ilike':
+      // SQLite's LIKE is case-insensitive (for ASCII), like Postgres' ILIKE.
+      return `${column} LIKE ${push(String(value as string).replaceAll('*', '%'))} ESCAPE '\\'`;
+    case 'in': {
+      const list = value as unknown[];
+      return list.length ? `${column} IN (${list.map(push).join(', ')})` : '0';
+    }
+    case 'is':
+      return value === null ? `${column} IS NULL` : `${column} IS ${push(value)}`;
+    default:
+      // Operators SQLite has no equivalent for are evaluated in JS by the memory adapter's
+      // matcher; the function returns NULL for NULL columns, like SQL operators.
+      params.push(op, columns.get(field) ?? 'value');
+      params.push(JSON.stringify(value ?? null), JSON.stringify(filter.search ?? null));
+      return `${FILTER_FUNCTION}(?, ?, ${column}, ?, ?)`;
+  }
+}
+
+function nodeSql(columns: TableColumns, node: DataFilterNode, params: unknown[]): string {
+  if (!isFilterGroup(node)) return filterSql(columns, node, params);
+  if ('not' in node) return `NOT (${nodeSql(columns, node.not, params)})`;
+  const isAnd = 'and' in node;
+  const children = isAnd ? node.and : node.or;
+  if (children.length === 0) {
+    throw new ValidationError(`Empty "${isAnd ? 'and' : 'or'}" filter group`);
+  }
+  const parts = children.map((child) => `(${nodeSql(columns, child, params)})`);
+  return parts.join(isAnd ? ' AND ' : ' OR ');
+}
+
+export function whereSql(
+  columns: TableColumns,
+  options: Pick<DataReadOptions, 'id' | 'filter' | 'filters'> | undefined,
+  extra: string[] = [],
+  extraParams: unknown[] = [],
+): SqlFragment {
+  const params: unknown[] = [];
+  const clauses: string[] = [];
+  if (options?.id !== undefined) {
+    clauses.push(`"id" = ?`);
+    params.push(encodeValue(options.id));
+  }
+  for (const [field, value] of Object.entries(options?.filter ?? {})) {
+    clauses.push(`${quoteIdent(field)} = ?`);
+    params.push(encodeValue(value));
+  }
+  for (const node of options?.filters ?? []) clauses.push(`(${nodeSql(columns, node, params)})`);
+  clauses.push(...extra);
+  params.push(...extraParams);
+  return { sql: clauses.length ? ` WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+// Postgres puts nulls last when ascending and first when descending.
+export function orderSql(orderBy: DataOrderBy[]): string {
+  if (orderBy.length === 0) return '';
+  const terms = orderBy.map((o) =>
+    (o.ascending ?? true)
+      ? `${quoteIdent(o.field)} ASC NULLS LAST`
+      : `${quoteIdent(o.field)} DESC NULLS FIRST`,
+  );
+  return ` ORDER BY ${terms.join(', ')}`;
+}
+
+// Rows strictly after `values` in `orderBy` order, for keyset pagination.
+export function afterSql(orderBy: DataOrderBy[], values: unknown[]): SqlFragment {
+  const params: unknown[] = [];
+  const alternatives = orderBy.map((o, i) => {
+    const column = quoteIdent(o.field);
+    const equalSoFar = orderBy.slice(0, i).map((prev, j) => {
+      params.push(encodeValue(values[j]));
+      return `${quoteIdent(prev.field)} IS ?`;
+    });
+    const value = values[i];
+    let after: string;
+    if ((o.ascending ?? true) === true) {
+      if (value === null || value === undefined) after = '0';
+      else {
+        params.push(encodeValue(value));
+        after = `(${column} > ? OR ${column} IS NULL)`;
+      }
+    } else if (value === null || value === undefined) after = `${column} IS NOT NULL`;
+    else {
+      params.push(encodeValue(value));
+      after = `${column} < ?`;
+    }
+    return [...equalSoFar, after].join(' AND ');
+  });
+  return { sql: `(${alternatives.map((a) => `(${a})`).join(' OR ')})`, params };
+}
+
+// Functions the translated migrations and compiled filters rely on. They are registered per
+// connection, so every database must be opened through `openSqliteDatabase`.
+export function registerFunctions(db: Database.Database): void {
+  db.function('gen_random_uuid', { deterministic: false }, () => randomUUID());
+  db.function(
+    FILTER_FUNCTION,
+    { deterministic: true },
+    (op: unknown, kind: unknown, actual: unknown, value: unknown, search: unknown) => {
+      if (actual === null) return null;
+      const filter = {
+        field: 'value',
+        op,
+        value: JSON.parse(value as string),
+        search: JSON.parse(search as string) ?? undefined,
+      } as DataFilter;
+      const record = { value: decodeValue(kind as ColumnKind, actual) };
+      return matchesFilter(record, filter) ? 1 : 0;
+    },
+  );
+}
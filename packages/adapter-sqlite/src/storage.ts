@@ -0,0 +1,162 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import type { BackendStorage } from '@base44-to-supabase/adapter';
+import { ConflictError, NotFoundError, ValidationError, settle } from '@base44-to-supabase/adapter';
+import type Database from 'better-sqlite3';
+
+type ObjectRow = {
+  bucket: string;
+  name: string;
+  id: string;
+  content_type: string | null;
+  cache_control: string | null;
+  size: number;
+  created_at: string;
+  updated_at: string;
+};
+
+const DEFAULT_LIST_LIMIT = 100;
+
+// Object bytes are plain files under `<root>/<bucket>/<path>`; this table holds their metadata.
+export const STORAGE_OBJECTS_SQL = `CREATE TABLE IF NOT EXISTS storage_objects (
+  bucket TEXT NOT NULL,
+  name TEXT NOT NULL,
+  id TEXT NOT NULL,
+  content_type TEXT,
+  cache_control TEXT,
+  size INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (bucket, name)
+)`;
+
+async function toBytes(file: Uint8Array | ArrayBuffer | Blob): Promise<Uint8Array> {
+  if (file instanceof Uint8Array) return file;
+  if (file instanceof ArrayBuffer) return new Uint8Array(file);
+  return new Uint8Array(await file.arrayBuffer());
+}
+
+function encodePath(objectPath: string): string {
+  return objectPath.split('/').map(encodeURIComponent).join('/');
+}
+
+export function createSqliteStorage(
+  db: Database.Database,
+  root: string,
+  baseUrl: string,
+): BackendStorage {
+  function findObject(bucket: string, name: string): ObjectRow | undefined {
+    return db
+      .prepare(`SELECT * FROM storage_objects WHERE bucket = ? AND name = ?`)
+      .get(bucket, name) as ObjectRow | undefined;
+  }
+
+  // Keeps objects inside the storage root, whatever the bucket or path contains. Backslashes are
+  // separators on Windows, so they are treated like `/`.
+  function filePath(bucket: string, name: string): string {
+    if (bucket === '' || bucket === '.' || bucket === '..' || /[/\\]/.test(bucket)) {
+      throw new ValidationError(`Invalid bucket name: ${bucket}`, { bucket });
+    }
+    const parts = name.split(/[/\\]/);
+    if (parts.some((p) => p === '' || p === '.' || p === '..')) {
+      throw new ValidationError(`Invalid object path: ${name}`, { bucket });
+    }
+    const base = path.resolve(root);
+    const target = path.resolve(base, bucket, ...parts);
+    if (!target.startsWith(base + path.sep)) {
+      throw new ValidationError(`Invalid object path: ${name}`, { bucket });
+    }
+    return target;
+  }
+
+  return {
+    async upload(bucket, name, file, options) {
+      const target = filePath(bucket, name);
+      const existing = findObject(bucket, name);
+      if (existing && !options?.upsert) {
+        throw new ConflictError('The resource already exists', { bucket });
+      }
+      const bytes = await toBytes(file);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, bytes);
+      const now = new Date().toISOString();
+      db.prepare(
+        `INSERT OR REPLACE INTO storage_objects
+          (bucket, name, id, content_type, cache_control, size, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      ).run(
+        bucket,
+        name,
+        existing?.id ?? randomUUID(),
+        options?.contentType ?? null,
+        options?.cacheControl ?? null,
+        bytes.byteLength,
+        existing?.created_at ?? now,
+        now,
+      );
+      return { path: name };
+    },
+    async download(bucket, name) {
+      const target = filePath(bucket, name);
+      if (!findObject(bucket, name)) throw new NotFoundError('Object not found', { bucket });
+      return new Uint8Array(await fs.readFile(target));
+    },
+    async remove(bucket, paths) {
+      for (const name of Array.isArray(paths) ? paths : [paths]) {
+        const target = filePath(bucket, name);
+        db.prepare(`DELETE FROM storage_objects WHERE bucket = ? AND name = ?`).run(bucket, name);
+        await fs.rm(target, { force: true });
+      }
+    },
+    list(bucket, folder, options) {
+      return settle(() => {
+        // Like Supabase, list the direct children of a folder; sub-folders have a null id.
+        const prefix = folder ? `${folder.replace(/\/+$/, '')}/` : '';
+        const rows = db
+          .prepare(`SELECT * FROM storage_objects WHERE bucket = ? AND substr(name, 1, ?) = ?`)
+          .all(bucket, prefix.length, prefix) as ObjectRow[];
+        const entries = new Map<string, Record<string, unknown>>();
+        for (const row of rows) {
+          const rest = row.name.slice(prefix.length);
+          const slash = rest.indexOf('/');
+          const name = slash === -1 ? rest : rest.slice(0, slash);
+          if (options?.search && !name.includes(options.search)) continue;
+          if (slash !== -1) {
+            if (!entries.has(name)) entries.set(name, { name, id: null, metadata: null });
+            continue;
+          }
+          entries.set(name, {
+            name,
+            id: row.id,
+            created_at: row.created_at,
+            updated_at: row.updated_at,
+            metadata: {
+              size: row.size,
+              mimetype: row.content_type ?? 'application/octet-stream',
+              cacheControl: row.cache_control ?? undefined,
+            },
+          });
+        }
+        const offset = options?.offset ?? 0;
+        const limit = options?.limit ?? DEFAULT_LIST_LIMIT;
+        return [...entries.values()]
+          .sort((a, b) => String(a.name).localeCompare(String(b.name)))
+          .slice(offset, offset + limit);
+      });
+    },
+    createSignedUrl(bucket, name, expiresInSeconds) {
+      return settle(() => {
+        if (!findObject(bucket, name)) throw new NotFoundError('Object not found', { bucket });
+        const token = randomUUID();
+        return {
+          signedUrl: `${baseUrl}/${bucket}/${encodePath(name)}?token=${token}&expiresIn=${expiresInSeconds}`,
+        };
+      });
+    },
+    getPublicUrl(bucket, name) {
+      return { publicUrl: `${baseUrl}/${bucket}/${encodePath(name)}` };
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  CONFORMANCE_RELATIONS,
+  CONFORMANCE_RPC,
+  CONFORMANCE_SOFT_DELETE,
+  CONFORMANCE_SQL,
+  runBackendConformance,
+} from '@base44-to-supabase/adapter/conformance';
+import { describe, it } from 'vitest';
+
+import { createSqliteBackend } from '../src/index.js';
+
+// The suite's schema goes through the same migration translation as an app's.
+const migrationsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-conformance-'));
+fs.writeFileSync(path.join(migrationsDir, '0001_conformance.sql'), CONFORMANCE_SQL);
+
+runBackendConformance(
+  () =>
+    createSqliteBackend({
+      filename: ':memory:',
+      migrationsDir,
+      relations: CONFORMANCE_RELATIONS,
+      softDelete: CONFORMANCE_SOFT_DELETE,
+      rpc: { [CONFORMANCE_RPC]: (params) => params?.value },
+    }),
+  { describe, it },
+);
@@ -0,0 +1,155 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import type { DataRecord } from '@base44-to-supabase/adapter';
+import Database from 'better-sqlite3';
+import { describe, expect, it } from 'vitest';
+
+import { createSqliteBackend } from '../src/index.js';
+
+// Shaped like `init-supabase --search todos --soft-delete todos --audit-log trigger` output.
+const MIGRATION = `-- Generated by base44-to-supabase
+create table if not exists "todos" (
+  id uuid primary key default gen_random_uuid(),
+  "owner_id" uuid references auth.users (id) on delete set null,
+  "title" text,
+  "done" boolean not null default false,
+  "tags" text[] not null default '{}',
+  "meta" jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  deleted_at timestamptz,
+  fts tsvector generated always as (to_tsvector('english', coalesce("title", ''))) stored
+);
+alter table "todos" enable row level security;
+create index if not exists "todos_live_idx" on "todos" (created_at) where deleted_at is null;
+create index if not exists "todos_fts_idx" on "todos" using gin (fts);
+create table if not exists audit_log (
+  id bigint generated always as identity primary key,
+  entity text not null,
+  diff jsonb not null default '{}'::jsonb
+);
+create or replace function public.audit_row_change() returns trigger
+language plpgsql as $$
+begin
+  return null; -- a semicolon inside the body
+end;
+$$;
+`;
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'adapter-sqlite-'));
+}
+
+function project() {
+  const root = tempDir();
+  const migrationsDir = path.join(root, 'supabase', 'migrations');
+  fs.mkdirSync(migrationsDir, { recursive: true });
+  fs.writeFileSync(path.join(migrationsDir, '20240101000000_base44_to_supabase.sql'), MIGRATION);
+  return { root, migrationsDir, filename: path.join(root, '.local', 'dev.db') };
+}
+
+describe('createSqliteBackend', () => {
+  it('applies compatible migration statements once and reports the rest', async () => {
+    const { migrationsDir, filename } = project();
+    const backend = createSqliteBackend({ filename, migrationsDir });
+
+    expect(backend.migrations.applied).toEqual(['20240101000000_base44_to_supabase.sql']);
+    expect(backend.migrations.skipped.map((s) => s.reason)).toEqual([
+      'row level security is not enforced by SQLite',
+      'gin indexes have no SQLite equivalent',
+      '"create or replace function" is not supported by SQLite',
+    ]);
+
+    const todo = await backend.data.create<DataRecord>('todos', {
+      title: 'Buy milk',
+      tags: ['home'],
+    });
+    expect(todo).toMatchObject({
+      title: 'Buy milk',
+      done: false,
+      tags: ['home'],
+      meta: {},
+      deleted_at: null,
+      fts: 'Buy milk',
+    });
+    expect(todo.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(await backend.data.create('audit_log', { entity: 'todos' })).toMatchObject({ id: 1 });
+    expect(
+      await backend.data.read('todos', {
+        filters: [{ field: 'fts', op: 'textSearch', value: 'milk' }],
+        select: ['title'],
+      }),
+    ).toEqual([{ title: 'Buy milk' }]);
+    backend.close();
+
+    // Reopening keeps the rows and does not re-apply the file.
+    const reopened = createSqliteBackend({ filename, migrationsDir });
+    expect(reopened.migrations).toEqual({ applied: [], skipped: [] });
+    expect(await reopened.data.count('todos')).toBe(1);
+    reopened.close();
+  });
+
+  it('stores hashed passwords and keeps accounts across restarts', async () => {
+    const { filename } = project();
+    const backend = createSqliteBackend({ filename });
+    const session = await backend.auth.signUp({ email: 'a@example.com', password: 'secret-1' });
+    backend.close();
+
+    const db = new Database(filename);
+    const { password_hash } = db.prepare('SELECT password_hash FROM auth_users').get() as {
+      password_hash: string;
+    };
+    db.close();
+    expect(password_hash).toMatch(/^scrypt\$/);
+    expect(password_hash).not.toContain('secret-1');
+
+    const reopened = createSqliteBackend({ filename });
+    await expect(
+      reopened.auth.signIn({ email: 'a@example.com', password: 'wrong' }),
+    ).rejects.toMatchObject({ code: 'unauthorized' });
+    const again = await reopened.auth.signIn({ email: 'a@example.com', password: 'secret-1' });
+    expect(again.user?.id).toBe(session.user?.id);
+    await expect(reopened.auth.signInWithOtp({ email: 'a@example.com' })).rejects.toMatchObject({
+      code: 'validation',
+    });
+    reopened.close();
+  });
+
+  it('keeps storage objects as files and maps SQLite errors', async () => {
+    const storageDir = tempDir();
+    const backend = createSqliteBackend({ filename: ':memory:', storageDir });
+
+    await backend.storage.upload('avatars', 'u1/me.png', new Uint8Array([1, 2]));
+    expect(fs.readFileSync(path.join(storageDir, 'avatars', 'u1', 'me.png'))).toEqual(
+      Buffer.from([1, 2]),
+    );
+    expect(backend.storage.getPublicUrl('avatars', 'u1/me.png').publicUrl).toMatch(
+      /^file:\/\/.*\/avatars\/u1\/me\.png$/,
+    );
+    for (const [bucket, name] of [
+      ['avatars', '../escape.png'],
+      ['avatars', 'u1/../../escape.png'],
+      ['avatars', '..\\..\\escape.png'],
+      ['../x', 'escape.png'],
+      ['a/../../etc', 'escape.png'],
+      ['a\\..\\..', 'escape.png'],
+      ['..', 'escape.png'],
+    ]) {
+      await expect(
+        backend.storage.upload(bucket!, name!, new Uint8Array([1])),
+      ).rejects.toMatchObject({ code: 'validation' });
+      await expect(backend.storage.download(bucket!, name!)).rejects.toMatchObject({
+        code: 'validation',
+      });
+    }
+    expect(fs.readdirSync(storageDir)).toEqual(['avatars']);
+
+    await expect(backend.data.read('missing')).rejects.toMatchObject({
+      code: 'not_found',
+      entity: 'missing',
+    });
+    await expect(backend.rpc.call('nope')).rejects.toMatchObject({ code: 'not_found' });
+    backend.close();
+  });
+});
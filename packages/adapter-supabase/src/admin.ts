@@ -0,0 +1,89 @@
+import type {
+  AdminCreateUserParams,
+  AdminUpdateUserParams,
+  AdminUser,
+  BackendAdmin,
+} from '@base44-to-supabase/adapter';
+import { NotFoundError } from '@base44-to-supabase/adapter';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import { toBackendError } from './errors.js';
+
+// A browser has a global `window` with a `document`; Node, Deno and workers do not.
+export function assertServerEnvironment(): void {
+  const g = globalThis as any;
+  if (typeof g.window !== 'undefined' && typeof g.window.document !== 'undefined') {
+    throw new Error(
+      'Refusing to create an admin backend in a browser: the service-role key bypasses RLS and must stay on the server',
+    );
+  }
+}
+
+function toAdminUser(user: any): AdminUser {
+  return {
+    id: user.id,
+    email: user.email || undefined,
+    phone: user.phone || undefined,
+    appMetadata: user.app_metadata ?? {},
+    userMetadata: user.user_metadata ?? {},
+    createdAt: user.created_at,
+    lastSignInAt: user.last_sign_in_at ?? null,
+  };
+}
+
+function toAttributes(params: AdminCreateUserParams & AdminUpdateUserParams) {
+  return {
+    email: params.email,
+    phone: params.phone,
+    password: params.password,
+    email_confirm: params.emailConfirm,
+    phone_confirm: params.phoneConfirm,
+    app_metadata: params.appMetadata,
+    user_metadata: params.userMetadata,
+    ban_duration: params.banDuration,
+  };
+}
+
+export function createSupabaseAdmin(supabase: SupabaseClient): BackendAdmin {
+  const admin: BackendAdmin = {
+    async listUsers(options) {
+      const { data, error } = await supabase.auth.admin.listUsers({
+        page: options?.page,
+        perPage: options?.perPage,
+      });
+      if (error) throw toBackendError(error);
+      return {
+        users: data.users.map(toAdminUser),
+        nextPage: (data as any).nextPage ?? null,
+      };
+    },
+    async getUser(id) {
+      const { data, error } = await supabase.auth.admin.getUserById(id);
+      if (error) {
+        const mapped = toBackendError(error);
+        if (mapped instanceof NotFoundError) return null;
+        throw mapped;
+      }
+      return data.user ? toAdminUser(data.user) : null;
+    },
+    async createUser(params) {
+      const { data, error } = await supabase.auth.admin.createUser(toAttributes(params));
+      if (error) throw toBackendError(error);
+      return toAdminUser(data.user);
+    },
+    async updateUser(id, params) {
+      const { data, error } = await supabase.auth.admin.updateUserById(id, toAttributes(params));
+      if (error) throw toBackendError(error);
+      return toAdminUser(data.user);
+    },
+    async deleteUser(id) {
+      const { error } = await supabase.auth.admin.deleteUser(id);
+      if (error) throw toBackendError(error);
+    },
+    async setAppMetadata(id, metadata) {
+      // GoTrue merges `app_metadata` on update and drops keys set to null.
+      return admin.updateUser(id, { appMetadata: metadata });
+    },
+  };
+  return admin;
+}
@@ -0,0 +1,141 @@
+import {
+  BackendError,
+  ConflictError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  UnauthorizedError,
+  ValidationError,
+  type BackendErrorOptions,
+} from '@base44-to-supabase/adapter';
+
+export type ErrorContext = {
+  entity?: string;
+  bucket?: string;
+  // Response status from supabase-js (PostgREST errors don't carry it themselves).
+  status?: number;
+};
+
+type ErrorClass = new (message: string, options?: BackendErrorOptions) => BackendError;
+
+// Postgres SQLSTATE codes and PostgREST `PGRST*` codes.
+const POSTGRES_CODES: Record<string, ErrorClass> = {
+  '23505': ConflictError, // unique_violation
+  '23P01': ConflictError, // exclusion_violation
+  '23503': ConflictError, // foreign_key_violation
+  '40001': ConflictError, // serialization_failure
+  '23502': ValidationError, // not_null_violation
+  '23514': ValidationError, // check_violation
+  '22P02': ValidationError, // invalid_text_representation
+  '42703': ValidationError, // undefined_column
+  '42501': ForbiddenError, // insufficient_privilege (includes RLS violations)
+  '42P01': NotFoundError, // undefined_table
+  '42883': NotFoundError, // undefined_function
+  PGRST116: NotFoundError, // single row requested, none returned
+  PGRST202: NotFoundError, // function not found in schema cache
+  PGRST205: NotFoundError, // table not found in schema cache
+  PGRST204: ValidationError, // column not found in schema cache
+  PGRST301: UnauthorizedError, // JWT expired or invalid
+  PGRST302: UnauthorizedError, // anonymous access disabled
+};
+
+// GoTrue error codes.
+const AUTH_CODES: Record<string, ErrorClass> = {
+  invalid_credentials: UnauthorizedError,
+  session_not_found: UnauthorizedError,
+  session_expired: UnauthorizedError,
+  refresh_token_not_found: UnauthorizedError,
+  refresh_token_already_used: UnauthorizedError,
+  bad_jwt: UnauthorizedError,
+  no_authorization: UnauthorizedError,
+  otp_expired: UnauthorizedError,
+  user_not_found: NotFoundError,
+  user_already_exists: ConflictError,
+  email_exists: ConflictError,
+  phone_exists: ConflictError,
+  weak_password: ValidationError,
+  validation_failed: ValidationError,
+  email_address_invalid: ValidationError,
+  over_request_rate_limit: RateLimitedError,
+  over_email_send_rate_limit: RateLimitedError,
+  over_sms_send_rate_limit: RateLimitedError,
+  user_banned: ForbiddenError,
+  email_not_confirmed: ForbiddenError,
+  signup_disabled: ForbiddenError,
+};
+
+// Storage API error codes.
+const STORAGE_CODES: Record<string, ErrorClass> = {
+  NoSuchKey: NotFoundError,
+  NoSuchBucket: NotFoundError,
+  NoSuchUpload: NotFoundError,
+  ResourceAlreadyExists: ConflictError,
+  KeyAlreadyExists: ConflictError,
+  BucketAlreadyExists: ConflictError,
+  AccessDenied: ForbiddenError,
+  InvalidJWT: UnauthorizedError,
+  InvalidKey: ValidationError,
+  EntityTooLarge: ValidationError,
+  SlowDown: RateLimitedError,
+};
+
+const NETWORK_ERROR_NAMES = new Set([
+  'AuthRetryableFetchError',
+  'StorageUnknownError',
+  'FunctionsFetchError',
+  'FunctionsRelayError',
+]);
+
+function fromStatus(status: number | undefined): ErrorClass | null {
+  if (status === undefined || Number.isNaN(status)) return null;
+  if (status === 0) return NetworkError;
+  if (status === 400 || status === 422) return ValidationError;
+  if (status === 401) return UnauthorizedError;
+  if (status === 403) return ForbiddenError;
+  if (status === 404 || status === 406) return NotFoundError;
+  if (status === 409) return ConflictError;
+  if (status === 429) return RateLimitedError;
+  return null;
+}
+
+function looksLikeNetworkFailure(error: any): boolean {
+  if (NETWORK_ERROR_NAMES.has(error?.name)) return true;
+  const message = String(error?.message ?? '');
+  return /fetch failed|failed to fetch|networkerror|network request failed|econnrefused|etimedout/i.test(
+    message,
+  );
+}
+
+// Translates errors returned by supabase-js (PostgREST, GoTrue, Storage, Functions) into the
+// adapter's BackendError hierarchy.
+export function toBackendError(error: unknown, context: ErrorContext = {}): BackendError {
+  if (error instanceof BackendError) return error;
+
+  const err = error as any;
+  const message = typeof err?.message === 'string' && err.message ? err.message : String(error);
+
+  // Storage reports the upstream status as a string next to the HTTP status.
+  const storageStatus =
+    typeof err?.statusCode === 'string' ? Number.parseInt(err.statusCode, 10) : undefined;
+  const status =
+    context.status ?? (typeof err?.status === 'number' ? err.status : undefined) ?? storageStatus;
+
+  const options: BackendErrorOptions = {
+    entity: context.entity,
+    bucket: context.bucket,
+    status,
+    cause: error,
+  };
+
+  const code = typeof err?.code === 'string' ? err.code : undefined;
+  const ErrorType =
+    (code ? (POSTGRES_CODES[code] ?? AUTH_CODES[code] ?? STORAGE_CODES[code]) : undefined) ??
+    (err?.name === 'AuthSessionMissingError' ? UnauthorizedError : undefined) ??
+    (looksLikeNetworkFailure(err) ? NetworkError : undefined) ??
+    fromStatus(storageStatus) ??
+    fromStatus(status);
+
+  if (ErrorType) return new ErrorType(message, options);
+  return new BackendError(message, 'unknown', options);
+}
@@ -1,24 +1,148 @@
 import type {
+  AdminBackend,
   Backend,
   BackendAuth,
   BackendData,
   BackendRpc,
   BackendStorage,
   DataFilter,
+  DataFilterNode,
+  DataInclude,
   DataReadOptions,
   DataOrderBy,
+  EntitySchema,
   Id,
+  ResilienceOptions,
+  SoftDeleteOptions,
 } from '@base44-to-supabase/adapter';
-import { createClient } from '@supabase/supabase-js';
+import {
+  BackendError,
+  ValidationError,
+  aggregateAlias,
+  buildPage,
+  decodeCursor,
+  excludeSoftDeleted,
+  fallbackAggregate,
+  includeOptions,
+  isFilterGroup,
+  normalizeGroupBy,
+  normalizePageOrder,
+  softDeleteColumn,
+  withResilience,
+  withSchema,
+} from '@base44-to-supabase/adapter';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+import { assertServerEnvironment, createSupabaseAdmin } from './admin.js';
+import { toBackendError } from './errors.js';
+import { keysetCondition, logicTreeCondition, selectWithIncludes } from './postgrest.js';
+import { createSupabaseRealtime } from './realtime.js';
+import {
+  createCookieSessionStorage,
+  createRequestCookies,
+  type AuthSessionStorage,
+  type CookieOptions,
+} from './session.js';
+
+export {
+  DEFAULT_COOKIE_OPTIONS,
+  createCookieSessionStorage,
+  createFileSessionStorage,
+  createMemorySessionStorage,
+  createRequestCookies,
+  parseCookieHeader,
+  serializeCookie,
+  type AuthSessionStorage,
+  type CookieAdapter,
+  type CookieOptions,
+} from './session.js';
 
-export type SupabaseBackendOptions = {
+// Retries and circuit breakers are off unless configured, e.g.
+// `{ retry: { default: { maxAttempts: 3 }, auth: false }, circuitBreaker: { data: {} } }`.
+export type SupabaseBackendOptions = ResilienceOptions & {
   url: string;
   anonKey: string;
+  // Entities whose deletes only set a timestamp; see `SoftDeleteOptions`.
+  softDelete?: SoftDeleteOptions;
+  // Where the session is persisted. Defaults to `localStorage` in browsers; in Node, pass e.g.
+  // `createFileSessionStorage('.auth/session.json')` for CLI tools or
+  // `createMemorySessionStorage()` for tests.
+  sessionStorage?: AuthSessionStorage;
+  // Refresh the access token in the background before it expires. Defaults to true. The timer
+  // keeps Node processes alive, so short-lived scripts may want it off.
+  autoRefresh?: boolean;
+};
+
+export type SupabaseRequestBackendOptions = Omit<SupabaseBackendOptions, 'sessionStorage'> & {
+  // Attributes of the session cookies; see `DEFAULT_COOKIE_OPTIONS`.
+  cookieOptions?: CookieOptions;
 };
 
-export function createSupabaseBackend(options: SupabaseBackendOptions): Backend {
-  const supabase = createClient(options.url, options.anonKey);
+export type SupabaseAdminBackendOptions = ResilienceOptions & {
+  url: string;
+  serviceRoleKey: string;
+  softDelete?: SoftDeleteOptions;
+};
+
+export function createSupabaseBackend<S extends EntitySchema = EntitySchema>(
+  options: SupabaseBackendOptions,
+): Backend<S> {
+  const supabase = createClient(options.url, options.anonKey, {
+    auth: {
+      ...(options.sessionStorage && { storage: options.sessionStorage, persistSession: true }),
+      ...(options.autoRefresh !== undefined && { autoRefreshToken: options.autoRefresh }),
+    },
+  });
+  return withResilience(backendForClient<S>(supabase, options.softDelete), options);
+}
+
+// A backend for one server-rendered request (Next.js route handlers, Remix loaders and actions):
+// the session is read from the request's cookies, and cookies written while handling it (sign-in,
+// sign-out, a refreshed token) are collected in `headers` as `Set-Cookie` entries to copy onto the
+// response once the backend calls have settled. Tokens are refreshed on demand, not on a timer,
+// unless `autoRefresh` is set.
+export function createSupabaseRequestBackend<S extends EntitySchema = EntitySchema>(
+  request: { headers: Headers },
+  options: SupabaseRequestBackendOptions,
+): { backend: Backend<S>; headers: Headers } {
+  const headers = new Headers();
+  const cookies = createRequestCookies(request.headers.get('cookie'), headers);
+  const supabase = createClient(options.url, options.anonKey, {
+    auth: {
+      storage: createCookieSessionStorage(cookies, options.cookieOptions),
+      persistSession: true,
+      autoRefreshToken: options.autoRefresh ?? false,
+      detectSessionInUrl: false,
+      // OAuth and magic-link codes are exchanged on the server, with the verifier in a cookie.
+      flowType: 'pkce',
+    },
+  });
+  return {
+    backend: withResilience(backendForClient<S>(supabase, options.softDelete), options),
+    headers,
+  };
+}
 
+// Privileged backend for server code (Edge Functions, scripts). The service-role key bypasses
+// RLS, so this refuses to run in a browser and never persists or refreshes a session.
+export function createSupabaseAdminBackend<S extends EntitySchema = EntitySchema>(
+  options: SupabaseAdminBackendOptions,
+): AdminBackend<S> {
+  assertServerEnvironment();
+  const supabase = createClient(options.url, options.serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+  });
+  const backend: AdminBackend<S> = {
+    ...backendForClient<S>(supabase, options.softDelete),
+    admin: createSupabaseAdmin(supabase),
+  };
+  return withResilience(backend, options);
+}
+
+function backendForClient<S extends EntitySchema>(
+  supabase: SupabaseClient,
+  softDelete: SoftDeleteOptions | undefined,
+): Backend<S> {
   function toAuthSession(session: any): any {
     if (!session) return null;
     return {
@@ -35,6 +159,15 @@ export function createSupabaseBackend(options: SupabaseBackendOptions): Backend
     return select;
   }
 
+  // Order columns must come back with each row so the next cursor can be built from it.
+  function selectWithColumns(select: DataReadOptions['select'], columns: string[]): string {
+    const normalized = normalizeSelect(select);
+    if (normalized === '*') return normalized;
+    const present = new Set(normalized.split(',').map((c) => c.trim()));
+    const missing = columns.filter((c) => !present.has(c));
+    return missing.length ? [normalized, ...missing].join(',') : normalized;
+  }
+
   function normalizeOrderBy(orderBy?: DataReadOptions['orderBy']): DataOrderBy[] {
     if (!orderBy) return [];
     return Array.isArray(orderBy) ? orderBy : [orderBy];
@@ -67,15 +200,94 @@ export function createSupabaseBackend(options: SupabaseBackendOptions): Backend
         return query.containedBy(field, value as any);
       case 'is':
         return query.is(field, value as any);
+      case 'overlaps':
+        return query.overlaps(field, value as any);
+      case 'match':
+        return query.regexMatch(field, value as any);
+      case 'textSearch':
+        return query.textSearch(field, value as any, filter.search);
+      case 'rangeGt':
+        return query.rangeGt(field, value as any);
+      case 'rangeGte':
+        return query.rangeGte(field, value as any);
+      case 'rangeLt':
+        return query.rangeLt(field, value as any);
+      case 'rangeLte':
+        return query.rangeLte(field, value as any);
+      case 'rangeAdjacent':
+        return query.rangeAdjacent(field, value as any);
       default:
         return query;
     }
   }
 
+  function requireFilters(entity: string, filters: DataFilterNode[]) {
+    if (filters.length === 0) {
+      throw new ValidationError('Bulk updates and deletes require at least one filter', { entity });
+    }
+  }
+
+  function applyReadFilters(
+    query: any,
+    options?: Pick<DataReadOptions, 'filter' | 'filters'>,
+  ): any {
+    if (options?.filter) {
+      for (const [key, value] of Object.entries(options.filter)) {
+        query = query.eq(key, value as any);
+      }
+    }
+    if (options?.filters) {
+      for (const node of options.filters) {
+        query = applyFilterNode(query, node);
+      }
+    }
+    return query;
+  }
+
+  // `and` groups become separate query params (PostgREST ANDs them); `or`/`not` groups are sent
+  // as a logic tree through `or=(...)`.
+  function applyFilterNode(query: any, node: DataFilterNode): any {
+    if (!isFilterGroup(node)) return applyFilterOp(query, node);
+    if ('and' in node) {
+      if (node.and.length === 0) throw new ValidationError('Empty "and" filter group');
+      for (const child of node.and) query = applyFilterNode(query, child);
+      return query;
+    }
+    // `or=(a,b)` for plain `or` groups; a negation is wrapped as a single-element `or=(...)`.
+    if ('or' in node && node.or.length > 0) {
+      return query.or(node.or.map((child) => logicTreeCondition(child)).join(','));
+    }
+    return query.or(logicTreeCondition(node));
+  }
+
+  // Filters, ordering and limits of embedded resources are addressed by their path, e.g.
+  // `comments.author`. Soft-deleted rows are left out of embeds as well.
+  function applyIncludeModifiers(
+    query: any,
+    include: DataInclude | undefined,
+    parent?: string,
+  ): any {
+    for (const [name, options] of Object.entries(include ?? {})) {
+      const spec = includeOptions(options);
+      const path = parent ? `${parent}.${name}` : name;
+      const deletedColumn = softDeleteColumn(softDelete, spec.entity ?? name);
+      if (deletedColumn) query = query.is(`${path}.${deletedColumn}`, null);
+      for (const [key, value] of Object.entries(spec.filter ?? {})) {
+        query = query.eq(`${path}.${key}`, value as any);
+      }
+      for (const o of normalizeOrderBy(spec.orderBy)) {
+        query = query.order(o.field, { ascending: o.ascending ?? true, referencedTable: path });
+      }
+      if (spec.limit !== undefined) query = query.limit(spec.limit, { referencedTable: path });
+      query = applyIncludeModifiers(query, spec.include, path);
+    }
+    return query;
+  }
+
   const auth: BackendAuth = {
     async signIn({ email, password }) {
       const { data, error } = await supabase.auth.signInWithPassword({ email, password });
-      if (error) throw error;
+      if (error) throw toBackendError(error);
       return {
         accessToken: data.session?.access_token,
         refreshToken: data.session?.refresh_token,
@@ -85,7 +297,7 @@ export function createSupabaseBackend(options: SupabaseBackendOptions): Backend
     },
     async signUp({ email, password }) {
       const { data, error } = await supabase.auth.signUp({ email, password });
-      if (error) throw error;
+      if (error) throw toBackendError(error);
       return {
         accessToken: data.session?.access_token,
         refreshToken: data.session?.refresh_token,
@@ -93,28 +305,71 @@ export function createSupabaseBackend(options: SupabaseBackendOptions): Backend
         user: data.user ?? undefined,
       };
     },
+    async signInWithOtp(params) {
+      const options = { shouldCreateUser: params.shouldCreateUser };
+      const { error } =
+        'phone' in params && params.phone
+          ? await supabase.auth.signInWithOtp({ phone: params.phone, options })
+          : await supabase.auth.signInWithOtp({
+              email: params.email!,
+              options: { ...options, emailRedirectTo: params.redirectTo },
+            });
+      if (error) throw toBackendError(error);
+    },
+    async verifyOtp(params) {
+      const { data, error } =
+        'phone' in params && params.phone
+          ? await supabase.auth.verifyOtp({
+              phone: params.phone,
+              token: params.token,
+              type: (params.type ?? 'sms') as any,
+            })
+          : await supabase.auth.verifyOtp({
+              email: params.email!,
+              token: params.token,
+              type: (params.type ?? 'email') as any,
+            });
+      if (error) throw toBackendError(error);
+      return toAuthSession(data.session) ?? { user: data.user ?? undefined };
+    },
+    async signInWithOAuth({ provider, redirectTo, scopes }) {
+      const { data, error } = await supabase.auth.signInWithOAuth({
+        provider: provider as any,
+        options: {
+          redirectTo,
+          scopes: Array.isArray(scopes) ? scopes.join(' ') : scopes,
+        },
+      });
+      if (error) throw toBackendError(error);
+      return { url: data.url ?? null };
+    },
+    async exchangeCodeForSession(code) {
+      const { data, error } = await supabase.auth.exchangeCodeForSession(code);
+      if (error) throw toBackendError(error);
+      return toAuthSession(data.session) ?? { user: data.user ?? undefined };
+    },
     async resetPasswordForEmail(email, options) {
       const { error } = await supabase.auth.resetPasswordForEmail(email, {
         redirectTo: options?.redirectTo,
       });
-      if (error) throw error;
+      if (error) throw toBackendError(error);
     },
     async updatePassword(newPassword) {
       const { error } = await supabase.auth.updateUser({ password: newPassword });
-      if (error) throw error;
+      if (error) throw toBackendError(error);
     },
     async signOut() {
       const { error } = await supabase.auth.signOut();
-      if (error) throw error;
+      if (error) throw toBackendError(error);
     },
     async getUser() {
       const { data, error } = await supabase.auth.getUser();
-      if (error) throw error;
+      if (error) throw toBackendError(error);
       return data.user ?? null;
     },
     async getSession() {
       const { data, error } = await supabase.auth.getSession();
-      if (error) throw error;
+      if (error) throw toBackendError(error);
       return toAuthSession(data.session);
     },
     onAuthStateChange(callback) {
@@ -131,23 +386,22 @@ export function createSupabaseBackend(options: SupabaseBackendOptions): Backend
 
   const dataApi: BackendData = {
     async create(entity, data) {
-      const { data: rows, error } = await supabase.from(entity).insert(data).select().limit(1);
-      if (error) throw error;
+      const {
+        data: rows,
+        error,
+        status,
+      } = await supabase.from(entity).insert(data).select().limit(1);
+      if (error) throw toBackendError(error, { entity, status });
       return (rows?.[0] ?? data) as any;
     },
-    async read(entity, options?: DataReadOptions) {
-      let query = supabase.from(entity).select(normalizeSelect(options?.select));
+    async read(entity, readOptions?: DataReadOptions) {
+      const options = excludeSoftDeleted(softDelete, entity, readOptions);
+      let query: any = supabase
+        .from(entity)
+        .select(selectWithIncludes(normalizeSelect(options?.select), options?.include));
       if (options?.id) query = query.eq('id', options.id).limit(1);
-      if (options?.filter) {
-        for (const [key, value] of Object.entries(options.filter)) {
-          query = query.eq(key, value as any);
-        }
-      }
-      if (options?.filters) {
-        for (const f of options.filters) {
-          query = applyFilterOp(query, f);
-        }
-      }
+      query = applyReadFilters(query, options);
+      query = applyIncludeModifiers(query, options?.include);
 
       for (const o of normalizeOrderBy(options?.orderBy)) {
         query = query.order(o.field, { ascending: o.ascending ?? true });
@@ -157,35 +411,152 @@ export function createSupabaseBackend(options: SupabaseBackendOptions): Backend
       if (typeof options?.offset === 'number')
         query = query.range(options.offset, (options.offset ?? 0) + (options?.limit ?? 1000) - 1);
 
-      const { data, error } = await query;
-      if (error) throw error;
+      const { data, error, status } = await query;
+      if (error) throw toBackendError(error, { entity, status });
       if (options?.id) return (data?.[0] ?? null) as any;
       return (data ?? []) as any;
     },
+    async readPage(entity, pageOptions) {
+      const options = excludeSoftDeleted(softDelete, entity, pageOptions);
+      const order = normalizePageOrder(options.orderBy);
+      const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+      const direction = cursor?.direction ?? 'next';
+      const forward = direction === 'next';
+
+      let query: any = supabase.from(entity).select(
+        selectWithColumns(
+          options.select,
+          order.map((o) => o.field),
+        ),
+      );
+      query = applyReadFilters(query, options);
+      if (cursor) query = query.or(keysetCondition(order, cursor.values, forward));
+      // Previous pages are fetched in reverse order and flipped back by buildPage.
+      for (const o of order) {
+        const ascending = o.ascending ?? true;
+        query = query.order(o.field, { ascending: forward ? ascending : !ascending });
+      }
+      query = query.limit(options.pageSize + 1);
+
+      const { data, error, status } = await query;
+      if (error) throw toBackendError(error, { entity, status });
+      return buildPage((data ?? []) as any[], {
+        pageSize: options.pageSize,
+        order,
+        direction,
+        hasCursor: cursor !== null,
+      });
+    },
+    async count(entity, options) {
+      let query: any = supabase
+        .from(entity)
+        .select('*', { count: options?.mode ?? 'exact', head: true });
+      query = applyReadFilters(query, excludeSoftDeleted(softDelete, entity, options));
+      const { count, error, status } = await query;
+      if (error) throw toBackendError(error, { entity, status });
+      return count ?? 0;
+    },
+    async aggregate(entity, options) {
+      const columns = [...normalizeGroupBy(options.groupBy)];
+      for (const a of options.aggregates) {
+        const target = a.field ? `${a.field}.${a.fn}()` : 'count()';
+        columns.push(`${aggregateAlias(a)}:${target}`);
+      }
+      let query: any = supabase.from(entity).select(columns.join(','));
+      query = applyReadFilters(query, excludeSoftDeleted(softDelete, entity, options));
+      const { data, error, status } = await query;
+      // PostgREST aggregates are disabled unless `db-aggregates-enabled` is set on the project.
+      if (error?.code === 'PGRST123') return fallbackAggregate(dataApi, entity, options);
+      if (error) throw toBackendError(error, { entity, status });
+      return (data ?? []) as any;
+    },
     async upsert(entity, data, options) {
-      const { data: rows, error } = await supabase
+      const {
+        data: rows,
+        error,
+        status,
+      } = await supabase
         .from(entity)
         .upsert(data as any, {
           onConflict: options?.onConflict,
         })
         .select();
-      if (error) throw error;
+      if (error) throw toBackendError(error, { entity, status });
       if (Array.isArray(data)) return (rows ?? []) as any;
       return (rows?.[0] ?? data) as any;
     },
     async update(entity, id: Id, data) {
-      const { data: rows, error } = await supabase
+      const {
+        data: rows,
+        error,
+        status,
+      } = await supabase
         .from(entity)
-        .update(data)
+        .update(data as any)
         .eq('id', id)
         .select()
         .limit(1);
-      if (error) throw error;
+      if (error) throw toBackendError(error, { entity, status });
       return (rows?.[0] ?? { id, ...data }) as any;
     },
     async delete(entity, id: Id) {
-      const { error } = await supabase.from(entity).delete().eq('id', id);
-      if (error) throw error;
+      const column = softDeleteColumn(softDelete, entity);
+      // No `.select()`: with a policy hiding deleted rows, returning the marked row would fail.
+      const query = column
+        ? supabase
+            .from(entity)
+            .update({ [column]: new Date().toISOString() })
+            .eq('id', id)
+            .is(column, null)
+        : supabase.from(entity).delete().eq('id', id);
+      const { error, status } = await query;
+      if (error) throw toBackendError(error, { entity, status });
+    },
+    async createMany(entity, rows) {
+      if (rows.length === 0) return [];
+      const { data, error, status } = await supabase
+        .from(entity)
+        .insert(rows as any[])
+        .select();
+      if (error) throw toBackendError(error, { entity, status });
+      return (data ?? []) as any;
+    },
+    async updateWhere(entity, filters, patch) {
+      requireFilters(entity, filters);
+      let query: any = supabase.from(entity).update(patch as any);
+      query = applyReadFilters(query, { filters });
+      const { data, error, status } = await query.select();
+      if (error) throw toBackendError(error, { entity, status });
+      return (data ?? []) as any;
+    },
+    async deleteWhere(entity, filters) {
+      requireFilters(entity, filters);
+      const column = softDeleteColumn(softDelete, entity);
+      let query: any = column
+        ? supabase
+            .from(entity)
+            .update({ [column]: new Date().toISOString() }, { count: 'exact' })
+            .is(column, null)
+        : supabase.from(entity).delete({ count: 'exact' });
+      query = applyReadFilters(query, { filters });
+      const { count, error, status } = await query;
+      if (error) throw toBackendError(error, { entity, status });
+      return count ?? 0;
+    },
+    async restore(entity, id: Id) {
+      const column = softDeleteColumn(softDelete, entity);
+      if (!column) {
+        throw new ValidationError(`${entity} is not configured for soft delete`, { entity });
+      }
+      const { error, status } = await supabase
+        .from(entity)
+        .update({ [column]: null })
+        .eq('id', id);
+      if (error) throw toBackendError(error, { entity, status });
+    },
+    async purge(entity, id: Id) {
+      const { error, status } = await supabase.from(entity).delete().eq('id', id);
+      if (error) throw toBackendError(error, { entity, status });
     },
   };
 
@@ -196,19 +567,19 @@ export function createSupabaseBackend(options: SupabaseBackendOptions): Backend
         cacheControl: options?.cacheControl,
         upsert: options?.upsert,
       });
-      if (error) throw error;
+      if (error) throw toBackendError(error, { bucket });
       return { path };
     },
     async download(bucket, path) {
       const { data, error } = await supabase.storage.from(bucket).download(path);
-      if (error) throw error;
+      if (error) throw toBackendError(error, { bucket });
       const arrayBuffer = await data.arrayBuffer();
       return new Uint8Array(arrayBuffer);
     },
     async remove(bucket, paths) {
       const list = Array.isArray(paths) ? paths : [paths];
       const { error } = await supabase.storage.from(bucket).remove(list);
-      if (error) throw error;
+      if (error) throw toBackendError(error, { bucket });
     },
     async list(bucket, path, options) {
       const { data, error } = await supabase.storage.from(bucket).list(path, {
@@ -216,15 +587,16 @@ export function createSupabaseBackend(options: SupabaseBackendOptions): Backend
         offset: options?.offset,
         search: options?.search,
       });
-      if (error) throw error;
+      if (error) throw toBackendError(error, { bucket });
       return (data ?? []) as any;
     },
     async createSignedUrl(bucket, path, expiresInSeconds) {
       const { data, error } = await supabase.storage
         .from(bucket)
         .createSignedUrl(path, expiresInSeconds);
-      if (error) throw error;
-      if (!data?.signedUrl) throw new Error('Supabase did not return a signedUrl');
+      if (error) throw toBackendError(error, { bucket });
+      if (!data?.signedUrl)
+        throw new BackendError('Supabase did not return a signedUrl', 'unknown', { bucket });
       return { signedUrl: data.signedUrl };
     },
     getPublicUrl(bucket, path) {
@@ -235,20 +607,35 @@ export function createSupabaseBackend(options: SupabaseBackendOptions): Backend
 
   const rpc: BackendRpc = {
     async call(fn, params) {
-      const { data, error } = await supabase.rpc(fn, params as any);
-      if (error) throw error;
+      const { data, error, status } = await supabase.rpc(fn, params as any);
+      if (error) throw toBackendError(error, { status });
       return data as any;
     },
   };
 
-  return { auth, data: dataApi, storage, rpc };
+  const realtime = createSupabaseRealtime(supabase);
+
+  return withSchema<S>({ auth, data: dataApi, storage, rpc, realtime });
 }
 
-export function createSupabaseBackendFromEnv(env: NodeJS.ProcessEnv = process.env): Backend {
+export function createSupabaseBackendFromEnv<S extends EntitySchema = EntitySchema>(
+  env: NodeJS.ProcessEnv = process.env,
+): Backend<S> {
   const url = env.SUPABASE_URL;
   const anonKey = env.SUPABASE_ANON_KEY;
   if (!url || !anonKey) {
     throw new Error('Missing SUPABASE_URL or SUPABASE_ANON_KEY in environment');
   }
-  return createSupabaseBackend({ url, anonKey });
+  return createSupabaseBackend<S>({ url, anonKey });
+}
+
+export function createSupabaseAdminBackendFromEnv<S extends EntitySchema = EntitySchema>(
+  env: NodeJS.ProcessEnv = process.env,
+): AdminBackend<S> {
+  const url = env.SUPABASE_URL;
+  const serviceRoleKey = env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY in environment');
+  }
+  return createSupabaseAdminBackend<S>({ url, serviceRoleKey });
 }
@@ -0,0 +1,125 @@
+import type {
+  DataFilter,
+  DataFilterNode,
+  DataFilterOp,
+  DataInclude,
+  DataOrderBy,
+} from '@base44-to-supabase/adapter';
+import { ValidationError, includeOptions, isFilterGroup } from '@base44-to-supabase/adapter';
+
+// Builders for PostgREST query strings that supabase-js has no structured API for.
+
+const LOGIC_TREE_OPS: Record<DataFilterOp, string> = {
+  eq: 'eq',
+  neq: 'neq',
+  gt: 'gt',
+  gte: 'gte',
+  lt: 'lt',
+  lte: 'lte',
+  like: 'like',
+  ilike: 'ilike',
+  in: 'in',
+  contains: 'cs',
+  containedBy: 'cd',
+  is: 'is',
+  overlaps: 'ov',
+  match: 'match',
+  textSearch: 'fts',
+  rangeGt: 'sr',
+  rangeGte: 'nxl',
+  rangeLt: 'sl',
+  rangeLte: 'nxr',
+  rangeAdjacent: 'adj',
+};
+
+const TEXT_SEARCH_PREFIXES = { plain: 'pl', phrase: 'ph', websearch: 'w' } as const;
+
+// `fts`, `plfts`, `phfts` or `wfts`, with the search configuration in parentheses.
+function logicTreeOperator(filter: DataFilter): string {
+  if (filter.op !== 'textSearch') return LOGIC_TREE_OPS[filter.op];
+  const type = filter.search?.type;
+  const config = filter.search?.config;
+  return `${type ? TEXT_SEARCH_PREFIXES[type] : ''}fts${config ? `(${config})` : ''}`;
+}
+
+function logicTreeValue(op: DataFilterOp, value: unknown): string {
+  if (op === 'is') return value === null ? 'null' : String(value as string);
+  if (op === 'in') return `(${(value as unknown[]).map(quotePostgrestValue).join(',')})`;
+  if ((op === 'contains' || op === 'containedBy' || op === 'overlaps') && Array.isArray(value)) {
+    return `{${value.map(quotePostgrestValue).join(',')}}`;
+  }
+  return quotePostgrestValue(value);
+}
+
+// Renders a filter node in PostgREST logic tree syntax, e.g. `or(status.eq."open",and(...))`.
+// A bare filter renders as `field.op.value`, negated as `field.not.op.value`.
+export function logicTreeCondition(node: DataFilterNode, negate = false): string {
+  if (!isFilterGroup(node)) {
+    const prefix = negate ? 'not.' : '';
+    return `${node.field}.${prefix}${logicTreeOperator(node)}.${logicTreeValue(node.op, node.value)}`;
+  }
+  if ('not' in node) return logicTreeCondition(node.not, !negate);
+
+  const [kind, children] = 'and' in node ? ['and', node.and] : ['or', node.or];
+  if (children.length === 0) throw new ValidationError(`Empty "${kind}" filter group`);
+  const inner = children.map((child) => logicTreeCondition(child)).join(',');
+  return `${negate ? 'not.' : ''}${kind}(${inner})`;
+}
+
+// Quotes a value for use inside PostgREST logic trees such as `or=(...)`.
+export function quotePostgrestValue(value: unknown): string {
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value as string);
+  return `"${text.replaceAll('\\', '\\\\').replaceAll('"', '\\"')}"`;
+}
+
+// Expands the row-value comparison `(a, b, id) > (va, vb, vid)` into an `or()` condition,
+// honouring the direction of each order column. Postgres sorts nulls last when ascending and first
+// when descending, so null cursor values compare with `is.null` instead of a quoted "null".
+export function keysetCondition(order: DataOrderBy[], values: unknown[], forward: boolean): string {
+  const clauses: string[] = [];
+  for (let i = 0; i < order.length; i++) {
+    const parts: string[] = [];
+    for (let j = 0; j < i; j++) {
+      const previous = values[j];
+      parts.push(
+        previous === null || previous === undefined
+          ? `${order[j]!.field}.is.null`
+          : `${order[j]!.field}.eq.${quotePostgrestValue(previous)}`,
+      );
+    }
+    const field = order[i]!.field;
+    const value = values[i];
+    const ascending = (order[i]!.ascending ?? true) === forward;
+    if (ascending) {
+      // Nothing sorts after a null here except the following columns.
+      if (value === null || value === undefined) continue;
+      parts.push(`or(${field}.gt.${quotePostgrestValue(value)},${field}.is.null)`);
+    } else {
+      parts.push(
+        value === null || value === undefined
+          ? `${field}.not.is.null`
+          : `${field}.lt.${quotePostgrestValue(value)}`,
+      );
+    }
+    clauses.push(parts.length === 1 ? parts[0]! : `and(${parts.join(',')})`);
+  }
+  // No row can follow; PostgREST rejects an empty `or()`, so match nothing explicitly.
+  if (clauses.length === 0) {
+    const field = order[0]?.field ?? 'id';
+    return `and(${field}.is.null,${field}.not.is.null)`;
+  }
+  return clauses.join(',');
+}
+
+// Appends embedded resources for `include`, e.g. `*,owner:users(*),comments!inner(id,body)`.
+// PostgREST resolves the join from the foreign keys between the tables.
+export function selectWithIncludes(select: string, include: DataInclude | undefined): string {
+  if (!include) return select;
+  const embeds = Object.entries(include).map(([name, spec]) => {
+    const options = includeOptions(spec);
+    const target = options.entity ? `${name}:${options.entity}` : name;
+    const columns = selectWithIncludes(options.select?.join(',') || '*', options.include);
+    return `${target}${options.required ? '!inner' : ''}(${columns})`;
+  });
+  return [select, ...embeds].join(',');
+}
@@ -0,0 +1,115 @@
+import type {
+  BackendRealtime,
+  DataFilter,
+  DataRecord,
+  RealtimeChange,
+  RealtimeEvent,
+  RealtimeSubscribeOptions,
+} from '@base44-to-supabase/adapter';
+import { ValidationError } from '@base44-to-supabase/adapter';
+import type {
+  RealtimeChannel,
+  RealtimePostgresChangesPayload,
+  SupabaseClient,
+} from '@supabase/supabase-js';
+
+// Realtime filters have no quoting: a scalar value is everything after `op.`, and `in` lists are
+// split on commas inside the parentheses. Values that would be parsed differently are rejected.
+function realtimeValue(field: string, value: unknown, inList: boolean): string {
+  if (value === null || value === undefined || typeof value === 'object') {
+    throw new ValidationError(
+      `Realtime filters on ${field} only accept strings, numbers or booleans`,
+    );
+  }
+  const text = String(value as string);
+  if (inList && /[,()"]/.test(text)) {
+    throw new ValidationError(
+      `Realtime "in" filters on ${field} cannot match values containing commas, parentheses or quotes`,
+    );
+  }
+  return text;
+}
+
+// Supabase Realtime only supports a subset of operators in postgres_changes filters.
+export function toRealtimeFilter(filter: DataFilter): string {
+  const { field, op, value } = filter;
+  switch (op) {
+    case 'eq':
+    case 'neq':
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return `${field}=${op}.${realtimeValue(field, value, false)}`;
+    case 'in': {
+      if (!Array.isArray(value)) {
+        throw new ValidationError(`Realtime "in" filters on ${field} need an array of values`);
+      }
+      const list = value.map((v) => realtimeValue(field, v, true));
+      return `${field}=in.(${list.join(',')})`;
+    }
+    default:
+      throw new ValidationError(`Unsupported realtime filter operator: ${op}`);
+  }
+}
+
+// supabase-js sends `{}` rather than null for the side of a change that has no row.
+function rowOrNull<T extends DataRecord>(row: Partial<T>): Partial<T> | null {
+  return Object.keys(row).length > 0 ? row : null;
+}
+
+export function toRealtimeChange<T extends DataRecord>(
+  entity: string,
+  payload: RealtimePostgresChangesPayload<T>,
+): RealtimeChange<T> {
+  return {
+    entity,
+    event: payload.eventType.toLowerCase() as RealtimeEvent,
+    new: rowOrNull<T>(payload.new) as T | null,
+    old: rowOrNull<T>(payload.old),
+    commitTimestamp: payload.commit_timestamp,
+  };
+}
+
+export function createSupabaseRealtime(supabase: SupabaseClient): BackendRealtime {
+  let channelCounter = 0;
+  return {
+    subscribe<T extends DataRecord>(
+      entity: string,
+      callback: (change: RealtimeChange<T>) => void,
+      options?: RealtimeSubscribeOptions,
+    ) {
+      const events = options?.events
+        ? Array.isArray(options.events)
+          ? options.events
+          : [options.events]
+        : null;
+      const filter = options?.filter ? toRealtimeFilter(options.filter) : undefined;
+
+      const channel: RealtimeChannel = supabase.channel(
+        `base44-to-supabase:${entity}:${++channelCounter}`,
+      );
+      for (const event of events ?? ['*' as const]) {
+        channel.on<T>(
+          'postgres_changes',
+          {
+            event: event === '*' ? '*' : (event.toUpperCase() as 'INSERT' | 'UPDATE' | 'DELETE'),
+            schema: 'public',
+            table: entity,
+            filter,
+          },
+          (payload) => {
+            callback(toRealtimeChange(entity, payload));
+          },
+        );
+      }
+      channel.subscribe();
+
+      return {
+        unsubscribe: () => {
+          void supabase.removeChannel(channel);
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,216 @@
+// Where supabase-js keeps the auth session (and the PKCE code verifier), keyed by its storage key.
+// Methods may be sync or async. Browsers default to `localStorage`; elsewhere nothing is kept
+// unless a storage is passed as `sessionStorage`.
+export type AuthSessionStorage = {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+};
+
+export type CookieOptions = {
+  path?: string;
+  domain?: string;
+  // Seconds. A cookie without `maxAge` or `expires` ends with the browser session.
+  maxAge?: number;
+  expires?: Date;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'lax' | 'strict' | 'none';
+};
+
+// Framework cookie APIs (Next.js `cookies()`, a Remix session, an Express request/response pair)
+// wrapped to one shape.
+export type CookieAdapter = {
+  get(name: string): string | null | undefined | Promise<string | null | undefined>;
+  set(name: string, value: string, options: CookieOptions): void | Promise<void>;
+  remove(name: string, options: CookieOptions): void | Promise<void>;
+};
+
+// Readable by browser code too, so a client-side backend can pick the session up after SSR.
+export const DEFAULT_COOKIE_OPTIONS: CookieOptions = {
+  path: '/',
+  sameSite: 'lax',
+  httpOnly: false,
+  maxAge: 400 * 24 * 60 * 60,
+};
+
+// Browsers reject cookies over 4096 bytes (name, value and attributes); sessions with large user
+// metadata are split across `<name>.0`, `<name>.1`, ...
+const MAX_CHUNK_LENGTH = 3180;
+const BASE64_PREFIX = 'base64-';
+
+// Sessions only live as long as the process, e.g. for tests or one-off scripts.
+export function createMemorySessionStorage(): AuthSessionStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+async function readJsonFile(filePath: string): Promise<Record<string, string>> {
+  const fs = await import('node:fs/promises');
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as Record<string, string>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+// Node only: keeps sessions in a JSON file, so CLI tools stay signed in between runs. The file
+// holds refresh tokens and is created readable by the owner only. `node:fs` is loaded lazily so
+// browser bundles of the adapter never pull it in.
+export function createFileSessionStorage(filePath: string): AuthSessionStorage {
+  // Writes are serialized so concurrent updates cannot drop each other's keys.
+  let queue: Promise<unknown> = Promise.resolve();
+  const update = (change: (items: Record<string, string>) => void): Promise<void> => {
+    const next = queue.then(async () => {
+      const items = await readJsonFile(filePath);
+      change(items);
+      const fs = await import('node:fs/promises');
+      const path = await import('node:path');
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(items, null, 2), { mode: 0o600 });
+    });
+    queue = next.catch(() => {});
+    return next;
+  };
+  return {
+    getItem: async (key) => {
+      await queue;
+      return (await readJsonFile(filePath))[key] ?? null;
+    },
+    setItem: (key, value) =>
+      update((items) => {
+        items[key] = value;
+      }),
+    removeItem: (key) =>
+      update((items) => {
+        delete items[key];
+      }),
+  };
+}
+
+// base64url of the UTF-8 bytes, using `btoa`/`atob` rather than `Buffer` so browsers can run it.
+function encodeCookieValue(value: string): string {
+  const binary = Array.from(new TextEncoder().encode(value), (b) => String.fromCharCode(b)).join(
+    '',
+  );
+  const base64 = btoa(binary).replaceAll('+', '-').replaceAll('/', '_').replace(/=+$/, '');
+  return BASE64_PREFIX + base64;
+}
+
+function decodeCookieValue(value: string): string {
+  if (!value.startsWith(BASE64_PREFIX)) return value;
+  const base64 = value.slice(BASE64_PREFIX.length).replaceAll('-', '+').replaceAll('_', '/');
+  const binary = atob(base64);
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+// Keeps sessions in cookies through `cookies`, for server-rendered apps where each request
+// carries its own session. Values are base64-encoded and split into chunks when too large.
+export function createCookieSessionStorage(
+  cookies: CookieAdapter,
+  options: CookieOptions = {},
+): AuthSessionStorage {
+  const cookieOptions = { ...DEFAULT_COOKIE_OPTIONS, ...options };
+
+  async function chunkNames(key: string): Promise<string[]> {
+    const names: string[] = [];
+    for (let i = 0; (await cookies.get(`${key}.${i}`)) != null; i++) names.push(`${key}.${i}`);
+    return names;
+  }
+
+  async function remove(names: string[]): Promise<void> {
+    for (const name of names) await cookies.remove(name, { ...cookieOptions, maxAge: 0 });
+  }
+
+  return {
+    async getItem(key) {
+      const whole = await cookies.get(key);
+      if (whole != null) return decodeCookieValue(whole);
+      const names = await chunkNames(key);
+      if (names.length === 0) return null;
+      const chunks = await Promise.all(names.map(async (name) => (await cookies.get(name)) ?? ''));
+      return decodeCookieValue(chunks.join(''));
+    },
+    async setItem(key, value) {
+      const encoded = encodeCookieValue(value);
+      const existing = await chunkNames(key);
+      if (encoded.length <= MAX_CHUNK_LENGTH) {
+        await cookies.set(key, encoded, cookieOptions);
+        await remove(existing);
+        return;
+      }
+      const count = Math.ceil(encoded.length / MAX_CHUNK_LENGTH);
+      for (let i = 0; i < count; i++) {
+        const chunk = encoded.slice(i * MAX_CHUNK_LENGTH, (i + 1) * MAX_CHUNK_LENGTH);
+        await cookies.set(`${key}.${i}`, chunk, cookieOptions);
+      }
+      await remove([...existing.slice(count), ...((await cookies.get(key)) != null ? [key] : [])]);
+    },
+    async removeItem(key) {
+      const whole = (await cookies.get(key)) != null ? [key] : [];
+      await remove([...whole, ...(await chunkNames(key))]);
+    },
+  };
+}
+
+// Parses a `Cookie` request header into name/value pairs.
+export function parseCookieHeader(header: string | null | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? '').split(';')) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const name = part.slice(0, eq).trim();
+    const raw = part.slice(eq + 1).trim();
+    if (!name || name in cookies) continue;
+    try {
+      cookies[name] = decodeURIComponent(raw);
+    } catch {
+      cookies[name] = raw;
+    }
+  }
+  return cookies;
+}
+
+// Builds a `Set-Cookie` header value.
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+  if (options.path) parts.push(`Path=${options.path}`);
+  if (options.domain) parts.push(`Domain=${options.domain}`);
+  if (options.maxAge !== undefined) parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  if (options.expires) parts.push(`Expires=${options.expires.toUTCString()}`);
+  if (options.httpOnly) parts.push('HttpOnly');
+  if (options.secure) parts.push('Secure');
+  if (options.sameSite) {
+    parts.push(`SameSite=${options.sameSite[0]!.toUpperCase()}${options.sameSite.slice(1)}`);
+  }
+  return parts.join('; ');
+}
+
+// Cookies of one request: reads see the request's cookies plus anything written since, and
+// writes are collected as `Set-Cookie` headers for the response.
+export function createRequestCookies(
+  cookieHeader: string | null | undefined,
+  headers: Headers,
+): CookieAdapter {
+  const current = new Map(Object.entries(parseCookieHeader(cookieHeader)));
+  return {
+    get: (name) => current.get(name),
+    set(name, value, options) {
+      current.set(name, value);
+      headers.append('Set-Cookie', serializeCookie(name, value, options));
+    },
+    remove(name, options) {
+      current.delete(name);
+      headers.append('Set-Cookie', serializeCookie(name, '', { ...options, maxAge: 0 }));
+    },
+  };
+}
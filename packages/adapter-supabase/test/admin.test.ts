@@ -0,0 +1,22 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { createSupabaseAdminBackend, createSupabaseAdminBackendFromEnv } from '../src/index.js';
+
+const options = { url: 'http://127.0.0.1:54321', serviceRoleKey: 'service-role-key' };
+
+describe('createSupabaseAdminBackend', () => {
+  afterEach(() => {
+    delete (globalThis as any).window;
+  });
+
+  it('refuses to run in a browser', () => {
+    (globalThis as any).window = { document: {} };
+    expect(() => createSupabaseAdminBackend(options)).toThrow(/browser/);
+  });
+
+  it('requires the service-role key in the environment', () => {
+    expect(() => createSupabaseAdminBackendFromEnv({ SUPABASE_URL: options.url })).toThrow(
+      /SUPABASE_SERVICE_ROLE_KEY/,
+    );
+  });
+});
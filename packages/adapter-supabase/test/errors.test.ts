@@ -0,0 +1,58 @@
+import {
+  BackendError,
+  ConflictError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  UnauthorizedError,
+  ValidationError,
+} from '@base44-to-supabase/adapter';
+import { describe, expect, it } from 'vitest';
+
+import { toBackendError } from '../src/errors.js';
+
+describe('toBackendError', () => {
+  it('maps Postgres and PostgREST codes', () => {
+    const unique = { code: '23505', message: 'duplicate key value', details: '', hint: '' };
+    const err = toBackendError(unique, { entity: 'todos', status: 409 });
+    expect(err).toBeInstanceOf(ConflictError);
+    expect(err.code).toBe('conflict');
+    expect(err.entity).toBe('todos');
+    expect(err.status).toBe(409);
+    expect(err.cause).toBe(unique);
+
+    expect(toBackendError({ code: '42501', message: 'rls' })).toBeInstanceOf(ForbiddenError);
+    expect(toBackendError({ code: 'PGRST116', message: 'no rows' })).toBeInstanceOf(NotFoundError);
+    expect(toBackendError({ code: '23502', message: 'null value' })).toBeInstanceOf(
+      ValidationError,
+    );
+  });
+
+  it('maps GoTrue and Storage errors', () => {
+    expect(
+      toBackendError({ name: 'AuthApiError', code: 'invalid_credentials', status: 400 }),
+    ).toBeInstanceOf(UnauthorizedError);
+    expect(
+      toBackendError({ name: 'AuthApiError', code: 'over_request_rate_limit', status: 429 }),
+    ).toBeInstanceOf(RateLimitedError);
+
+    const missing = toBackendError(
+      { name: 'StorageApiError', message: 'Object not found', status: 400, statusCode: '404' },
+      { bucket: 'files' },
+    );
+    expect(missing).toBeInstanceOf(NotFoundError);
+    expect(missing.bucket).toBe('files');
+  });
+
+  it('falls back to HTTP status, then network detection, then a generic error', () => {
+    expect(toBackendError({ message: 'nope' }, { status: 401 })).toBeInstanceOf(UnauthorizedError);
+    expect(
+      toBackendError({ message: 'TypeError: fetch failed', code: '' }, { status: 0 }),
+    ).toBeInstanceOf(NetworkError);
+
+    const unknown = toBackendError({ message: 'boom' }, { status: 500 });
+    expect(unknown).toBeInstanceOf(BackendError);
+    expect(unknown.code).toBe('unknown');
+  });
+});
@@ -0,0 +1,117 @@
+import { ValidationError } from '@base44-to-supabase/adapter';
+import { describe, expect, it } from 'vitest';
+
+import { keysetCondition, logicTreeCondition, selectWithIncludes } from '../src/postgrest.js';
+
+describe('logicTreeCondition', () => {
+  it('renders nested and/or/not groups', () => {
+    expect(
+      logicTreeCondition({
+        or: [
+          { field: 'status', op: 'eq', value: 'open' },
+          {
+            and: [
+              { field: 'assignee', op: 'eq', value: 'me' },
+              { not: { field: 'priority', op: 'in', value: [1, 2] } },
+            ],
+          },
+        ],
+      }),
+    ).toBe('or(status.eq."open",and(assignee.eq."me",priority.not.in.("1","2")))');
+  });
+
+  it('negates groups and cancels double negation', () => {
+    expect(
+      logicTreeCondition({
+        not: {
+          or: [
+            { field: 'archived', op: 'is', value: true },
+            { field: 'tags', op: 'contains', value: ['spam'] },
+          ],
+        },
+      }),
+    ).toBe('not.or(archived.is.true,tags.cs.{"spam"})');
+    expect(logicTreeCondition({ not: { not: { field: 'a', op: 'gt', value: 1 } } })).toBe(
+      'a.gt."1"',
+    );
+  });
+
+  it('escapes reserved characters in values', () => {
+    expect(logicTreeCondition({ field: 'title', op: 'ilike', value: '%a,b (c) "d"\\%' })).toBe(
+      'title.ilike."%a,b (c) \\"d\\"\\\\%"',
+    );
+  });
+
+  it('renders text search, overlap and range operators', () => {
+    expect(
+      logicTreeCondition({
+        or: [
+          {
+            field: 'fts',
+            op: 'textSearch',
+            value: 'cat & dog',
+            search: { config: 'english', type: 'websearch' },
+          },
+          { field: 'body', op: 'textSearch', value: 'cat' },
+          { field: 'tags', op: 'overlaps', value: ['a', 'b'] },
+          { not: { field: 'during', op: 'rangeAdjacent', value: '[1,5)' } },
+        ],
+      }),
+    ).toBe(
+      'or(fts.wfts(english)."cat & dog",body.fts."cat",tags.ov.{"a","b"},during.not.adj."[1,5)")',
+    );
+  });
+
+  it('rejects empty groups', () => {
+    expect(() => logicTreeCondition({ or: [] })).toThrow(ValidationError);
+  });
+});
+
+describe('keysetCondition', () => {
+  it('expands row comparisons per order direction', () => {
+    expect(
+      keysetCondition(
+        [
+          { field: 'rank', ascending: false },
+          { field: 'id', ascending: true },
+        ],
+        [3, 'e1'],
+        true,
+      ),
+    ).toBe('rank.lt."3",and(rank.eq."3",or(id.gt."e1",id.is.null))');
+  });
+
+  it('orders nulls last when ascending and first when descending', () => {
+    const order = [
+      { field: 'rank', ascending: true },
+      { field: 'id', ascending: true },
+    ];
+    // After a null rank only rows with a null rank and a later id remain.
+    expect(keysetCondition(order, [null, 'e1'], true)).toBe(
+      'and(rank.is.null,or(id.gt."e1",id.is.null))',
+    );
+    // Backwards, every non-null rank comes before the null ones.
+    expect(keysetCondition(order, [null, 'e1'], false)).toBe(
+      'rank.not.is.null,and(rank.is.null,id.lt."e1")',
+    );
+    expect(keysetCondition([{ field: 'rank', ascending: false }], [null], true)).toBe(
+      'rank.not.is.null',
+    );
+    expect(keysetCondition([{ field: 'rank' }], [null], true)).toBe(
+      'and(rank.is.null,rank.not.is.null)',
+    );
+  });
+});
+
+describe('selectWithIncludes', () => {
+  it('renders aliased, inner and nested embeds', () => {
+    expect(
+      selectWithIncludes('id,title', {
+        project: true,
+        owner: { entity: 'users', select: ['id', 'email'] },
+        comments: { required: true, include: { author: { entity: 'users' } } },
+      }),
+    ).toBe('id,title,project(*),owner:users(id,email),comments!inner(*,author:users(*))');
+    expect(selectWithIncludes('*', undefined)).toBe('*');
+  });
+});
@@ -0,0 +1,121 @@
+import { ValidationError, type RealtimeChange } from '@base44-to-supabase/adapter';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it, vi } from 'vitest';
+
+import { createSupabaseRealtime, toRealtimeFilter } from '../src/realtime.js';
+
+type Binding = { filter: Record<string, unknown>; callback: (payload: unknown) => void };
+
+// A client whose channels record their postgres_changes bindings instead of connecting.
+function stubClient() {
+  const bindings: Binding[] = [];
+  const channel = {
+    on: vi.fn((_type: string, filter: Record<string, unknown>, callback: Binding['callback']) => {
+      bindings.push({ filter, callback });
+      return channel;
+    }),
+    subscribe: vi.fn(() => channel),
+  };
+  const client = {
+    channel: vi.fn(() => channel),
+    removeChannel: vi.fn(() => Promise.resolve('ok')),
+  };
+  return {
+    client,
+    channel,
+    bindings,
+    realtime: createSupabaseRealtime(client as unknown as SupabaseClient),
+  };
+}
+
+describe('toRealtimeFilter', () => {
+  it('translates supported operators', () => {
+    expect(toRealtimeFilter({ field: 'status', op: 'eq', value: 'open' })).toBe('status=eq.open');
+    expect(toRealtimeFilter({ field: 'rank', op: 'gte', value: 3 })).toBe('rank=gte.3');
+    expect(toRealtimeFilter({ field: 'done', op: 'neq', value: true })).toBe('done=neq.true');
+    expect(toRealtimeFilter({ field: 'id', op: 'in', value: ['a', 'b', 1] })).toBe('id=in.(a,b,1)');
+    expect(toRealtimeFilter({ field: 'title', op: 'eq', value: 'a, b (c)' })).toBe(
+      'title=eq.a, b (c)',
+    );
+  });
+
+  it('rejects operators and values Realtime cannot express', () => {
+    expect(() => toRealtimeFilter({ field: 'title', op: 'ilike', value: '%a%' })).toThrow(
+      ValidationError,
+    );
+    expect(() => toRealtimeFilter({ field: 'tag', op: 'in', value: ['a,b'] })).toThrow(
+      ValidationError,
+    );
+    expect(() => toRealtimeFilter({ field: 'tag', op: 'in', value: ['(a)'] })).toThrow(
+      ValidationError,
+    );
+    expect(() => toRealtimeFilter({ field: 'tag', op: 'in', value: ['"a"'] })).toThrow(
+      ValidationError,
+    );
+    expect(() => toRealtimeFilter({ field: 'tag', op: 'in', value: 'a,b' })).toThrow(
+      ValidationError,
+    );
+    expect(() => toRealtimeFilter({ field: 'owner', op: 'eq', value: null })).toThrow(
+      ValidationError,
+    );
+    expect(() => toRealtimeFilter({ field: 'meta', op: 'eq', value: { a: 1 } })).toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe('createSupabaseRealtime', () => {
+  it('binds one postgres_changes listener per event', () => {
+    const { client, channel, bindings, realtime } = stubClient();
+    const subscription = realtime.subscribe('todos', () => {}, {
+      events: ['insert', 'delete'],
+      filter: { field: 'owner', op: 'eq', value: 'u1' },
+    });
+
+    expect(bindings.map((b) => b.filter)).toEqual([
+      { event: 'INSERT', schema: 'public', table: 'todos', filter: 'owner=eq.u1' },
+      { event: 'DELETE', schema: 'public', table: 'todos', filter: 'owner=eq.u1' },
+    ]);
+    expect(channel.subscribe).toHaveBeenCalledTimes(1);
+
+    realtime.subscribe('todos', () => {});
+    expect(bindings.at(-1)?.filter).toMatchObject({ event: '*', filter: undefined });
+    expect(client.channel.mock.calls.map((c: unknown[]) => c[0])).toEqual([
+      'base44-to-supabase:todos:1',
+      'base44-to-supabase:todos:2',
+    ]);
+
+    subscription.unsubscribe();
+    expect(client.removeChannel).toHaveBeenCalledWith(channel);
+  });
+
+  it('maps payloads, turning empty rows into null', () => {
+    const { bindings, realtime } = stubClient();
+    const changes: RealtimeChange[] = [];
+    realtime.subscribe('todos', (change) => changes.push(change));
+    const base = { schema: 'public', table: 'todos', errors: [] };
+    const send = (payload: Record<string, unknown>) =>
+      bindings[0]!.callback({ ...base, ...payload });
+
+    send({ eventType: 'INSERT', new: { id: 1 }, old: {}, commit_timestamp: 't1' });
+    send({
+      eventType: 'UPDATE',
+      new: { id: 1, done: true },
+      old: { id: 1 },
+      commit_timestamp: 't2',
+    });
+    send({ eventType: 'DELETE', new: {}, old: { id: 1 }, commit_timestamp: 't3' });
+
+    expect(changes).toEqual([
+      { entity: 'todos', event: 'insert', new: { id: 1 }, old: null, commitTimestamp: 't1' },
+      {
+        entity: 'todos',
+        event: 'update',
+        new: { id: 1, done: true },
+        old: { id: 1 },
+        commitTimestamp: 't2',
+      },
+      { entity: 'todos', event: 'delete', new: null, old: { id: 1 }, commitTimestamp: 't3' },
+    ]);
+  });
+});
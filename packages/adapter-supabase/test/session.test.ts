@@ -0,0 +1,144 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  createCookieSessionStorage,
+  createFileSessionStorage,
+  createMemorySessionStorage,
+  createRequestCookies,
+  createSupabaseBackend,
+  createSupabaseRequestBackend,
+  parseCookieHeader,
+} from '../src/index.js';
+
+const url = 'http://127.0.0.1:54321';
+// supabase-js' default storage key: `sb-<first label of the host>-auth-token`.
+const STORAGE_KEY = 'sb-127-auth-token';
+
+function session(accessToken: string, expiresAt: number) {
+  return {
+    access_token: accessToken,
+    refresh_token: `refresh-${accessToken}`,
+    token_type: 'bearer',
+    expires_in: 3600,
+    expires_at: expiresAt,
+    user: { id: 'user-1', email: 'ada@example.com', aud: 'authenticated' },
+  };
+}
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('session storage', () => {
+  it('keeps file sessions between instances, readable by the owner only', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'session-')), 'auth', 's.json');
+    const storage = createFileSessionStorage(file);
+    await Promise.all([storage.setItem('a', '1'), storage.setItem('b', '2')]);
+    await storage.removeItem('a');
+
+    const reopened = createFileSessionStorage(file);
+    expect(await reopened.getItem('a')).toBeNull();
+    expect(await reopened.getItem('b')).toBe('2');
+    if (process.platform !== 'win32') expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('splits large cookie values into chunks and cleans them up', async () => {
+    const headers = new Headers();
+    const cookies = createRequestCookies(null, headers);
+    const storage = createCookieSessionStorage(cookies);
+    const large = 'x'.repeat(5000);
+
+    await storage.setItem('token', large);
+    expect(await cookies.get('token')).toBeUndefined();
+    expect(await cookies.get('token.1')).toBeTruthy();
+    expect(await storage.getItem('token')).toBe(large);
+
+    await storage.setItem('token', 'small');
+    expect(await cookies.get('token.0')).toBeUndefined();
+    expect(await storage.getItem('token')).toBe('small');
+
+    await storage.removeItem('token');
+    expect(await storage.getItem('token')).toBeNull();
+    const cleared = headers.getSetCookie().filter((c) => c.includes('Max-Age=0'));
+    expect(cleared.map((c) => c.split('=')[0])).toEqual(['token.0', 'token.1', 'token.2', 'token']);
+
+    await storage.setItem('name', 'Zoë ✓');
+    expect(await cookies.get('name')).toBe('base64-Wm_DqyDinJM');
+    expect(await storage.getItem('name')).toBe('Zoë ✓');
+  });
+
+  it('parses cookie headers', () => {
+    expect(parseCookieHeader('a=1; b=x%20y; a=2; broken; c=%E0')).toEqual({
+      a: '1',
+      b: 'x y',
+      c: '%E0',
+    });
+  });
+});
+
+describe('createSupabaseBackend sessions', () => {
+  beforeEach(() => {
+    // supabase-js creates its realtime client eagerly and needs a WebSocket (native from Node 22).
+    vi.stubGlobal('WebSocket', class {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('restores the session from the configured storage', async () => {
+    const sessionStorage = createMemorySessionStorage();
+    await sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session('stored', inAnHour())));
+    const backend = createSupabaseBackend({
+      url,
+      anonKey: 'anon-key',
+      sessionStorage,
+      autoRefresh: false,
+    });
+
+    expect(await backend.auth.getSession()).toMatchObject({
+      accessToken: 'stored',
+      user: { id: 'user-1' },
+    });
+  });
+
+  it('reads the session from request cookies and writes refreshed tokens back', async () => {
+    const expired = session('old', Math.floor(Date.now() / 1000) - 60);
+    const request = new Request('http://app.test/', {
+      headers: { cookie: `${STORAGE_KEY}=${JSON.stringify(expired)}` },
+    });
+    const fetchMock = vi.fn<(input: string) => Promise<Response>>(() =>
+      Promise.resolve(
+        new Response(JSON.stringify(session('new', inAnHour())), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        }),
+      ),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { backend, headers } = createSupabaseRequestBackend(request, {
+      url,
+      anonKey: 'anon-key',
+      cookieOptions: { secure: true },
+    });
+
+    expect(await backend.auth.getSession()).toMatchObject({ accessToken: 'new' });
+    expect(String(fetchMock.mock.calls[0]?.[0])).toContain('grant_type=refresh_token');
+    const [cookie] = headers.getSetCookie();
+    expect(cookie).toMatch(new RegExp(`^${STORAGE_KEY}=base64-`));
+    expect(cookie).toContain('Secure');
+
+    const value = parseCookieHeader(cookie!.split(';')[0])[STORAGE_KEY]!;
+    const stored = createCookieSessionStorage({
+      get: (name) => (name === STORAGE_KEY ? value : undefined),
+      set: () => {},
+      remove: () => {},
+    });
+    expect(JSON.parse((await stored.getItem(STORAGE_KEY))!)).toMatchObject({
+      access_token: 'new',
+    });
+  });
+});
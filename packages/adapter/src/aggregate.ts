@@ -0,0 +1,102 @@
+import type {
+  BackendData,
+  DataAggregate,
+  DataAggregateOptions,
+  DataCountOptions,
+  DataRecord,
+} from './index.js';
+
+export function aggregateAlias(aggregate: DataAggregate): string {
+  if (aggregate.as) return aggregate.as;
+  return aggregate.field ? `${aggregate.fn}_${aggregate.field}` : aggregate.fn;
+}
+
+export function normalizeGroupBy(groupBy?: DataAggregateOptions['groupBy']): string[] {
+  if (!groupBy) return [];
+  return Array.isArray(groupBy) ? groupBy : [groupBy];
+}
+
+function computeAggregate(rows: DataRecord[], aggregate: DataAggregate): unknown {
+  if (aggregate.fn === 'count' && !aggregate.field) return rows.length;
+
+  const values = rows.map((r) => r[aggregate.field!]).filter((v) => v !== null && v !== undefined);
+
+  switch (aggregate.fn) {
+    case 'count':
+      return values.length;
+    case 'sum':
+      return values.length ? values.reduce<number>((acc, v) => acc + Number(v), 0) : null;
+    case 'avg':
+      return values.length
+        ? values.reduce<number>((acc, v) => acc + Number(v), 0) / values.length
+        : null;
+    case 'min':
+    case 'max': {
+      let best: unknown = null;
+      for (const v of values) {
+        if (best === null) best = v;
+        else if (aggregate.fn === 'min' ? (v as any) < (best as any) : (v as any) > (best as any))
+          best = v;
+      }
+      return best;
+    }
+    default:
+      return null;
+  }
+}
+
+// Computes aggregates client-side with SQL semantics: nulls are ignored, and `sum`/`avg`/`min`/
+// `max` over no values are null. Without `groupBy` a single row is returned.
+export function aggregateRecords(
+  rows: DataRecord[],
+  options: Pick<DataAggregateOptions, 'aggregates' | 'groupBy'>,
+): Array<Record<string, unknown>> {
+  const groupBy = normalizeGroupBy(options.groupBy);
+  const groups = new Map<string, DataRecord[]>();
+  for (const row of rows) {
+    const key = JSON.stringify(groupBy.map((g) => row[g] ?? null));
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+  if (groupBy.length === 0 && groups.size === 0) groups.set('[]', []);
+
+  return [...groups.values()].map((group) => {
+    const out: Record<string, unknown> = {};
+    for (const g of groupBy) out[g] = group[0]?.[g] ?? null;
+    for (const a of options.aggregates) out[aggregateAlias(a)] = computeAggregate(group, a);
+    return out;
+  });
+}
+
+// Fallbacks for adapters without server-side counting or aggregation. They read only the
+// columns they need, but still transfer every matching row.
+export async function fallbackCount(
+  data: BackendData,
+  entity: string,
+  options?: DataCountOptions,
+): Promise<number> {
+  const rows = await data.read(entity, {
+    filter: options?.filter,
+    filters: options?.filters,
+    select: 'id',
+    includeDeleted: options?.includeDeleted,
+  });
+  return Array.isArray(rows) ? rows.length : 0;
+}
+
+export async function fallbackAggregate(
+  data: BackendData,
+  entity: string,
+  options: DataAggregateOptions,
+): Promise<Array<Record<string, unknown>>> {
+  const columns = new Set(normalizeGroupBy(options.groupBy));
+  for (const a of options.aggregates) if (a.field) columns.add(a.field);
+  const rows = await data.read(entity, {
+    filter: options.filter,
+    filters: options.filters,
+    select: columns.size ? [...columns] : 'id',
+    includeDeleted: options.includeDeleted,
+  });
+  return aggregateRecords(Array.isArray(rows) ? rows : [], options);
+}
@@ -0,0 +1,202 @@
+import type { BackendAuth, BackendData, DataFilterNode, DataRecord, Id } from './index.js';
+import { withMiddleware, type BackendMiddleware } from './middleware.js';
+
+export type AuditOperation = 'create' | 'update' | 'upsert' | 'delete' | 'restore' | 'purge';
+
+// Changed fields only. A field missing on one side is `null` there.
+export type AuditDiff = Record<string, { old: unknown; new: unknown }>;
+
+export type AuditEntry = {
+  entity: string;
+  recordId: Id | null;
+  operation: AuditOperation;
+  // Id of the signed-in user (see `AuditOptions.actor`).
+  actor: string | null;
+  diff: AuditDiff;
+  // ISO timestamp of the mutation.
+  at: string;
+};
+
+export type AuditSink = (entries: AuditEntry[]) => Promise<void> | void;
+
+export type AuditOptions = {
+  sink: AuditSink;
+  // Only these entities are audited. Defaults to all.
+  entities?: string[];
+  // Resolves the actor of each mutation. Defaults to the user of `auth.getUser()`, which the auth
+  // server verifies (a stored session alone could be forged). Servers acting for a request's user
+  // can pass it from the request context instead.
+  actor?: () => string | null | Promise<string | null>;
+  // Called instead of failing the mutation when the sink throws (the mutation is already applied)
+  // or the actor cannot be resolved (the entries are recorded with a null actor).
+  onError?: (error: unknown, entries: AuditEntry[]) => void;
+  now?: () => Date;
+};
+
+// The table created by `init-supabase --audit-log`.
+export const DEFAULT_AUDIT_TABLE = 'audit_log';
+
+const AUDITED_METHODS = new Set([
+  'create',
+  'createMany',
+  'upsert',
+  'update',
+  'updateWhere',
+  'delete',
+  'deleteWhere',
+  'restore',
+  'purge',
+]);
+
+export function auditDiff(before: DataRecord | null, after: DataRecord | null): AuditDiff {
+  const diff: AuditDiff = {};
+  for (const key of new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])) {
+    const old = before?.[key] ?? null;
+    const value = after?.[key] ?? null;
+    if (JSON.stringify(old) !== JSON.stringify(value)) diff[key] = { old, new: value };
+  }
+  return diff;
+}
+
+// Appends entries to an audit table through `data`, which must not itself be audited.
+export function auditTableSink(data: BackendData, table: string = DEFAULT_AUDIT_TABLE): AuditSink {
+  return async (entries) => {
+    await data.createMany(
+      table,
+      entries.map((entry) => ({
+        entity: entry.entity,
+        record_id: entry.recordId === null ? null : String(entry.recordId),
+        operation: entry.operation,
+        actor: entry.actor,
+        diff: entry.diff,
+        created_at: entry.at,
+      })),
+    );
+  };
+}
+
+// Node only: appends one JSON line per entry. `node:fs` is loaded lazily so browser bundles of the
+// adapter never pull it in.
+export function auditFileSink(filePath: string): AuditSink {
+  return async (entries) => {
+    const fs = await import('node:fs/promises');
+    const path = await import('node:path');
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, entries.map((e) => `${JSON.stringify(e)}\n`).join(''), 'utf8');
+  };
+}
+
+type AuditedBackend = { data: BackendData; auth?: BackendAuth };
+
+function auditMiddleware(backend: AuditedBackend, options: AuditOptions): BackendMiddleware {
+  const now = options.now ?? (() => new Date());
+  const resolveActor = options.actor ?? (async () => (await backend.auth?.getUser())?.id ?? null);
+
+  return async (operation, next) => {
+    const entity = operation.entity;
+    if (operation.domain !== 'data' || !entity || !AUDITED_METHODS.has(operation.method)) {
+      return next();
+    }
+    if (options.entities && !options.entities.includes(entity)) return next();
+    const args = operation.args;
+    const method = operation.method;
+
+    // Rows as they were before the mutation, read straight from the wrapped backend. Deletes only
+    // see live rows, since already soft-deleted ones are left alone.
+    const readById = async (includeDeleted: boolean): Promise<DataRecord[]> => {
+      const row = await backend.data.read(entity, { id: args[1] as Id, includeDeleted });
+      return row ? [row as DataRecord] : [];
+    };
+    const readWhere = async (includeDeleted: boolean): Promise<DataRecord[]> =>
+      (await backend.data.read(entity, {
+        filters: args[1] as DataFilterNode[],
+        includeDeleted,
+      })) as DataRecord[];
+
+    // Resolved before the mutation, so without `onError` a failed lookup rejects the call before
+    // anything is written.
+    let actor: string | null = null;
+    let actorError: { error: unknown } | null = null;
+    try {
+      actor = await resolveActor();
+    } catch (error) {
+      if (!options.onError) throw error;
+      actorError = { error };
+    }
+
+    let before: DataRecord[] = [];
+    if (method === 'update' || method === 'restore' || method === 'purge') {
+      before = await readById(true);
+    } else if (method === 'delete') {
+      before = await readById(false);
+    } else if (method === 'updateWhere') {
+      before = await readWhere(true);
+    } else if (method === 'deleteWhere') {
+      before = await readWhere(false);
+    }
+
+    const result = await next();
+    const at = now().toISOString();
+    const entry = (
+      auditOperation: AuditOperation,
+      old: DataRecord | null,
+      row: DataRecord | null,
+    ): AuditEntry => ({
+      entity,
+      recordId: ((row ?? old)?.id as Id | undefined) ?? null,
+      operation: auditOperation,
+      actor,
+      diff: auditDiff(old, row),
+      at,
+    });
+
+    let entries: AuditEntry[];
+    switch (method) {
+      case 'create':
+        entries = [entry('create', null, result as DataRecord)];
+        break;
+      case 'createMany':
+        entries = (result as DataRecord[]).map((row) => entry('create', null, row));
+        break;
+      case 'upsert': {
+        const rows = Array.isArray(result) ? (result as DataRecord[]) : [result as DataRecord];
+        entries = rows.map((row) => entry('upsert', null, row));
+        break;
+      }
+      case 'update':
+        entries = before.map((old) => entry('update', old, result as DataRecord));
+        break;
+      case 'updateWhere': {
+        const after = new Map((result as DataRecord[]).map((row) => [row.id, row]));
+        entries = before.map((old) => entry('update', old, after.get(old.id) ?? old));
+        break;
+      }
+      case 'restore': {
+        const after = before.length ? await readById(true) : [];
+        entries = before.map((old) => entry('restore', old, after[0] ?? old));
+        break;
+      }
+      default:
+        entries = before.map((old) => entry(method === 'purge' ? 'purge' : 'delete', old, null));
+    }
+
+    if (actorError && entries.length) options.onError?.(actorError.error, entries);
+    if (entries.length) {
+      try {
+        await options.sink(entries);
+      } catch (error) {
+        if (!options.onError) throw error;
+        options.onError(error, entries);
+      }
+    }
+    return result;
+  };
+}
+
+// Records every data mutation made through the returned backend: entity, record id, operation,
+// actor, changed fields and time. Updates and deletes read the affected rows first to compute the
+// diff, which costs one extra read per call. Writes made elsewhere are not seen; use the trigger
+// from `init-supabase --audit-log trigger` to audit in the database instead.
+export function withAudit<B extends AuditedBackend>(backend: B, options: AuditOptions): B {
+  return withMiddleware(backend, [auditMiddleware(backend, options)]);
+}
@@ -0,0 +1,244 @@
+import { includeOptions } from './include.js';
+import type { DataInclude, DataReadOptions, DataRelations } from './index.js';
+import { withMiddleware, type BackendMiddleware } from './middleware.js';
+
+// Storage for cached reads. Methods may be sync or async so remote stores can be plugged in.
+// Values are stored as given; the cache copies them on the way in and out.
+export interface CacheStore {
+  // Resolves to undefined on a miss.
+  get(key: string): unknown;
+  set(key: string, value: unknown, ttlMs: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+export type LruCacheStoreOptions = {
+  // Least recently used entries are evicted beyond this size. Defaults to 500.
+  maxEntries?: number;
+  now?: () => number;
+  // Called with each key dropped because it expired or the store was full.
+  onEvict?: (key: string) => void;
+};
+
+export type ReadCacheOptions = {
+  // Defaults to an in-memory LRU store.
+  store?: CacheStore;
+  // Defaults to 30s.
+  ttlMs?: number;
+  // Only cache these entities (with an optional per-entity TTL). Defaults to every entity.
+  entities?: string[] | Record<string, { ttlMs?: number }>;
+  // The backend's relations, for adapters that resolve `include` client-side. Reads with
+  // `include` are invalidated by writes to the included entities; without a relation (or an
+  // `entity` on the include), the relation name is taken as the entity, as PostgREST does.
+  relations?: DataRelations;
+};
+
+export type ReadCache = {
+  middleware: BackendMiddleware;
+  // Drops cached reads for one entity, or for every entity when omitted.
+  invalidate(entity?: string): Promise<void>;
+};
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_TTL_MS = 30_000;
+
+// Data methods that change rows; any of them invalidates the entity's cached reads.
+const WRITE_METHODS = new Set([
+  'create',
+  'update',
+  'upsert',
+  'delete',
+  'createMany',
+  'updateWhere',
+  'deleteWhere',
+  'restore',
+  'purge',
+]);
+
+export function createLruCacheStore(options: LruCacheStoreOptions = {}): CacheStore {
+  const maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= now()) {
+        options.onEvict?.(key);
+        return undefined;
+      }
+      // Re-inserting moves the key to the most recently used end of the map.
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+        options.onEvict?.(oldest);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Equivalent options produce the same key: a single `orderBy` equals a one-element array, and
+// the order of `filters` and of `filter` keys does not matter.
+function readCacheKey(entity: string, options: DataReadOptions | undefined): string {
+  const normalized = {
+    ...options,
+    orderBy: options?.orderBy
+      ? Array.isArray(options.orderBy)
+        ? options.orderBy
+        : [options.orderBy]
+      : undefined,
+    filters: options?.filters?.map(stableStringify).sort(),
+  };
+  return `read:${entity}:${stableStringify(normalized)}`;
+}
+
+// The entity a read returns rows of, plus the entities of every (nested) included relation.
+function readEntities(
+  entity: string,
+  include: DataInclude | undefined,
+  relations: DataRelations,
+): string[] {
+  const found = new Set([entity]);
+  const visit = (from: string, spec: DataInclude | undefined) => {
+    for (const [name, value] of Object.entries(spec ?? {})) {
+      const nested = includeOptions(value);
+      const target = nested.entity ?? relations[from]?.[name]?.entity ?? name;
+      found.add(target);
+      visit(target, nested.include);
+    }
+  };
+  visit(entity, include);
+  return [...found];
+}
+
+export function createReadCache(options: ReadCacheOptions = {}): ReadCache {
+  const store = options.store ?? createLruCacheStore({ onEvict: forget });
+  const entities = options.entities;
+  // Keys written per entity (including entities embedded through `include`), so invalidation can
+  // find them in any store.
+  const keysByEntity = new Map<string, Set<string>>();
+  // Every indexed key with its entities and expiry. Keys leave the index when the store evicts
+  // them, when a lookup misses or, for stores that cannot report evictions, once they expire.
+  const indexed = new Map<string, { entities: string[]; expiresAt: number }>();
+  // Bumped on every invalidation; a read that raced with a write is not cached.
+  const generations = new Map<string, number>();
+
+  function ttlFor(entity: string): number | null {
+    if (!entities) return options.ttlMs ?? DEFAULT_TTL_MS;
+    if (Array.isArray(entities)) {
+      return entities.includes(entity) ? (options.ttlMs ?? DEFAULT_TTL_MS) : null;
+    }
+    const config = entities[entity];
+    return config ? (config.ttlMs ?? options.ttlMs ?? DEFAULT_TTL_MS) : null;
+  }
+
+  function forget(key: string) {
+    const entry = indexed.get(key);
+    if (!entry) return;
+    indexed.delete(key);
+    for (const entity of entry.entities) {
+      const keys = keysByEntity.get(entity);
+      keys?.delete(key);
+      if (keys?.size === 0) keysByEntity.delete(entity);
+    }
+  }
+
+  function remember(key: string, involved: string[], ttlMs: number) {
+    const now = Date.now();
+    for (const [k, entry] of indexed) if (entry.expiresAt <= now) forget(k);
+    forget(key);
+    indexed.set(key, { entities: involved, expiresAt: now + ttlMs });
+    for (const e of involved) {
+      let keys = keysByEntity.get(e);
+      if (!keys) keysByEntity.set(e, (keys = new Set()));
+      keys.add(key);
+    }
+  }
+
+  async function invalidateEntity(entity: string) {
+    generations.set(entity, (generations.get(entity) ?? 0) + 1);
+    const keys = keysByEntity.get(entity);
+    if (!keys) return;
+    for (const key of [...keys]) {
+      forget(key);
+      await store.delete(key);
+    }
+  }
+
+  const middleware: BackendMiddleware = async (operation, next) => {
+    const entity = operation.entity;
+    if (operation.domain !== 'data' || !entity) return next();
+
+    if (WRITE_METHODS.has(operation.method)) {
+      try {
+        return await next();
+      } finally {
+        // Also on failure: a write may have been applied even if the response was lost.
+        await invalidateEntity(entity);
+      }
+    }
+
+    const ttlMs = operation.method === 'read' ? ttlFor(entity) : null;
+    if (ttlMs === null) return next();
+
+    const readOptions = operation.args[1] as DataReadOptions | undefined;
+    const key = readCacheKey(entity, readOptions);
+    const cached = await store.get(key);
+    if (cached !== undefined) return structuredClone(cached);
+    forget(key);
+
+    const involved = readEntities(entity, readOptions?.include, options.relations ?? {});
+    const generation = involved.map((e) => generations.get(e) ?? 0);
+    const result = await next();
+    if (involved.every((e, i) => (generations.get(e) ?? 0) === generation[i])) {
+      await store.set(key, structuredClone(result), ttlMs);
+      remember(key, involved, ttlMs);
+    }
+    return result;
+  };
+
+  return {
+    middleware,
+    async invalidate(entity) {
+      const targets = entity
+        ? [entity]
+        : [...new Set([...keysByEntity.keys(), ...generations.keys()])];
+      for (const target of targets) await invalidateEntity(target);
+    },
+  };
+}
+
+// Read-through cache for `data.read`. Writes through the wrapped backend invalidate the entity
+// and reads that include it; writes made elsewhere (other clients, SQL) are only picked up once
+// entries expire. Pass a `ReadCache` from `createReadCache` to keep a handle for manual
+// invalidation.
+export function withCache<B extends object>(
+  backend: B,
+  cache: ReadCache | ReadCacheOptions = {},
+): B {
+  const readCache = 'middleware' in cache ? cache : createReadCache(cache);
+  return withMiddleware(backend, [readCache.middleware]);
+}
@@ -0,0 +1,564 @@
+import {
+  BackendError,
+  ConflictError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from './errors.js';
+import type {
+  Backend,
+  DataFilterNode,
+  DataRecord,
+  DataRelations,
+  DataTextSearchOptions,
+} from './index.js';
+import { canonicalJson } from './recording.js';
+import type { SoftDeleteOptions } from './softDelete.js';
+
+// Test functions of the runner (vitest, jest, node:test); the suite itself has no dependency on
+// any of them.
+export type ConformanceTestApi = {
+  describe: (name: string, fn: () => void) => unknown;
+  it: (name: string, fn: () => Promise<void>) => unknown;
+};
+
+export type BackendConformanceOptions = ConformanceTestApi & {
+  // Domains the backend under test cannot serve, e.g. `storage` without a bucket.
+  skip?: Array<'auth' | 'data' | 'storage' | 'rpc'>;
+  // Bucket used by the storage checks. Defaults to `conformance`.
+  bucket?: string;
+};
+
+export const CONFORMANCE_ITEMS = 'conformance_items';
+export const CONFORMANCE_NOTES = 'conformance_notes';
+export const CONFORMANCE_RPC = 'conformance_echo';
+const CONFORMANCE_BUCKET = 'conformance';
+
+// Backends under test must be created with these relations (when they join client-side) and
+// soft-delete settings.
+export const CONFORMANCE_RELATIONS: DataRelations = {
+  [CONFORMANCE_ITEMS]: {
+    notes: { entity: CONFORMANCE_NOTES, kind: 'many', field: 'item_id' },
+  },
+  [CONFORMANCE_NOTES]: {
+    item: { entity: CONFORMANCE_ITEMS, kind: 'one', field: 'item_id' },
+  },
+};
+
+export const CONFORMANCE_SOFT_DELETE: SoftDeleteOptions = { entities: [CONFORMANCE_NOTES] };
+
+// Schema for running the suite against a Postgres-backed adapter (e.g. a local Supabase test
+// project). RLS stays off: never apply this to a production database.
+export const CONFORMANCE_SQL = `create table if not exists ${CONFORMANCE_ITEMS} (
+  id uuid primary key default gen_random_uuid(),
+  run text not null,
+  title text,
+  rank int,
+  tags text[] not null default '{}',
+  span int4range,
+  body text
+);
+create table if not exists ${CONFORMANCE_NOTES} (
+  id uuid primary key default gen_random_uuid(),
+  run text not null,
+  item_id uuid references ${CONFORMANCE_ITEMS} (id) on delete cascade,
+  text text,
+  deleted_at timestamptz
+);
+create or replace function ${CONFORMANCE_RPC}(value text) returns text
+language sql as $$ select value $$;
+insert into storage.buckets (id, name, public) values ('${CONFORMANCE_BUCKET}', '${CONFORMANCE_BUCKET}', true)
+on conflict (id) do nothing;
+`;
+
+type Factory = () => Backend | Promise<Backend>;
+type ItemRows = Record<'Alpha' | 'beta' | 'Gamma', DataRecord>;
+
+function fail(message: string): never {
+  throw new Error(`Backend conformance: ${message}`);
+}
+
+function expectEqual(actual: unknown, expected: unknown, what: string): void {
+  const [a, e] = [canonicalJson(actual), canonicalJson(expected)];
+  if (a !== e) fail(`${what}: expected ${e}, got ${a}`);
+}
+
+async function expectRejects(
+  promise: Promise<unknown>,
+  ErrorClass: new (...args: never[]) => Error,
+  what: string,
+): Promise<void> {
+  const error = await promise.then(
+    () => fail(`${what}: expected a ${ErrorClass.name}, but it resolved`),
+    (e: unknown) => e,
+  );
+  if (!(error instanceof ErrorClass)) {
+    fail(`${what}: expected a ${ErrorClass.name}, got ${String(error as string)}`);
+  }
+}
+
+function uniqueRun(): string {
+  return `run_${globalThis.crypto.randomUUID().slice(0, 8)}`;
+}
+
+function asRows(value: unknown): DataRecord[] {
+  if (!Array.isArray(value)) fail(`expected an array of rows, got ${canonicalJson(value)}`);
+  return value as DataRecord[];
+}
+
+function titles(rows: unknown): string[] {
+  return asRows(rows)
+    .map((row) => String(row.title as string))
+    .sort();
+}
+
+// Three items per run, chosen so every filter operator selects a different subset.
+async function seedItems(backend: Backend, run: string): Promise<ItemRows> {
+  const rows = await backend.data.createMany<DataRecord>(CONFORMANCE_ITEMS, [
+    { run, title: 'Alpha', rank: 1, tags: ['red', 'blue'], span: '[1,5)', body: 'The quick fox' },
+    { run, title: 'beta', rank: 2, tags: ['green'], span: '[5,10)', body: 'Lazy dogs sleep' },
+    { run, title: 'Gamma', rank: null, tags: [], span: '[20,30)', body: 'quick thinking' },
+  ]);
+  return Object.fromEntries(rows.map((row) => [row.title, row])) as ItemRows;
+}
+
+// Seeds a run, hands it to `check` and removes the run's rows afterwards, so the suite can share
+// a database with other runs.
+async function withItems(
+  factory: Factory,
+  check: (backend: Backend, items: ItemRows, run: string) => Promise<void>,
+): Promise<void> {
+  const backend = await factory();
+  const run = uniqueRun();
+  try {
+    await check(backend, await seedItems(backend, run), run);
+  } finally {
+    await backend.data.deleteWhere(CONFORMANCE_ITEMS, [{ field: 'run', op: 'eq', value: run }]);
+  }
+}
+
+const SEARCH: DataTextSearchOptions = { config: 'simple' };
+
+// Each operator with a filter over the seeded items and the titles it must select.
+const FILTER_CASES: Array<[DataFilterNode, string[]]> = [
+  [{ field: 'title', op: 'eq', value: 'Alpha' }, ['Alpha']],
+  [{ field: 'title', op: 'neq', value: 'Alpha' }, ['Gamma', 'beta']],
+  [{ field: 'rank', op: 'gt', value: 1 }, ['beta']],
+  [{ field: 'rank', op: 'gte', value: 1 }, ['Alpha', 'beta']],
+  [{ field: 'rank', op: 'lt', value: 2 }, ['Alpha']],
+  [{ field: 'rank', op: 'lte', value: 2 }, ['Alpha', 'beta']],
+  [{ field: 'title', op: 'like', value: 'G%' }, ['Gamma']],
+  [{ field: 'title', op: 'ilike', value: 'b%' }, ['beta']],
+  [{ field: 'title', op: 'in', value: ['Alpha', 'Gamma'] }, ['Alpha', 'Gamma']],
+  [{ field: 'tags', op: 'contains', value: ['red'] }, ['Alpha']],
+  [
+    { field: 'tags', op: 'containedBy', value: ['red', 'blue', 'green'] },
+    ['Alpha', 'Gamma', 'beta'],
+  ],
+  [{ field: 'rank', op: 'is', value: null }, ['Gamma']],
+  [{ field: 'tags', op: 'overlaps', value: ['green', 'red'] }, ['Alpha', 'beta']],
+  [{ field: 'title', op: 'match', value: '^[A-Z]' }, ['Alpha', 'Gamma']],
+  [{ field: 'body', op: 'textSearch', value: 'quick', search: SEARCH }, ['Alpha', 'Gamma']],
+  [
+    {
+      field: 'body',
+      op: 'textSearch',
+      value: 'quick -fox',
+      search: { ...SEARCH, type: 'websearch' },
+    },
+    ['Gamma'],
+  ],
+  [{ field: 'span', op: 'rangeGt', value: '[0,5)' }, ['Gamma', 'beta']],
+  [{ field: 'span', op: 'rangeGte', value: '[5,6)' }, ['Gamma', 'beta']],
+  [{ field: 'span', op: 'rangeLt', value: '[10,20)' }, ['Alpha', 'beta']],
+  [{ field: 'span', op: 'rangeLte', value: '[0,10)' }, ['Alpha', 'beta']],
+  [{ field: 'span', op: 'rangeAdjacent', value: '[10,20)' }, ['Gamma', 'beta']],
+  [
+    {
+      or: [
+        { field: 'rank', op: 'eq', value: 2 },
+        {
+          and: [
+            { field: 'rank', op: 'is', value: null },
+            { field: 'title', op: 'like', value: 'G%' },
+          ],
+        },
+      ],
+    },
+    ['Gamma', 'beta'],
+  ],
+  [{ not: { field: 'title', op: 'eq', value: 'Alpha' } }, ['Gamma', 'beta']],
+];
+
+function dataChecks(factory: Factory, { it }: ConformanceTestApi): void {
+  it('create returns the stored row; read by id returns it or null', async () => {
+    await withItems(factory, async (backend, items, run) => {
+      const alpha = items.Alpha;
+      if (alpha.id === undefined || alpha.id === null) fail('create must return the row id');
+      expectEqual(alpha.tags, ['red', 'blue'], 'array column');
+      const created = await backend.data.create(CONFORMANCE_ITEMS, { run, title: 'Delta' });
+      expectEqual(created.title, 'Delta', 'create result');
+      const read = await backend.data.read(CONFORMANCE_ITEMS, { id: alpha.id as string });
+      if (Array.isArray(read)) fail('read with id must return a single record');
+      expectEqual(read?.title, 'Alpha', 'read by id');
+      expectEqual(
+        await backend.data.read(CONFORMANCE_ITEMS, { id: globalThis.crypto.randomUUID() }),
+        null,
+        'read of a missing id',
+      );
+    });
+  });
+
+  it('read filters, orders, pages and projects rows', async () => {
+    await withItems(factory, async (backend, _items, run) => {
+      const rows = asRows(
+        await backend.data.read(CONFORMANCE_ITEMS, {
+          filter: { run },
+          orderBy: { field: 'title', ascending: false },
+          select: ['title'],
+        }),
+      );
+      expectEqual(
+        rows,
+        [{ title: 'beta' }, { title: 'Gamma' }, { title: 'Alpha' }],
+        'ordered read',
+      );
+      const page = await backend.data.read(CONFORMANCE_ITEMS, {
+        filter: { run },
+        orderBy: { field: 'title' },
+        select: ['title'],
+        limit: 1,
+        offset: 1,
+      });
+      expectEqual(page, [{ title: 'Gamma' }], 'limit and offset');
+    });
+  });
+
+  for (const [filter, expected] of FILTER_CASES) {
+    const name = 'op' in filter ? filter.op : Object.keys(filter)[0]!;
+    it(`filters with ${name}`, async () => {
+      await withItems(factory, async (backend, _items, run) => {
+        const rows = await backend.data.read(CONFORMANCE_ITEMS, {
+          filter: { run },
+          filters: [filter],
+        });
+        expectEqual(titles(rows), expected, `${name} filter ${canonicalJson(filter)}`);
+      });
+    });
+  }
+
+  it('update returns the merged row and ignores missing ids', async () => {
+    await withItems(factory, async (backend, items) => {
+      const updated = await backend.data.update<DataRecord>(
+        CONFORMANCE_ITEMS,
+        items.Alpha.id as string,
+        {
+          rank: 10,
+        },
+      );
+      expectEqual([updated.title, updated.rank], ['Alpha', 10], 'update result');
+      await backend.data.update(CONFORMANCE_ITEMS, globalThis.crypto.randomUUID(), { rank: 1 });
+    });
+  });
+
+  it('upsert inserts or replaces single rows and arrays', async () => {
+    await withItems(factory, async (backend, items, run) => {
+      const single = await backend.data.upsert(CONFORMANCE_ITEMS, {
+        ...items.beta,
+        rank: 20,
+      });
+      if (Array.isArray(single)) fail('upsert of one row must return one row');
+      expectEqual(single.rank, 20, 'upsert of an existing row');
+      const many = await backend.data.upsert(CONFORMANCE_ITEMS, [
+        { ...items.Gamma, rank: 30 },
+        { id: globalThis.crypto.randomUUID(), run, title: 'Epsilon' },
+      ]);
+      expectEqual(titles(many), ['Epsilon', 'Gamma'], 'upsert of an array');
+      expectEqual(await backend.data.count(CONFORMANCE_ITEMS, { filter: { run } }), 4, 'count');
+    });
+  });
+
+  it('delete removes rows and ignores missing ids; duplicate ids conflict', async () => {
+    await withItems(factory, async (backend, items, run) => {
+      await backend.data.delete(CONFORMANCE_ITEMS, items.Alpha.id as string);
+      await backend.data.delete(CONFORMANCE_ITEMS, globalThis.crypto.randomUUID());
+      expectEqual(await backend.data.count(CONFORMANCE_ITEMS, { filter: { run } }), 2, 'count');
+      await expectRejects(
+        backend.data.create(CONFORMANCE_ITEMS, { id: items.beta.id, run }),
+        ConflictError,
+        'create with an existing id',
+      );
+    });
+  });
+
+  it('bulk writes touch filtered rows and require a filter', async () => {
+    await withItems(factory, async (backend, _items, run) => {
+      const byRun: DataFilterNode = { field: 'run', op: 'eq', value: run };
+      const updated = await backend.data.updateWhere(
+        CONFORMANCE_ITEMS,
+        [byRun, { field: 'rank', op: 'lte', value: 2 }],
+        { body: 'bulk' },
+      );
+      expectEqual(titles(updated), ['Alpha', 'beta'], 'updateWhere result');
+      const deleted = await backend.data.deleteWhere(CONFORMANCE_ITEMS, [
+        byRun,
+        { field: 'body', op: 'eq', value: 'bulk' },
+      ]);
+      expectEqual(deleted, 2, 'deleteWhere count');
+      await expectRejects(
+        backend.data.deleteWhere(CONFORMANCE_ITEMS, []),
+        ValidationError,
+        'deleteWhere without filters',
+      );
+      await expectRejects(
+        backend.data.updateWhere(CONFORMANCE_ITEMS, [], { body: 'x' }),
+        ValidationError,
+        'updateWhere without filters',
+      );
+    });
+  });
+
+  it('counts and aggregates', async () => {
+    await withItems(factory, async (backend, _items, run) => {
+      expectEqual(
+        await backend.data.count(CONFORMANCE_ITEMS, {
+          filter: { run },
+          filters: [{ field: 'rank', op: 'gte', value: 2 }],
+        }),
+        1,
+        'filtered count',
+      );
+      const [totals] = await backend.data.aggregate(CONFORMANCE_ITEMS, {
+        filter: { run },
+        aggregates: [{ fn: 'count' }, { fn: 'sum', field: 'rank' }, { fn: 'max', field: 'rank' }],
+      });
+      expectEqual(
+        [Number(totals?.count), Number(totals?.sum_rank), Number(totals?.max_rank)],
+        [3, 3, 2],
+        'aggregate',
+      );
+    });
+  });
+
+  it('readPage follows cursors in both directions', async () => {
+    await withItems(factory, async (backend, _items, run) => {
+      const options = {
+        filter: { run },
+        orderBy: { field: 'title' },
+        pageSize: 2,
+        select: ['title'],
+      };
+      const first = await backend.data.readPage(CONFORMANCE_ITEMS, options);
+      expectEqual(titles(first.items), ['Alpha', 'Gamma'], 'first page');
+      if (!first.nextCursor || first.prevCursor) fail('first page cursors');
+      const second = await backend.data.readPage(CONFORMANCE_ITEMS, {
+        ...options,
+        cursor: first.nextCursor,
+      });
+      expectEqual(titles(second.items), ['beta'], 'second page');
+      if (second.nextCursor || !second.prevCursor) fail('last page cursors');
+      const back = await backend.data.readPage(CONFORMANCE_ITEMS, {
+        ...options,
+        cursor: second.prevCursor,
+      });
+      expectEqual(titles(back.items), ['Alpha', 'Gamma'], 'previous page');
+    });
+  });
+
+  it('readPage pages over a nullable order column', async () => {
+    await withItems(factory, async (backend, _items, run) => {
+      // Nulls sort last ascending and first descending, as in Postgres.
+      for (const [ascending, expected] of [
+        [true, ['Alpha', 'beta', 'Gamma']],
+        [false, ['Gamma', 'beta', 'Alpha']],
+      ] as const) {
+        const options = {
+          filter: { run },
+          orderBy: { field: 'rank', ascending },
+          pageSize: 1,
+          select: ['title'],
+        };
+        const seen: unknown[] = [];
+        let page = await backend.data.readPage(CONFORMANCE_ITEMS, options);
+        seen.push(...page.items.map((row) => row.title));
+        while (page.nextCursor) {
+          page = await backend.data.readPage(CONFORMANCE_ITEMS, {
+            ...options,
+            cursor: page.nextCursor,
+          });
+          seen.push(...page.items.map((row) => row.title));
+        }
+        expectEqual(seen, expected, `pages by rank (ascending: ${ascending})`);
+
+        const back: unknown[] = [];
+        while (page.prevCursor) {
+          page = await backend.data.readPage(CONFORMANCE_ITEMS, {
+            ...options,
+            cursor: page.prevCursor,
+          });
+          back.unshift(...page.items.map((row) => row.title));
+        }
+        expectEqual(
+          back,
+          expected.slice(0, -1),
+          `previous pages by rank (ascending: ${ascending})`,
+        );
+      }
+    });
+  });
+
+  it('includes related rows', async () => {
+    await withItems(factory, async (backend, items, run) => {
+      await backend.data.createMany(CONFORMANCE_NOTES, [
+        { run, item_id: items.Alpha.id, text: 'first' },
+        { run, item_id: items.Alpha.id, text: 'second' },
+      ]);
+      const rows = asRows(
+        await backend.data.read(CONFORMANCE_ITEMS, {
+          filter: { run },
+          orderBy: { field: 'title' },
+          select: ['title'],
+          include: { notes: { select: ['text'], orderBy: { field: 'text' } } },
+        }),
+      );
+      expectEqual(
+        rows.map((row) => row.notes),
+        [[{ text: 'first' }, { text: 'second' }], [], []],
+        'included notes',
+      );
+      const note = await backend.data.read(CONFORMANCE_NOTES, {
+        filter: { run, text: 'first' },
+        select: ['text'],
+        include: { item: { select: ['title'] } },
+      });
+      expectEqual(note, [{ text: 'first', item: { title: 'Alpha' } }], 'included item');
+    });
+  });
+
+  it('soft-deletes, restores and purges configured entities', async () => {
+    await withItems(factory, async (backend, items, run) => {
+      const note = await backend.data.create<DataRecord>(CONFORMANCE_NOTES, {
+        run,
+        item_id: items.beta.id,
+        text: 'kept',
+      });
+      const id = note.id as string;
+      await backend.data.delete(CONFORMANCE_NOTES, id);
+      expectEqual(await backend.data.read(CONFORMANCE_NOTES, { id }), null, 'read after delete');
+      const deleted = await backend.data.read(CONFORMANCE_NOTES, { id, includeDeleted: true });
+      if (!(deleted as DataRecord | null)?.deleted_at) fail('soft delete must set deleted_at');
+      await backend.data.restore(CONFORMANCE_NOTES, id);
+      expectEqual(await backend.data.count(CONFORMANCE_NOTES, { filter: { run } }), 1, 'restore');
+      await backend.data.purge(CONFORMANCE_NOTES, id);
+      expectEqual(
+        await backend.data.count(CONFORMANCE_NOTES, { filter: { run }, includeDeleted: true }),
+        0,
+        'purge',
+      );
+    });
+  });
+}
+
+function authChecks(factory: Factory, { it }: ConformanceTestApi): void {
+  it('signs up, signs in and out, and reports auth state', async () => {
+    const backend = await factory();
+    const email = `${uniqueRun()}@example.com`;
+    const events: string[] = [];
+    const subscription = backend.auth.onAuthStateChange((event) => events.push(event));
+    try {
+      const session = await backend.auth.signUp({ email, password: 'first-password' });
+      if (!session.accessToken) fail('signUp must return a session');
+      await expectRejects(
+        backend.auth.signUp({ email, password: 'first-password' }),
+        ConflictError,
+        'signUp with a registered email',
+      );
+      expectEqual((await backend.auth.getUser())?.email, email, 'getUser');
+      await backend.auth.updatePassword('second-password');
+      await backend.auth.signOut();
+      expectEqual(await backend.auth.getUser(), null, 'getUser after signOut');
+      expectEqual(await backend.auth.getSession(), null, 'getSession after signOut');
+      await expectRejects(
+        backend.auth.signIn({ email, password: 'first-password' }),
+        UnauthorizedError,
+        'signIn with an old password',
+      );
+      await backend.auth.signIn({ email, password: 'second-password' });
+      expectEqual((await backend.auth.getSession())?.user?.email, email, 'getSession');
+      if (!events.includes('SIGNED_IN') || !events.includes('SIGNED_OUT')) {
+        fail(`onAuthStateChange must report sign-in and sign-out, got ${events.join(', ')}`);
+      }
+    } finally {
+      subscription.unsubscribe();
+    }
+  });
+}
+
+function storageChecks(factory: Factory, { it }: ConformanceTestApi, bucket: string): void {
+  it('uploads, lists, downloads and removes objects', async () => {
+    const backend = await factory();
+    const folder = uniqueRun();
+    const bytes = new Uint8Array([1, 2, 3]);
+    await backend.storage.upload(bucket, `${folder}/a.bin`, bytes);
+    await backend.storage.upload(bucket, `${folder}/b.bin`, bytes.buffer);
+    await backend.storage.upload(bucket, `${folder}/c.txt`, new Blob(['c']));
+    await expectRejects(
+      backend.storage.upload(bucket, `${folder}/a.bin`, bytes),
+      ConflictError,
+      'upload over an existing object without upsert',
+    );
+    await backend.storage.upload(bucket, `${folder}/a.bin`, new Uint8Array([9]), { upsert: true });
+    expectEqual([...(await backend.storage.download(bucket, `${folder}/a.bin`))], [9], 'download');
+
+    const names = (await backend.storage.list(bucket, folder)).map((o) => o.name).sort();
+    expectEqual(names, ['a.bin', 'b.bin', 'c.txt'], 'list');
+    const { signedUrl } = await backend.storage.createSignedUrl(bucket, `${folder}/b.bin`, 60);
+    if (!signedUrl) fail('createSignedUrl must return a URL');
+    if (!backend.storage.getPublicUrl(bucket, `${folder}/b.bin`).publicUrl) {
+      fail('getPublicUrl must return a URL');
+    }
+
+    // `remove` takes one path or several.
+    await backend.storage.remove(bucket, `${folder}/a.bin`);
+    await backend.storage.remove(bucket, [`${folder}/b.bin`, `${folder}/c.txt`]);
+    expectEqual(await backend.storage.list(bucket, folder), [], 'list after remove');
+    await expectRejects(
+      backend.storage.download(bucket, `${folder}/a.bin`),
+      NotFoundError,
+      'download of a removed object',
+    );
+  });
+}
+
+function rpcChecks(factory: Factory, { it }: ConformanceTestApi): void {
+  it('calls functions and reports unknown ones', async () => {
+    const backend = await factory();
+    expectEqual(await backend.rpc.call(CONFORMANCE_RPC, { value: 'ping' }), 'ping', 'rpc result');
+    await expectRejects(
+      backend.rpc.call(`${CONFORMANCE_RPC}_missing`),
+      BackendError,
+      'call of an unknown function',
+    );
+  });
+}
+
+// Registers checks that a `Backend` honours the adapter contract: every data method and filter
+// operator, include, soft delete, password auth, storage and RPC. `factory` is called once per
+// check. The backend needs the `CONFORMANCE_SQL` tables (or, for in-memory adapters, nothing),
+// `CONFORMANCE_RELATIONS`, `CONFORMANCE_SOFT_DELETE`, a `conformance_echo(value)` function that
+// returns its argument, and a `conformance` bucket. One-time-code and OAuth sign-in need an inbox
+// or a browser and are not covered. Published as `@base44-to-supabase/adapter/conformance`, outside
+// the main entry point, so app bundles never include the suite.
+export function runBackendConformance(factory: Factory, options: BackendConformanceOptions): void {
+  const skip = new Set(options.skip ?? []);
+  options.describe('backend conformance', () => {
+    if (!skip.has('data')) options.describe('data', () => dataChecks(factory, options));
+    if (!skip.has('auth')) options.describe('auth', () => authChecks(factory, options));
+    if (!skip.has('storage')) {
+      options.describe('storage', () =>
+        storageChecks(factory, options, options.bucket ?? CONFORMANCE_BUCKET),
+      );
+    }
+    if (!skip.has('rpc')) options.describe('rpc', () => rpcChecks(factory, options));
+  });
+}
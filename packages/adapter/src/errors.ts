@@ -0,0 +1,112 @@
+export type BackendErrorCode =
+  | 'not_found'
+  | 'conflict'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'validation'
+  | 'rate_limited'
+  | 'network'
+  | 'unknown';
+
+export type BackendErrorOptions = {
+  entity?: string;
+  bucket?: string;
+  // HTTP status reported by the backend, when there was one.
+  status?: number;
+  cause?: unknown;
+};
+
+// Base class for every error thrown by an adapter. Adapters translate vendor errors into one of
+// the subclasses below so app code can branch on `code` (or `instanceof`) without knowing which
+// backend produced it. The original error is kept as `cause`.
+export class BackendError extends Error {
+  readonly code: BackendErrorCode;
+  readonly entity?: string;
+  readonly bucket?: string;
+  readonly status?: number;
+
+  constructor(message: string, code: BackendErrorCode = 'unknown', options?: BackendErrorOptions) {
+    super(message, { cause: options?.cause });
+    this.name = new.target.name;
+    this.code = code;
+    this.entity = options?.entity;
+    this.bucket = options?.bucket;
+    this.status = options?.status;
+  }
+}
+
+export class NotFoundError extends BackendError {
+  constructor(message: string, options?: BackendErrorOptions) {
+    super(message, 'not_found', options);
+  }
+}
+
+export class ConflictError extends BackendError {
+  constructor(message: string, options?: BackendErrorOptions) {
+    super(message, 'conflict', options);
+  }
+}
+
+export class UnauthorizedError extends BackendError {
+  constructor(message: string, options?: BackendErrorOptions) {
+    super(message, 'unauthorized', options);
+  }
+}
+
+export class ForbiddenError extends BackendError {
+  constructor(message: string, options?: BackendErrorOptions) {
+    super(message, 'forbidden', options);
+  }
+}
+
+export class ValidationError extends BackendError {
+  constructor(message: string, options?: BackendErrorOptions) {
+    super(message, 'validation', options);
+  }
+}
+
+export type FieldIssue = {
+  // Dotted path of the offending field, e.g. `address.city`; empty for the record itself.
+  path: string;
+  message: string;
+};
+
+// A record rejected by an entity validator before it reached the backend (see `withValidation`).
+export class FieldValidationError extends ValidationError {
+  readonly issues: FieldIssue[];
+
+  constructor(issues: FieldIssue[], options?: BackendErrorOptions) {
+    const summary = issues
+      .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+      .join('; ');
+    super(`Invalid ${options?.entity ?? 'record'}: ${summary}`, options);
+    this.issues = issues;
+  }
+}
+
+export class RateLimitedError extends BackendError {
+  constructor(message: string, options?: BackendErrorOptions) {
+    super(message, 'rate_limited', options);
+  }
+}
+
+export class NetworkError extends BackendError {
+  constructor(message: string, options?: BackendErrorOptions) {
+    super(message, 'network', options);
+  }
+}
+
+// Thrown without calling the backend while a circuit breaker is open for the endpoint. It is a
+// `NetworkError` so existing "backend unreachable" handling covers it.
+export class CircuitOpenError extends NetworkError {
+  readonly endpoint: string;
+
+  constructor(endpoint: string, options?: BackendErrorOptions) {
+    super(`Circuit open for ${endpoint}`, options);
+    this.endpoint = endpoint;
+  }
+}
+
+export function isBackendError(error: unknown): error is BackendError {
+  return error instanceof BackendError;
+}
@@ -0,0 +1,142 @@
+import { ValidationError } from './errors.js';
+import type { DataFilter, DataFilterGroup, DataFilterNode, DataRecord } from './index.js';
+import { matchesRange, rangesOverlap } from './ranges.js';
+import { matchesTextSearch } from './textSearch.js';
+
+export function isFilterGroup<F extends string>(
+  node: DataFilterNode<F>,
+): node is DataFilterGroup<F> {
+  return 'and' in node || 'or' in node || 'not' in node;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value as string);
+}
+
+// Orders two non-null column values: numbers, dates and booleans by value, anything else as text.
+export function compareValues(a: unknown, b: unknown): number {
+  if (a instanceof Date) a = a.getTime();
+  if (b instanceof Date) b = b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  const sa = toText(a);
+  const sb = toText(b);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+function isNil(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (isNil(a) || isNil(b)) return false;
+  if (typeof a === 'object' || typeof b === 'object') {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  // PostgREST compares over the wire as text, so `1` and `'1'` match.
+  return toText(a) === toText(b);
+}
+
+// Mirrors Postgres jsonb/array containment (`@>`).
+function containsValue(haystack: unknown, needle: unknown): boolean {
+  if (Array.isArray(haystack)) {
+    const items = Array.isArray(needle) ? needle : [needle];
+    return items.every((n) => haystack.some((h) => containsValue(h, n)));
+  }
+  if (isPlainObject(haystack) && isPlainObject(needle)) {
+    return Object.entries(needle).every(
+      ([key, value]) => key in haystack && containsValue(haystack[key], value),
+    );
+  }
+  return valuesEqual(haystack, needle);
+}
+
+function likeToRegExp(pattern: string, flags: string): RegExp {
+  let source = '';
+  for (const ch of pattern) {
+    if (ch === '%' || ch === '*') source += '.*';
+    else if (ch === '_') source += '.';
+    else source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, flags);
+}
+
+// Evaluates one filter against a row in process, with PostgREST/Postgres semantics. Used by the
+// in-process adapters and realtime filtering.
+export function matchesFilter(record: DataRecord, filter: DataFilter): boolean {
+  const { field, op, value } = filter;
+  const actual = record[field];
+  switch (op) {
+    case 'eq':
+      return valuesEqual(actual, value);
+    case 'neq':
+      return !isNil(actual) && !valuesEqual(actual, value);
+    case 'gt':
+      return !isNil(actual) && compareValues(actual, value) > 0;
+    case 'gte':
+      return !isNil(actual) && compareValues(actual, value) >= 0;
+    case 'lt':
+      return !isNil(actual) && compareValues(actual, value) < 0;
+    case 'lte':
+      return !isNil(actual) && compareValues(actual, value) <= 0;
+    case 'like':
+      return !isNil(actual) && likeToRegExp(toText(value), '').test(toText(actual));
+    case 'ilike':
+      return !isNil(actual) && likeToRegExp(toText(value), 'i').test(toText(actual));
+    case 'in':
+      return (value as unknown[]).some((v) => valuesEqual(actual, v));
+    case 'contains':
+      return !isNil(actual) && containsValue(actual, value);
+    case 'containedBy':
+      return !isNil(actual) && containsValue(value, actual);
+    case 'is':
+      return value === null ? isNil(actual) : actual === value;
+    case 'overlaps':
+      if (isNil(actual)) return false;
+      if (Array.isArray(actual)) {
+        return (value as unknown[]).some((v) => actual.some((a) => valuesEqual(a, v)));
+      }
+      return rangesOverlap(actual, value);
+    case 'match':
+      return !isNil(actual) && new RegExp(toText(value)).test(toText(actual));
+    case 'textSearch':
+      return !isNil(actual) && matchesTextSearch(toText(actual), toText(value), filter.search);
+    case 'rangeGt':
+    case 'rangeGte':
+    case 'rangeLt':
+    case 'rangeLte':
+    case 'rangeAdjacent':
+      return !isNil(actual) && matchesRange(op, actual, value);
+    default:
+      return true;
+  }
+}
+
+// SQL three-valued logic: a comparison against a null column is unknown (null), so `not` of it
+// does not match either.
+function filterTruth(record: DataRecord, node: DataFilterNode): boolean | null {
+  if (!isFilterGroup(node)) {
+    if (node.op !== 'is' && isNil(record[node.field])) return null;
+    return matchesFilter(record, node);
+  }
+  if ('not' in node) {
+    const inner = filterTruth(record, node.not);
+    return inner === null ? null : !inner;
+  }
+  const isAnd = 'and' in node;
+  const children = isAnd ? node.and : node.or;
+  // Rejected like the Supabase adapter does, rather than silently matching all or nothing.
+  if (children.length === 0)
+    throw new ValidationError(`Empty "${isAnd ? 'and' : 'or'}" filter group`);
+  const results = children.map((child) => filterTruth(record, child));
+  if (results.includes(!isAnd)) return !isAnd;
+  return results.includes(null) ? null : isAnd;
+}
+
+export function matchesFilterNode(record: DataRecord, node: DataFilterNode): boolean {
+  return filterTruth(record, node) === true;
+}
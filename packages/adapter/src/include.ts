@@ -0,0 +1,79 @@
+import { ValidationError } from './errors.js';
+import type {
+  BackendData,
+  DataInclude,
+  DataIncludeOptions,
+  DataRecord,
+  DataRelations,
+} from './index.js';
+
+export function includeOptions(spec: true | DataIncludeOptions): DataIncludeOptions {
+  return spec === true ? {} : spec;
+}
+
+function isNil(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+// Client-side fallback for `include`, for adapters that cannot join on the server. Each relation
+// costs one extra `read` (with an `in` filter over the parents' keys), never one per row. Nested
+// includes are passed on to `data.read`. `rows` must still contain the relations' key columns;
+// project them away afterwards.
+export async function joinIncludes(
+  data: BackendData,
+  entity: string,
+  rows: DataRecord[],
+  include: DataInclude,
+  relations: DataRelations,
+): Promise<DataRecord[]> {
+  let result = rows.map((row) => ({ ...row }));
+
+  for (const [name, spec] of Object.entries(include)) {
+    const options = includeOptions(spec);
+    const relation = relations[entity]?.[name];
+    if (!relation) {
+      throw new ValidationError(`Unknown relation "${name}" on ${entity}`, { entity });
+    }
+    const references = relation.references ?? 'id';
+    // Columns on the parent and on the related rows that must be equal.
+    const [parentKey, childKey] =
+      relation.kind === 'one' ? [relation.field, references] : [references, relation.field];
+    const keys = [...new Set(result.map((row) => row[parentKey]).filter((k) => !isNil(k)))];
+
+    const related =
+      keys.length === 0
+        ? []
+        : ((await data.read(relation.entity, {
+            filter: options.filter,
+            filters: [{ field: childKey, op: 'in', value: keys }],
+            select: options.select ? [...new Set([...options.select, childKey])] : undefined,
+            orderBy: options.orderBy,
+            include: options.include,
+          })) as DataRecord[]);
+
+    const groups = new Map<string, DataRecord[]>();
+    for (const row of related) {
+      const key = String(row[childKey] as string);
+      let group = groups.get(key);
+      if (!group) groups.set(key, (group = []));
+      if (options.limit !== undefined && group.length >= options.limit) continue;
+      const copy = { ...row };
+      // The key was only added to the selection to group the rows.
+      if (options.select && !options.select.includes(childKey)) delete copy[childKey];
+      group.push(copy);
+    }
+
+    for (const row of result) {
+      const parent = row[parentKey];
+      const group = isNil(parent) ? [] : (groups.get(String(parent as string)) ?? []);
+      row[name] = relation.kind === 'one' ? (group[0] ?? null) : group;
+    }
+    if (options.required) {
+      result = result.filter((row) =>
+        relation.kind === 'one' ? row[name] !== null : (row[name] as DataRecord[]).length > 0,
+      );
+    }
+  }
+
+  return result;
+}
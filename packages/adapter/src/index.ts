@@ -1,8 +1,27 @@
+export * from './aggregate.js';
+export * from './audit.js';
+export * from './cache.js';
+export * from './errors.js';
+export * from './filters.js';
+export * from './include.js';
+export * from './middleware.js';
+export * from './offline.js';
+export * from './pagination.js';
+export * from './realtime.js';
+export * from './recording.js';
+export * from './resilience.js';
+export * from './schema.js';
+export * from './settle.js';
+export * from './softDelete.js';
+export * from './tenant.js';
+export * from './validation.js';
+
 export type Id = string;
 
 export type AuthUser = {
   id: string;
   email?: string;
+  phone?: string;
 };
 
 export type AuthSession = {
@@ -14,8 +33,19 @@ export type AuthSession = {
 
 export type DataRecord = Record<string, unknown> & { id?: Id };
 
-export type DataOrderBy = {
-  field: string;
+// Maps entity names to row types, e.g. `{ todos: { id: string; title: string } }`. Row types must
+// be type aliases (not interfaces) so they satisfy `DataRecord`. The default accepts any entity.
+export type EntitySchema = Record<string, DataRecord>;
+
+export type EntityName<S extends EntitySchema> = Extract<keyof S, string>;
+
+export type FieldName<R> = Extract<keyof R, string>;
+
+// Payload accepted by `create`/`upsert`: server-generated columns (id, timestamps) may be omitted.
+export type DataInsert<R extends DataRecord> = Partial<R>;
+
+export type DataOrderBy<F extends string = string> = {
+  field: F;
   ascending?: boolean;
 };
 
@@ -31,22 +61,161 @@ export type DataFilterOp =
   | 'in'
   | 'contains'
   | 'containedBy'
-  | 'is';
+  | 'is'
+  // Arrays (or ranges) sharing at least one element.
+  | 'overlaps'
+  // POSIX regular expression, case-sensitive.
+  | 'match'
+  // Full-text search of a tsvector (or text) column; see `DataFilter.search`.
+  | 'textSearch'
+  // Range comparisons against a range literal such as `[2024-01-01,2024-02-01)`: strictly
+  // right of, does not extend left of, strictly left of, does not extend right of, adjacent to.
+  | 'rangeGt'
+  | 'rangeGte'
+  | 'rangeLt'
+  | 'rangeLte'
+  | 'rangeAdjacent';
 
-export type DataFilter = {
-  field: string;
+// How a `textSearch` value is parsed. Without a type the value is tsquery syntax (`a & !b`);
+// `plain` ANDs the words, `phrase` requires them in order, and `websearch` accepts search-engine
+// syntax (`"quoted phrase" or -excluded`).
+export type DataTextSearchOptions = {
+  // Text search configuration, e.g. `english`. Defaults to the database default.
+  config?: string;
+  type?: 'plain' | 'phrase' | 'websearch';
+};
+
+export type DataFilter<F extends string = string> = {
+  field: F;
   op: DataFilterOp;
   value: unknown;
+  // Only used by `textSearch`.
+  search?: DataTextSearchOptions;
 };
 
-export type DataReadOptions = {
-  id?: Id;
-  filter?: Record<string, unknown>;
-  filters?: DataFilter[];
-  select?: string | string[];
+// Boolean groups of filters. A plain `filters` array is an implicit `and`.
+export type DataFilterGroup<F extends string = string> =
+  { and: DataFilterNode<F>[] } | { or: DataFilterNode<F>[] } | { not: DataFilterNode<F> };
+
+export type DataFilterNode<F extends string = string> = DataFilter<F> | DataFilterGroup<F>;
+
+// Equality filters keyed by field name.
+export type DataMatch<R extends DataRecord = DataRecord> = { [K in FieldName<R>]?: unknown };
+
+// Related rows to load with `read`, keyed by relation name. `true` loads all columns.
+export type DataInclude = { [relation: string]: true | DataIncludeOptions };
+
+export type DataIncludeOptions = {
+  // Related entity when it differs from the relation name, e.g. `owner: { entity: 'users' }`.
+  entity?: string;
+  select?: string[];
+  // Equality filters on the related rows. They narrow what is included, not the parent rows.
+  filter?: DataMatch;
   orderBy?: DataOrderBy | DataOrderBy[];
+  // Per parent row, for to-many relations.
+  limit?: number;
+  include?: DataInclude;
+  // Drops parent rows without a (matching) related row, like an inner join.
+  required?: boolean;
+};
+
+// Included relations on a returned row: an object (or null) for to-one relations, an array for
+// to-many relations.
+export type DataIncluded<I extends DataInclude> = {
+  [N in Extract<keyof I, string>]: DataRecord | DataRecord[] | null;
+};
+
+// Declares a relation for adapters that resolve `include` client-side; Supabase reads foreign
+// keys from the database instead.
+export type DataRelation = {
+  entity: string;
+  // `one`: `field` on this row references the related row. `many`: `field` on the related rows
+  // references this row.
+  kind: 'one' | 'many';
+  field: string;
+  // Referenced column. Defaults to `id`.
+  references?: string;
+};
+
+// Relations per entity, keyed by relation name.
+export type DataRelations = Record<string, Record<string, DataRelation>>;
+
+export type DataReadOptions<
+  R extends DataRecord = DataRecord,
+  K extends FieldName<R> = FieldName<R>,
+> = {
+  id?: Id;
+  filter?: DataMatch<R>;
+  filters?: DataFilterNode<FieldName<R>>[];
+  select?: string | K[];
+  orderBy?: DataOrderBy<FieldName<R>> | DataOrderBy<FieldName<R>>[];
   limit?: number;
   offset?: number;
+  include?: DataInclude;
+  // Also return soft-deleted rows of entities configured for soft delete.
+  includeDeleted?: boolean;
+};
+
+export type DataPageOptions<R extends DataRecord = DataRecord> = {
+  // `id` is appended as a tie-breaker. Order columns should be non-null for stable pages.
+  orderBy?: DataOrderBy<FieldName<R>> | DataOrderBy<FieldName<R>>[];
+  pageSize: number;
+  // Opaque cursor from a previous page's `nextCursor`/`prevCursor`; omit for the first page.
+  cursor?: string | null;
+  filter?: DataMatch<R>;
+  filters?: DataFilterNode<FieldName<R>>[];
+  select?: string | FieldName<R>[];
+  includeDeleted?: boolean;
+};
+
+export type DataPage<T> = {
+  items: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+};
+
+export type DataCountOptions<R extends DataRecord = DataRecord> = {
+  filter?: DataMatch<R>;
+  filters?: DataFilterNode<FieldName<R>>[];
+  // `estimated` lets backends use planner statistics for large tables. Defaults to `exact`.
+  mode?: 'exact' | 'estimated';
+  includeDeleted?: boolean;
+};
+
+export type DataAggregateFn = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export type DataAggregate<F extends string = string> = {
+  fn: DataAggregateFn;
+  // Omit for `count` to count rows.
+  field?: F;
+  // Result key. Defaults to `${fn}_${field}` (or `count` for row counts).
+  as?: string;
+};
+
+export type DataAggregateOptions<R extends DataRecord = DataRecord> = {
+  aggregates: DataAggregate<FieldName<R>>[];
+  groupBy?: FieldName<R> | FieldName<R>[];
+  filter?: DataMatch<R>;
+  filters?: DataFilterNode<FieldName<R>>[];
+  includeDeleted?: boolean;
+};
+
+export type RealtimeEvent = 'insert' | 'update' | 'delete';
+
+export type RealtimeChange<T extends DataRecord = DataRecord> = {
+  entity: string;
+  event: RealtimeEvent;
+  // Row after the change (null for deletes).
+  new: T | null;
+  // Row before the change. Depending on the backend this may only contain the primary key.
+  old: Partial<T> | null;
+  commitTimestamp?: string;
+};
+
+export type RealtimeSubscribeOptions = {
+  // Defaults to all events.
+  events?: RealtimeEvent | RealtimeEvent[];
+  filter?: DataFilter;
 };
 
 export type StorageUploadOptions = {
@@ -55,9 +224,49 @@ export type StorageUploadOptions = {
   upsert?: boolean;
 };
 
+// One-time passwords are sent either by email (code or magic link) or by SMS.
+export type AuthOtpTarget = { email: string; phone?: never } | { phone: string; email?: never };
+
+export type AuthOtpType =
+  | 'email'
+  | 'magiclink'
+  | 'signup'
+  | 'invite'
+  | 'recovery'
+  | 'email_change'
+  | 'sms'
+  | 'phone_change';
+
+export type AuthOtpOptions = AuthOtpTarget & {
+  // Defaults to true: unknown emails/phones get an account on first sign-in.
+  shouldCreateUser?: boolean;
+  // Where the magic link should land (email only).
+  redirectTo?: string;
+};
+
+export type AuthVerifyOtpParams = AuthOtpTarget & {
+  token: string;
+  // Defaults to `email` for email targets and `sms` for phone targets.
+  type?: AuthOtpType;
+};
+
+export type AuthOAuthOptions = {
+  // Provider id as configured on the backend, e.g. `google`, `github`, `azure`.
+  provider: string;
+  redirectTo?: string;
+  scopes?: string | string[];
+};
+
 export interface BackendAuth {
   signIn(params: { email: string; password: string }): Promise<AuthSession>;
   signUp(params: { email: string; password: string }): Promise<AuthSession>;
+  signInWithOtp(params: AuthOtpOptions): Promise<void>;
+  verifyOtp(params: AuthVerifyOtpParams): Promise<AuthSession>;
+  // Starts a hosted OAuth flow. In browsers the backend may redirect immediately; `url` is the
+  // provider's authorization URL for callers that navigate themselves.
+  signInWithOAuth(params: AuthOAuthOptions): Promise<{ url: string | null }>;
+  // Completes an OAuth or magic-link PKCE flow with the `code` from the redirect URL.
+  exchangeCodeForSession(code: string): Promise<AuthSession>;
   resetPasswordForEmail(email: string, options?: { redirectTo?: string }): Promise<void>;
   updatePassword(newPassword: string): Promise<void>;
   signOut(): Promise<void>;
@@ -71,6 +280,10 @@ export interface BackendAuth {
 export interface BackendData {
   create<T extends DataRecord>(entity: string, data: T): Promise<T>;
   read<T extends DataRecord>(entity: string, options?: DataReadOptions): Promise<T | T[] | null>;
+  readPage<T extends DataRecord>(entity: string, options: DataPageOptions): Promise<DataPage<T>>;
+  count(entity: string, options?: DataCountOptions): Promise<number>;
+  // One row per group: the `groupBy` columns plus one key per aggregate.
+  aggregate(entity: string, options: DataAggregateOptions): Promise<Array<Record<string, unknown>>>;
   upsert<T extends DataRecord>(
     entity: string,
     data: T | T[],
@@ -78,8 +291,69 @@ export interface BackendData {
   ): Promise<T | T[]>;
   update<T extends DataRecord>(entity: string, id: Id, data: Partial<T>): Promise<T>;
   delete(entity: string, id: Id): Promise<void>;
+  // Bulk variants run as a single request. `filters` must not be empty, so a missing condition
+  // can never touch every row of a table.
+  createMany<T extends DataRecord>(entity: string, rows: T[]): Promise<T[]>;
+  updateWhere<T extends DataRecord>(
+    entity: string,
+    filters: DataFilterNode[],
+    patch: Partial<T>,
+  ): Promise<T[]>;
+  // Resolves to the number of deleted rows.
+  deleteWhere(entity: string, filters: DataFilterNode[]): Promise<number>;
+  // For entities configured for soft delete: `restore` clears the deletion mark, `purge` removes
+  // the row permanently. `purge` is a plain delete for other entities.
+  restore(entity: string, id: Id): Promise<void>;
+  purge(entity: string, id: Id): Promise<void>;
 }
 
+// Schema-aware view of `BackendData`: entity names are limited to the schema's keys, and payloads,
+// filters, ordering and `select` are checked against the entity's row type.
+export interface TypedBackendData<S extends EntitySchema> {
+  create<E extends EntityName<S>>(entity: E, data: DataInsert<S[E]>): Promise<S[E]>;
+  read<
+    E extends EntityName<S>,
+    K extends FieldName<S[E]> = FieldName<S[E]>,
+    I extends DataInclude = Record<never, never>,
+  >(
+    entity: E,
+    options?: DataReadOptions<S[E], K> & { include?: I },
+  ): Promise<(Pick<S[E], K> & DataIncluded<I>) | Array<Pick<S[E], K> & DataIncluded<I>> | null>;
+  readPage<E extends EntityName<S>>(
+    entity: E,
+    options: DataPageOptions<S[E]>,
+  ): Promise<DataPage<S[E]>>;
+  count<E extends EntityName<S>>(entity: E, options?: DataCountOptions<S[E]>): Promise<number>;
+  aggregate<E extends EntityName<S>>(
+    entity: E,
+    options: DataAggregateOptions<S[E]>,
+  ): Promise<Array<Record<string, unknown>>>;
+  upsert<E extends EntityName<S>>(
+    entity: E,
+    data: DataInsert<S[E]> | DataInsert<S[E]>[],
+    options?: { onConflict?: string },
+  ): Promise<S[E] | S[E][]>;
+  update<E extends EntityName<S>>(entity: E, id: Id, data: Partial<S[E]>): Promise<S[E]>;
+  delete<E extends EntityName<S>>(entity: E, id: Id): Promise<void>;
+  createMany<E extends EntityName<S>>(entity: E, rows: DataInsert<S[E]>[]): Promise<S[E][]>;
+  updateWhere<E extends EntityName<S>>(
+    entity: E,
+    filters: DataFilterNode<FieldName<S[E]>>[],
+    patch: Partial<S[E]>,
+  ): Promise<S[E][]>;
+  deleteWhere<E extends EntityName<S>>(
+    entity: E,
+    filters: DataFilterNode<FieldName<S[E]>>[],
+  ): Promise<number>;
+  restore<E extends EntityName<S>>(entity: E, id: Id): Promise<void>;
+  purge<E extends EntityName<S>>(entity: E, id: Id): Promise<void>;
+}
+
+// Without a concrete schema (`Backend` / `Backend<EntitySchema>`) the untyped API is kept as is.
+export type BackendDataFor<S extends EntitySchema> = string extends keyof S
+  ? BackendData
+  : TypedBackendData<S>;
+
 export interface BackendStorage {
   upload(
     bucket: string,
@@ -106,9 +380,65 @@ export interface BackendRpc {
   call<T = unknown>(fn: string, params?: Record<string, unknown>): Promise<T>;
 }
 
-export interface Backend {
+export interface BackendRealtime {
+  subscribe<T extends DataRecord>(
+    entity: string,
+    callback: (change: RealtimeChange<T>) => void,
+    options?: RealtimeSubscribeOptions,
+  ): {
+    unsubscribe: () => void;
+  };
+}
+
+export interface Backend<S extends EntitySchema = EntitySchema> {
   auth: BackendAuth;
-  data: BackendData;
+  data: BackendDataFor<S>;
   storage: BackendStorage;
   rpc: BackendRpc;
+  realtime: BackendRealtime;
+}
+
+export type AdminUser = AuthUser & {
+  // Set by trusted code only (roles, plans, tenant ids); users cannot change it themselves.
+  appMetadata: Record<string, unknown>;
+  userMetadata: Record<string, unknown>;
+  createdAt?: string;
+  lastSignInAt?: string | null;
+};
+
+export type AdminCreateUserParams = {
+  email?: string;
+  phone?: string;
+  password?: string;
+  // Marks the email/phone as confirmed so no confirmation message is sent.
+  emailConfirm?: boolean;
+  phoneConfirm?: boolean;
+  appMetadata?: Record<string, unknown>;
+  userMetadata?: Record<string, unknown>;
+};
+
+export type AdminUpdateUserParams = AdminCreateUserParams & {
+  // Duration such as `24h`, or `none` to lift a ban.
+  banDuration?: string;
+};
+
+export type AdminUserPage = {
+  users: AdminUser[];
+  // Page number to pass to the next `listUsers` call, or null on the last page.
+  nextPage: number | null;
+};
+
+// Privileged user management. Only available on server-side backends (service-role key).
+export interface BackendAdmin {
+  listUsers(options?: { page?: number; perPage?: number }): Promise<AdminUserPage>;
+  getUser(id: Id): Promise<AdminUser | null>;
+  createUser(params: AdminCreateUserParams): Promise<AdminUser>;
+  updateUser(id: Id, params: AdminUpdateUserParams): Promise<AdminUser>;
+  deleteUser(id: Id): Promise<void>;
+  // Shallow-merges into the existing app metadata; keys set to null are removed.
+  setAppMetadata(id: Id, metadata: Record<string, unknown>): Promise<AdminUser>;
+}
+
+export interface AdminBackend<S extends EntitySchema = EntitySchema> extends Backend<S> {
+  admin: BackendAdmin;
 }
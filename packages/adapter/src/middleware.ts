@@ -0,0 +1,110 @@
+export type BackendDomain = 'auth' | 'data' | 'storage' | 'rpc' | 'admin';
+
+export type BackendOperation = {
+  domain: BackendDomain;
+  method: string;
+  // First argument of `data` methods.
+  entity?: string;
+  // First argument of `storage` methods.
+  bucket?: string;
+  // Arguments the adapter method is called with. `entity`/`bucket` are informational: to target a
+  // different entity or bucket, change the first argument.
+  args: unknown[];
+};
+
+// Calls the rest of the pipeline (and finally the adapter). Pass a modified operation to change
+// the arguments; `next` may be called more than once (e.g. to retry).
+export type BackendNext = (operation?: BackendOperation) => Promise<unknown>;
+
+// Transform arguments by calling `next` with a new operation, short-circuit by returning without
+// calling `next`, or observe by awaiting `next` and inspecting its result or error.
+export type BackendMiddleware = (
+  operation: BackendOperation,
+  next: BackendNext,
+) => Promise<unknown>;
+
+export type BackendOutcome =
+  | { ok: true; result: unknown; durationMs: number }
+  | { ok: false; error: unknown; durationMs: number };
+
+// These return synchronously (or hand back a subscription) and are passed through unwrapped.
+const SYNC_METHODS: Partial<Record<BackendDomain, Set<string>>> = {
+  auth: new Set(['onAuthStateChange']),
+  storage: new Set(['getPublicUrl']),
+};
+
+const DOMAINS: BackendDomain[] = ['auth', 'data', 'storage', 'rpc', 'admin'];
+
+function toOperation(domain: BackendDomain, method: string, args: unknown[]): BackendOperation {
+  const operation: BackendOperation = { domain, method, args };
+  const first = args[0];
+  if (domain === 'data' && typeof first === 'string') operation.entity = first;
+  if (domain === 'storage' && typeof first === 'string') operation.bucket = first;
+  return operation;
+}
+
+function wrapDomain(
+  domain: BackendDomain,
+  target: Record<string, unknown>,
+  middleware: BackendMiddleware[],
+): Record<string, unknown> {
+  const run = (index: number, operation: BackendOperation): Promise<unknown> => {
+    const mw = middleware[index];
+    if (!mw) {
+      const fn = target[operation.method] as (...args: unknown[]) => Promise<unknown>;
+      return fn.apply(target, operation.args);
+    }
+    return mw(operation, (next = operation) => run(index + 1, next));
+  };
+
+  const wrapped: Record<string, unknown> = {};
+  for (const [method, value] of Object.entries(target)) {
+    if (typeof value !== 'function' || SYNC_METHODS[domain]?.has(method)) {
+      wrapped[method] = typeof value === 'function' ? value.bind(target) : value;
+      continue;
+    }
+    wrapped[method] = (...args: unknown[]) => run(0, toOperation(domain, method, args));
+  }
+  return wrapped;
+}
+
+// Wraps every async method of `auth`, `data`, `storage`, `rpc` (and `admin` when present) in the
+// given middleware, outermost first. Realtime subscriptions and other synchronous methods are
+// passed through unchanged. Works with any adapter, and keeps the backend's schema typing.
+export function withMiddleware<B extends object>(backend: B, middleware: BackendMiddleware[]): B {
+  if (middleware.length === 0) return backend;
+  const source = backend as unknown as Record<string, unknown>;
+  const wrapped: Record<string, unknown> = { ...source };
+  for (const domain of DOMAINS) {
+    const target = source[domain];
+    if (target && typeof target === 'object') {
+      wrapped[domain] = wrapDomain(domain, target as Record<string, unknown>, middleware);
+    }
+  }
+  return wrapped as B;
+}
+
+// Middleware that only observes: `callback` runs after every operation with its outcome. Errors
+// are rethrown unchanged, and errors thrown by `callback` itself are ignored.
+export function observe(
+  callback: (operation: BackendOperation, outcome: BackendOutcome) => void,
+): BackendMiddleware {
+  return async (operation, next) => {
+    const started = Date.now();
+    const report = (outcome: BackendOutcome) => {
+      try {
+        callback(operation, outcome);
+      } catch {
+        // Observers must not change the result of the operation.
+      }
+    };
+    try {
+      const result = await next();
+      report({ ok: true, result, durationMs: Date.now() - started });
+      return result;
+    } catch (error) {
+      report({ ok: false, error, durationMs: Date.now() - started });
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,281 @@
+import { NetworkError } from './errors.js';
+import type { BackendData, DataRecord, Id } from './index.js';
+import { withMiddleware, type BackendMiddleware, type BackendOperation } from './middleware.js';
+
+export type OfflineWriteMethod = 'create' | 'update' | 'upsert' | 'delete';
+
+export type QueuedWrite = {
+  id: string;
+  method: OfflineWriteMethod;
+  entity: string;
+  // Arguments after the entity, exactly as passed by the caller. Must be JSON-serializable for
+  // durable storages.
+  args: unknown[];
+  // Optimistic id returned for a queued `create` without an id of its own.
+  tempId?: string;
+  enqueuedAt: string;
+};
+
+export type OfflineQueueState = {
+  entries: QueuedWrite[];
+  // Temporary ids already replaced by the ids the backend assigned.
+  idMap: Record<string, Id>;
+};
+
+// Durable home of the queue. `save` receives the complete state and should replace what was
+// stored atomically.
+export interface OfflineQueueStorage {
+  load(): Promise<OfflineQueueState | null>;
+  save(state: OfflineQueueState): Promise<void>;
+}
+
+// `drop` discards the entry and continues; `stop` keeps it at the head of the queue and ends the
+// replay so it can be retried later.
+export type OfflineConflictResolution = 'drop' | 'stop';
+
+export type OfflineConflictContext = {
+  entry: QueuedWrite;
+  error: unknown;
+  // Unwrapped data API, for resolving the conflict (e.g. re-reading or merging the row).
+  data: BackendData;
+};
+
+export type OfflineQueueOptions = {
+  // Defaults to an in-memory storage, which does not survive restarts.
+  storage?: OfflineQueueStorage;
+  // Writes are queued without trying the network while this returns false. Defaults to
+  // `navigator.onLine` where available; otherwise the backend is always tried first.
+  isOnline?: () => boolean;
+  generateTempId?: () => string;
+  // Called when a replayed write is rejected by the backend (conflict, validation, permissions).
+  // Defaults to dropping the entry.
+  onConflict?: (
+    context: OfflineConflictContext,
+  ) => OfflineConflictResolution | Promise<OfflineConflictResolution>;
+  // Replays automatically on the browser's `online` event. Defaults to true.
+  replayOnReconnect?: boolean;
+};
+
+export type OfflineReplayResult = {
+  replayed: number;
+  dropped: QueuedWrite[];
+  // Entries still queued (the backend was unreachable again, or a conflict said `stop`).
+  remaining: number;
+};
+
+export type OfflineQueue = {
+  middleware: BackendMiddleware;
+  replay(): Promise<OfflineReplayResult>;
+  pending(): Promise<QueuedWrite[]>;
+  // The backend id for an optimistic temporary id once its `create` has been replayed.
+  resolveId(id: Id): Promise<Id>;
+  // Stops replaying on the `online` event. Queued writes stay in storage.
+  dispose(): void;
+};
+
+const WRITE_METHODS = new Set<string>(['create', 'update', 'upsert', 'delete']);
+
+// Backends whose writes a queue replays, registered by `withOfflineQueue`.
+const replayTargets = new WeakMap<OfflineQueue, BackendData>();
+
+export function createMemoryQueueStorage(): OfflineQueueStorage {
+  let state: OfflineQueueState | null = null;
+  return {
+    load: () => Promise.resolve(state ? structuredClone(state) : null),
+    save: (next) => {
+      state = structuredClone(next);
+      return Promise.resolve();
+    },
+  };
+}
+
+// Node only: keeps the queue in a JSON file, replaced atomically on every change. `node:fs` is
+// loaded lazily so browser bundles of the adapter never pull it in.
+export function createFileQueueStorage(filePath: string): OfflineQueueStorage {
+  // Saves are serialized so concurrent writes never rename each other's temp file away.
+  let queue: Promise<unknown> = Promise.resolve();
+  const write = async (state: OfflineQueueState) => {
+    const fs = await import('node:fs/promises');
+    const path = await import('node:path');
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(state, null, 2), 'utf8');
+    await fs.rename(tmp, filePath);
+  };
+  return {
+    async load() {
+      const fs = await import('node:fs/promises');
+      try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8')) as OfflineQueueState;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    save(state) {
+      const next = queue.then(() => write(state));
+      queue = next.catch(() => {});
+      return next;
+    },
+  };
+}
+
+function defaultIsOnline(): boolean {
+  const navigator = (globalThis as any).navigator;
+  return navigator?.onLine !== false;
+}
+
+function defaultTempId(): string {
+  return `temp_${globalThis.crypto.randomUUID()}`;
+}
+
+// Replaces temporary ids anywhere in the arguments (ids, payload fields, foreign keys).
+function mapIds(value: unknown, idMap: Record<string, Id>): unknown {
+  if (typeof value === 'string') return idMap[value] ?? value;
+  if (Array.isArray(value)) return value.map((v) => mapIds(v, idMap));
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, mapIds(v, idMap)]));
+  }
+  return value;
+}
+
+// What a queued write resolves to: the row as the caller will most likely see it after replay.
+function optimisticResult(entry: QueuedWrite): unknown {
+  const [first, second] = entry.args;
+  switch (entry.method) {
+    case 'create':
+      return { ...(first as DataRecord), id: (first as DataRecord).id ?? entry.tempId };
+    case 'update':
+      return { ...(second as DataRecord), id: first };
+    case 'upsert':
+      return first;
+    default:
+      return undefined;
+  }
+}
+
+export function createOfflineQueue(options: OfflineQueueOptions = {}): OfflineQueue {
+  const storage = options.storage ?? createMemoryQueueStorage();
+  const isOnline = options.isOnline ?? defaultIsOnline;
+  const generateTempId = options.generateTempId ?? defaultTempId;
+  const onConflict = options.onConflict ?? (() => 'drop' as const);
+
+  let state: Promise<OfflineQueueState> | null = null;
+  let replaying: Promise<OfflineReplayResult> | null = null;
+
+  function load(): Promise<OfflineQueueState> {
+    state ??= storage.load().then(
+      (s) => s ?? { entries: [], idMap: {} },
+      (error: unknown) => {
+        // A failed load (e.g. a locked file) is retried by the next call instead of sticking.
+        state = null;
+        throw error;
+      },
+    );
+    return state;
+  }
+
+  async function enqueue(operation: BackendOperation): Promise<unknown> {
+    const current = await load();
+    const [entity, ...args] = operation.args as [string, ...unknown[]];
+    const entry: QueuedWrite = {
+      id: globalThis.crypto.randomUUID(),
+      method: operation.method as OfflineWriteMethod,
+      entity,
+      args,
+      enqueuedAt: new Date().toISOString(),
+    };
+    if (entry.method === 'create' && (args[0] as DataRecord | undefined)?.id === undefined) {
+      entry.tempId = generateTempId();
+    }
+    current.entries.push(entry);
+    await storage.save(current);
+    return optimisticResult(entry);
+  }
+
+  const middleware: BackendMiddleware = async (operation, next) => {
+    if (operation.domain !== 'data' || !WRITE_METHODS.has(operation.method)) return next();
+
+    // Once anything is queued, later writes queue behind it so they replay in order.
+    const current = await load();
+    if (current.entries.length > 0 || !isOnline()) return enqueue(operation);
+
+    try {
+      return await next();
+    } catch (error) {
+      if (error instanceof NetworkError) return enqueue(operation);
+      throw error;
+    }
+  };
+
+  async function runReplay(): Promise<OfflineReplayResult> {
+    const current = await load();
+    const data = replayTargets.get(queue);
+    const result: OfflineReplayResult = { replayed: 0, dropped: [], remaining: 0 };
+    if (!data) throw new Error('Offline queue is not attached to a backend (use withOfflineQueue)');
+
+    while (current.entries.length > 0) {
+      const entry = current.entries[0]!;
+      const args = mapIds(entry.args, current.idMap) as unknown[];
+      try {
+        const write = (data[entry.method] as (...a: unknown[]) => Promise<unknown>).bind(data);
+        const written = await write(entry.entity, ...args);
+        if (entry.tempId && written && typeof written === 'object') {
+          const id = (written as DataRecord).id;
+          if (id !== undefined) current.idMap[entry.tempId] = id;
+        }
+        result.replayed++;
+      } catch (error) {
+        if (error instanceof NetworkError) break;
+        if ((await onConflict({ entry, error, data })) === 'stop') break;
+        result.dropped.push(entry);
+      }
+      current.entries.shift();
+      await storage.save(current);
+    }
+
+    result.remaining = current.entries.length;
+    return result;
+  }
+
+  const target = globalThis as any;
+  const onOnline = () => {
+    void queue.replay().catch(() => {});
+  };
+
+  const queue: OfflineQueue = {
+    middleware,
+    replay() {
+      // Concurrent calls (e.g. an `online` event during a manual replay) share one run.
+      replaying ??= runReplay().finally(() => {
+        replaying = null;
+      });
+      return replaying;
+    },
+    async pending() {
+      return structuredClone((await load()).entries);
+    },
+    async resolveId(id) {
+      return (await load()).idMap[id] ?? id;
+    },
+    dispose() {
+      if (typeof target.removeEventListener === 'function') {
+        target.removeEventListener('online', onOnline);
+      }
+    },
+  };
+
+  if (options.replayOnReconnect !== false && typeof target.addEventListener === 'function') {
+    target.addEventListener('online', onOnline);
+  }
+
+  return queue;
+}
+
+// Queues `create`/`update`/`upsert`/`delete` while the backend is unreachable and resolves them
+// optimistically. Call `queue.replay()` to flush (it also runs on the browser's `online` event
+// until `queue.dispose()`). Reads are not served from the queue.
+export function withOfflineQueue<B extends { data: unknown }>(backend: B, queue: OfflineQueue): B {
+  replayTargets.set(queue, backend.data as BackendData);
+  return withMiddleware(backend, [queue.middleware]);
+}
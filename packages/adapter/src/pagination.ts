@@ -0,0 +1,96 @@
+import { ValidationError } from './errors.js';
+import type { BackendData, DataOrderBy, DataPage, DataPageOptions, DataRecord } from './index.js';
+
+export type PageDirection = 'next' | 'prev';
+
+export type DecodedCursor = {
+  direction: PageDirection;
+  // Values of the order columns (in order) for the row the page starts after/before.
+  values: unknown[];
+};
+
+function toBase64Url(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+// Cursors are opaque to callers; adapters share this encoding so a cursor survives a change of
+// adapter (for example memory in tests, Supabase in production).
+export function encodeCursor(cursor: DecodedCursor): string {
+  return toBase64Url(JSON.stringify({ d: cursor.direction, v: cursor.values }));
+}
+
+export function decodeCursor(cursor: string): DecodedCursor {
+  try {
+    const parsed = JSON.parse(fromBase64Url(cursor));
+    if ((parsed.d === 'next' || parsed.d === 'prev') && Array.isArray(parsed.v)) {
+      return { direction: parsed.d, values: parsed.v };
+    }
+  } catch {
+    // Fall through to the validation error below.
+  }
+  throw new ValidationError('Invalid pagination cursor');
+}
+
+// Keyset pagination needs a total order, so `id` is appended as a tie-breaker when missing.
+export function normalizePageOrder(orderBy?: DataPageOptions['orderBy']): DataOrderBy[] {
+  const order = orderBy ? (Array.isArray(orderBy) ? [...orderBy] : [orderBy]) : [];
+  if (!order.some((o) => o.field === 'id')) order.push({ field: 'id', ascending: true });
+  return order;
+}
+
+// Builds a page from rows fetched with `pageSize + 1` as the limit. For `prev` pages the rows are
+// expected in reversed order (as fetched) and are flipped back here.
+export function buildPage<T extends DataRecord>(
+  rows: T[],
+  options: {
+    pageSize: number;
+    order: DataOrderBy[];
+    direction: PageDirection;
+    hasCursor: boolean;
+  },
+): DataPage<T> {
+  const hasMore = rows.length > options.pageSize;
+  const items = rows.slice(0, options.pageSize);
+  if (options.direction === 'prev') items.reverse();
+
+  const cursorFor = (row: T | undefined, direction: PageDirection): string | null =>
+    row
+      ? encodeCursor({ direction, values: options.order.map((o) => row[o.field] ?? null) })
+      : null;
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  if (options.direction === 'next') {
+    return {
+      items,
+      nextCursor: hasMore ? cursorFor(last, 'next') : null,
+      prevCursor: options.hasCursor ? cursorFor(first, 'prev') : null,
+    };
+  }
+  return {
+    items,
+    nextCursor: cursorFor(last, 'next'),
+    prevCursor: hasMore ? cursorFor(first, 'prev') : null,
+  };
+}
+
+// Walks every record matching `options`, one page at a time.
+export async function* iterateAll<T extends DataRecord>(
+  data: BackendData,
+  entity: string,
+  options: Omit<DataPageOptions, 'cursor'>,
+): AsyncGenerator<T, void, undefined> {
+  let cursor: string | null = null;
+  do {
+    const page: DataPage<T> = await data.readPage<T>(entity, { ...options, cursor });
+    yield* page.items;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
@@ -0,0 +1,89 @@
+import { ValidationError } from './errors.js';
+
+// Postgres range literals such as `[2024-01-01,2024-02-01)` or `(1,)`. Discrete ranges are
+// compared as written: Postgres canonicalizes them to `[)` form, which is what it returns.
+
+type Bound = { value: number | string | null; inclusive: boolean };
+type Range = { lower: Bound; upper: Bound };
+
+export type RangeOp = 'rangeGt' | 'rangeGte' | 'rangeLt' | 'rangeLte' | 'rangeAdjacent';
+
+function parseBound(text: string, inclusive: boolean): Bound {
+  let raw = text.trim();
+  if (raw.startsWith('"') && raw.endsWith('"') && raw.length >= 2) raw = raw.slice(1, -1);
+  if (raw === '' || raw === 'infinity' || raw === '-infinity') return { value: null, inclusive };
+  return { value: /^-?\d+(\.\d+)?$/.test(raw) ? Number(raw) : raw, inclusive };
+}
+
+// Returns null for the empty range, which no range operator matches.
+export function parseRange(value: unknown): Range | null {
+  const text = String(value as string).trim();
+  if (text.toLowerCase() === 'empty') return null;
+  const parsed = /^([[(])(.*?),(.*)([\])])$/.exec(text);
+  if (!parsed) throw new ValidationError(`Invalid range literal: ${text}`);
+  const [, open, lower = '', upper = '', close] = parsed;
+  return { lower: parseBound(lower, open === '['), upper: parseBound(upper, close === ']') };
+}
+
+function compareValues(a: number | string, b: number | string): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  const sa = String(a);
+  const sb = String(b);
+  return sa < sb ? -1 : sa > sb ? 1 : 0;
+}
+
+// Unbounded lower bounds sort first; at equal values an inclusive bound starts earlier.
+function compareLower(a: Bound, b: Bound): number {
+  if (a.value === null || b.value === null) {
+    return a.value === null ? (b.value === null ? 0 : -1) : 1;
+  }
+  const c = compareValues(a.value, b.value);
+  if (c !== 0 || a.inclusive === b.inclusive) return c;
+  return a.inclusive ? -1 : 1;
+}
+
+// Unbounded upper bounds sort last; at equal values an inclusive bound ends later.
+function compareUpper(a: Bound, b: Bound): number {
+  if (a.value === null || b.value === null) {
+    return a.value === null ? (b.value === null ? 0 : 1) : -1;
+  }
+  const c = compareValues(a.value, b.value);
+  if (c !== 0 || a.inclusive === b.inclusive) return c;
+  return a.inclusive ? 1 : -1;
+}
+
+function strictlyLeft(a: Range, b: Range): boolean {
+  if (a.upper.value === null || b.lower.value === null) return false;
+  const c = compareValues(a.upper.value, b.lower.value);
+  return c < 0 || (c === 0 && !(a.upper.inclusive && b.lower.inclusive));
+}
+
+// No value lies between the ranges and they do not overlap, e.g. `[1,2)` and `[2,3)`.
+function touches(upper: Bound, lower: Bound): boolean {
+  if (upper.value === null || lower.value === null) return false;
+  return compareValues(upper.value, lower.value) === 0 && upper.inclusive !== lower.inclusive;
+}
+
+export function rangesOverlap(actual: unknown, value: unknown): boolean {
+  const a = parseRange(actual);
+  const b = parseRange(value);
+  return !!a && !!b && !strictlyLeft(a, b) && !strictlyLeft(b, a);
+}
+
+export function matchesRange(op: RangeOp, actual: unknown, value: unknown): boolean {
+  const a = parseRange(actual);
+  const b = parseRange(value);
+  if (!a || !b) return false;
+  switch (op) {
+    case 'rangeGt':
+      return strictlyLeft(b, a);
+    case 'rangeGte':
+      return compareLower(a.lower, b.lower) >= 0;
+    case 'rangeLt':
+      return strictlyLeft(a, b);
+    case 'rangeLte':
+      return compareUpper(a.upper, b.upper) <= 0;
+    case 'rangeAdjacent':
+      return touches(a.upper, b.lower) || touches(b.upper, a.lower);
+  }
+}
@@ -0,0 +1,58 @@
+import { matchesFilter } from './filters.js';
+import type {
+  BackendRealtime,
+  DataRecord,
+  RealtimeChange,
+  RealtimeSubscribeOptions,
+} from './index.js';
+
+type Listener = {
+  entity: string;
+  callback: (change: RealtimeChange<any>) => void;
+  options?: RealtimeSubscribeOptions;
+};
+
+// Realtime delivery for in-process adapters (memory, SQLite): writes `emit` changes and matching
+// subscribers get a copy.
+export type RealtimeHub = {
+  realtime: BackendRealtime;
+  emit(change: RealtimeChange): void;
+};
+
+export function createRealtimeHub(): RealtimeHub {
+  const listeners = new Set<Listener>();
+
+  function wants(listener: Listener, change: RealtimeChange): boolean {
+    if (listener.entity !== change.entity) return false;
+    const events = listener.options?.events;
+    if (events) {
+      const list = Array.isArray(events) ? events : [events];
+      if (!list.includes(change.event)) return false;
+    }
+    const filter = listener.options?.filter;
+    if (filter) {
+      const row = (change.new ?? change.old ?? {}) as DataRecord;
+      if (!matchesFilter(row, filter)) return false;
+    }
+    return true;
+  }
+
+  return {
+    realtime: {
+      subscribe(entity, callback, options) {
+        const listener: Listener = { entity, callback, options };
+        listeners.add(listener);
+        return {
+          unsubscribe: () => {
+            listeners.delete(listener);
+          },
+        };
+      },
+    },
+    emit(change) {
+      for (const listener of [...listeners]) {
+        if (wants(listener, change)) listener.callback(structuredClone(change));
+      }
+    },
+  };
+}
@@ -0,0 +1,360 @@
+import {
+  BackendError,
+  ConflictError,
+  FieldValidationError,
+  ForbiddenError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  UnauthorizedError,
+  ValidationError,
+  type BackendErrorCode,
+  type BackendErrorOptions,
+  type FieldIssue,
+} from './errors.js';
+import type { AdminBackend, EntitySchema } from './index.js';
+import {
+  withMiddleware,
+  type BackendDomain,
+  type BackendMiddleware,
+  type BackendOperation,
+} from './middleware.js';
+
+export type RecordedError = {
+  name: string;
+  message: string;
+  code?: BackendErrorCode;
+  status?: number;
+  entity?: string;
+  bucket?: string;
+  // Field issues of a `FieldValidationError`.
+  issues?: FieldIssue[];
+};
+
+// Arguments and results are stored as JSON; bytes (uploads, downloads) as `{ $bytes: base64 }`.
+export type RecordedCall = {
+  domain: BackendDomain;
+  method: string;
+  args: unknown[];
+  result?: unknown;
+  error?: RecordedError;
+};
+
+export type BackendFixture = {
+  version: 1;
+  calls: RecordedCall[];
+};
+
+export type BackendRecorder = {
+  middleware: BackendMiddleware;
+  // In call order; a call is listed as soon as it starts and completed when it settles.
+  readonly calls: RecordedCall[];
+  fixture(): BackendFixture;
+  // Node only: writes the fixture as JSON.
+  save(filePath: string): Promise<void>;
+};
+
+// `strict` replays calls in recorded order and requires equal arguments. `loose` matches each
+// call by domain, method and entity or bucket in any order, preferring a recorded call with equal
+// arguments, so generated ids or timestamps in payloads do not break a replay.
+export type ReplayMatching = 'strict' | 'loose';
+
+export type ReplayBackendOptions = {
+  matching?: ReplayMatching;
+  // Used to build `storage.getPublicUrl` results, which are never recorded.
+  storageBaseUrl?: string;
+};
+
+// A call the fixture has no answer for. Not a `BackendError`: it signals a stale fixture or a
+// changed call site, not a backend failure the app should handle.
+export class ReplayMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayMismatchError';
+  }
+}
+
+const FIXTURE_VERSION = 1;
+
+// Every async method a replayed backend answers. Synchronous methods (auth listeners, public URLs,
+// realtime) never reach middleware, so they are not recorded and get inert stand-ins instead.
+const REPLAYED_METHODS: Record<BackendDomain, string[]> = {
+  auth: [
+    'signIn',
+    'signUp',
+    'signInWithOtp',
+    'verifyOtp',
+    'signInWithOAuth',
+    'exchangeCodeForSession',
+    'resetPasswordForEmail',
+    'updatePassword',
+    'signOut',
+    'getUser',
+    'getSession',
+  ],
+  data: [
+    'create',
+    'read',
+    'readPage',
+    'count',
+    'aggregate',
+    'upsert',
+    'update',
+    'delete',
+    'createMany',
+    'updateWhere',
+    'deleteWhere',
+    'restore',
+    'purge',
+  ],
+  storage: ['upload', 'download', 'remove', 'list', 'createSignedUrl'],
+  rpc: ['call'],
+  admin: ['listUsers', 'getUser', 'createUser', 'updateUser', 'deleteUser', 'setAppMetadata'],
+};
+
+const ERROR_CLASSES: Partial<
+  Record<BackendErrorCode, new (message: string, options?: BackendErrorOptions) => BackendError>
+> = {
+  not_found: NotFoundError,
+  conflict: ConflictError,
+  unauthorized: UnauthorizedError,
+  forbidden: ForbiddenError,
+  validation: ValidationError,
+  rate_limited: RateLimitedError,
+  network: NetworkError,
+};
+
+function encodeBytes(bytes: Uint8Array): { $bytes: string } {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return { $bytes: btoa(binary) };
+}
+
+function isEncodedBytes(value: unknown): value is { $bytes: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { $bytes?: unknown }).$bytes === 'string'
+  );
+}
+
+async function toFixtureValue(value: unknown): Promise<unknown> {
+  if (value instanceof Uint8Array) return encodeBytes(value);
+  if (value instanceof ArrayBuffer) return encodeBytes(new Uint8Array(value));
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    return encodeBytes(new Uint8Array(await value.arrayBuffer()));
+  }
+  if (Array.isArray(value)) return Promise.all(value.map(toFixtureValue));
+  if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([k, v]) => [k, await toFixtureValue(v)] as const),
+    );
+    return Object.fromEntries(entries);
+  }
+  // Round-trips through JSON, so dates become ISO strings.
+  return value === undefined ? undefined : (JSON.parse(JSON.stringify(value)) as unknown);
+}
+
+function fromFixtureValue(value: unknown): unknown {
+  if (isEncodedBytes(value)) return Uint8Array.from(atob(value.$bytes), (c) => c.charCodeAt(0));
+  if (Array.isArray(value)) return value.map(fromFixtureValue);
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fromFixtureValue(v)]));
+  }
+  return value;
+}
+
+// Trailing `undefined` arguments are dropped, so `read('todos')` and `read('todos', undefined)`
+// record the same call.
+async function toFixtureArgs(args: unknown[]): Promise<unknown[]> {
+  let end = args.length;
+  while (end > 0 && args[end - 1] === undefined) end--;
+  return (await toFixtureValue(args.slice(0, end))) as unknown[];
+}
+
+function toRecordedError(error: unknown): RecordedError {
+  if (error instanceof BackendError) {
+    return {
+      name: error.name,
+      message: error.message,
+      code: error.code,
+      status: error.status,
+      entity: error.entity,
+      bucket: error.bucket,
+      issues: error instanceof FieldValidationError ? error.issues : undefined,
+    };
+  }
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: 'Error', message: String(error as string) };
+}
+
+function fromRecordedError(recorded: RecordedError): Error {
+  if (recorded.code) {
+    const options = { status: recorded.status, entity: recorded.entity, bucket: recorded.bucket };
+    if (recorded.issues) return new FieldValidationError(recorded.issues, options);
+    const ErrorClass = ERROR_CLASSES[recorded.code];
+    return ErrorClass
+      ? new ErrorClass(recorded.message, options)
+      : new BackendError(recorded.message, recorded.code, options);
+  }
+  const error = new Error(recorded.message);
+  error.name = recorded.name;
+  return error;
+}
+
+// JSON with sorted keys, so objects compare equal regardless of key order.
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    typeof v === 'object' && v !== null && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v,
+  );
+}
+
+function describeCall(domain: string, method: string, args: unknown[]): string {
+  return `${domain}.${method}(${canonicalJson(args).slice(1, -1)})`;
+}
+
+export function createBackendRecorder(): BackendRecorder {
+  const calls: RecordedCall[] = [];
+
+  const middleware: BackendMiddleware = async (operation: BackendOperation, next) => {
+    const call: RecordedCall = {
+      domain: operation.domain,
+      method: operation.method,
+      args: await toFixtureArgs(operation.args),
+    };
+    calls.push(call);
+    try {
+      const result = await next();
+      call.result = await toFixtureValue(result);
+      return result;
+    } catch (error) {
+      call.error = toRecordedError(error);
+      throw error;
+    }
+  };
+
+  const fixture = (): BackendFixture => ({
+    version: FIXTURE_VERSION,
+    calls: structuredClone(calls),
+  });
+
+  return {
+    middleware,
+    calls,
+    fixture,
+    async save(filePath) {
+      const fs = await import('node:fs/promises');
+      const path = await import('node:path');
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, `${JSON.stringify(fixture(), null, 2)}\n`, 'utf8');
+    },
+  };
+}
+
+// Captures every async call made through the returned backend, with its arguments and result or
+// error, into `recorder`. Record once against a real backend (e.g. `createLocalSupabaseBackend`),
+// `save` the fixture, and serve it in tests with `createReplayBackend`.
+export function withRecording<B extends object>(backend: B, recorder: BackendRecorder): B {
+  return withMiddleware(backend, [recorder.middleware]);
+}
+
+// Node only: reads a fixture written by `BackendRecorder.save`.
+export async function readBackendFixture(filePath: string): Promise<BackendFixture> {
+  const fs = await import('node:fs/promises');
+  const fixture = JSON.parse(await fs.readFile(filePath, 'utf8')) as BackendFixture;
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported backend fixture version: ${String(fixture.version)}`);
+  }
+  return fixture;
+}
+
+// A backend that answers from a recorded fixture instead of a server: results are returned and
+// errors rethrown as the matching `BackendError` subclass. A call without a recorded answer throws
+// `ReplayMismatchError`.
+export function createReplayBackend<S extends EntitySchema = EntitySchema>(
+  fixture: BackendFixture,
+  options: ReplayBackendOptions = {},
+): AdminBackend<S> {
+  const matching = options.matching ?? 'strict';
+  const storageBaseUrl = options.storageBaseUrl ?? 'replay://storage';
+  const calls = fixture.calls;
+  const used = new Set<number>();
+  let position = 0;
+
+  function sameTarget(call: RecordedCall, domain: BackendDomain, method: string, args: unknown[]) {
+    // The entity or bucket must match; other arguments may differ.
+    const target = domain === 'data' || domain === 'storage' ? call.args[0] === args[0] : true;
+    return call.domain === domain && call.method === method && target;
+  }
+
+  function findStrict(domain: BackendDomain, method: string, args: unknown[]): number {
+    const call = calls[position];
+    const actual = describeCall(domain, method, args);
+    if (!call)
+      throw new ReplayMismatchError(`Unexpected call past the end of the fixture: ${actual}`);
+    if (
+      call.domain !== domain ||
+      call.method !== method ||
+      canonicalJson(call.args) !== canonicalJson(args)
+    ) {
+      const expected = describeCall(call.domain, call.method, call.args);
+      throw new ReplayMismatchError(`Expected ${expected} at call ${position}, got ${actual}`);
+    }
+    return position++;
+  }
+
+  function findLoose(domain: BackendDomain, method: string, args: unknown[]): number {
+    const key = canonicalJson(args);
+    const candidates = [...calls.keys()].filter((i) => sameTarget(calls[i]!, domain, method, args));
+    const exact = candidates.filter((i) => canonicalJson(calls[i]!.args) === key);
+    // Unused calls first; once all are used, the last one answers repeats.
+    const index =
+      exact.find((i) => !used.has(i)) ??
+      candidates.find((i) => !used.has(i)) ??
+      exact.at(-1) ??
+      candidates.at(-1);
+    if (index === undefined) {
+      throw new ReplayMismatchError(
+        `No recorded call matches ${describeCall(domain, method, args)}`,
+      );
+    }
+    used.add(index);
+    return index;
+  }
+
+  async function replay(domain: BackendDomain, method: string, rawArgs: unknown[]) {
+    const args = await toFixtureArgs(rawArgs);
+    const index =
+      matching === 'strict' ? findStrict(domain, method, args) : findLoose(domain, method, args);
+    const call = calls[index]!;
+    if (call.error) throw fromRecordedError(call.error);
+    return fromFixtureValue(structuredClone(call.result));
+  }
+
+  const domains = Object.fromEntries(
+    Object.entries(REPLAYED_METHODS).map(([domain, methods]) => [
+      domain,
+      Object.fromEntries(
+        methods.map((method) => [
+          method,
+          (...args: unknown[]) => replay(domain as BackendDomain, method, args),
+        ]),
+      ),
+    ]),
+  ) as Record<BackendDomain, Record<string, unknown>>;
+
+  return {
+    ...domains,
+    auth: { ...domains.auth, onAuthStateChange: () => ({ unsubscribe: () => {} }) },
+    storage: {
+      ...domains.storage,
+      getPublicUrl: (bucket: string, path: string) => ({
+        publicUrl: `${storageBaseUrl}/${bucket}/${path}`,
+      }),
+    },
+    realtime: { subscribe: () => ({ unsubscribe: () => {} }) },
+  } as unknown as AdminBackend<S>;
+}
@@ -0,0 +1,194 @@
+import { BackendError, CircuitOpenError, NetworkError, RateLimitedError } from './errors.js';
+import {
+  withMiddleware,
+  type BackendDomain,
+  type BackendMiddleware,
+  type BackendOperation,
+} from './middleware.js';
+
+export type RetryPolicy = {
+  // Total attempts including the first one. Defaults to 3.
+  maxAttempts?: number;
+  // Delay before the first retry; doubled for every further attempt. Defaults to 200ms.
+  baseDelayMs?: number;
+  // Upper bound for a single delay. Defaults to 5s.
+  maxDelayMs?: number;
+  // Full jitter (a random delay between 0 and the backoff) avoids synchronized retries from many
+  // clients. Defaults to true.
+  jitter?: boolean;
+  // Methods considered safe to repeat. Defaults to the domain's read-only methods.
+  methods?: string[];
+  // Which errors are worth retrying. Defaults to `isTransientError`.
+  retryOn?: (error: unknown, operation: BackendOperation) => boolean;
+};
+
+export type CircuitBreakerPolicy = {
+  // Consecutive transient failures that open the circuit. Defaults to 5.
+  failureThreshold?: number;
+  // How long the circuit stays open before a single trial call is let through. Defaults to 30s.
+  resetTimeoutMs?: number;
+};
+
+// Per-domain policies. `default` applies to domains without their own entry; `false` disables
+// the policy for a domain.
+export type DomainPolicies<P> = Partial<Record<BackendDomain | 'default', P | false>>;
+
+export type ResilienceOptions = {
+  retry?: DomainPolicies<RetryPolicy>;
+  circuitBreaker?: DomainPolicies<CircuitBreakerPolicy>;
+};
+
+// Read-only methods that can be repeated without side effects.
+export const IDEMPOTENT_METHODS: Record<BackendDomain, readonly string[]> = {
+  auth: ['getSession', 'getUser'],
+  data: ['read', 'readPage', 'count', 'aggregate'],
+  storage: ['download', 'list', 'createSignedUrl'],
+  rpc: [],
+  admin: ['listUsers', 'getUser'],
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 200;
+const DEFAULT_MAX_DELAY_MS = 5000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+// Network failures, rate limiting, timeouts and 5xx responses. Client errors (validation,
+// conflicts, missing rows) would fail the same way again.
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) return false;
+  if (error instanceof NetworkError || error instanceof RateLimitedError) return true;
+  if (error instanceof BackendError && error.status !== undefined) {
+    return error.status === 408 || error.status >= 500;
+  }
+  return false;
+}
+
+function backoffDelay(policy: RetryPolicy, retry: number): number {
+  const base = policy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const max = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const delay = Math.min(max, base * 2 ** (retry - 1));
+  return policy.jitter === false ? delay : Math.random() * delay;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function policyFor<P>(policies: DomainPolicies<P>, domain: BackendDomain): P | undefined {
+  const policy = policies[domain] ?? policies.default;
+  return policy === false ? undefined : policy;
+}
+
+// Identifies what a breaker protects: a table, a bucket, an RPC function or an auth/admin method.
+function endpointOf(operation: BackendOperation): string {
+  const target =
+    operation.entity ??
+    operation.bucket ??
+    (operation.domain === 'rpc' && typeof operation.args[0] === 'string'
+      ? operation.args[0]
+      : operation.method);
+  return `${operation.domain}:${target}`;
+}
+
+export function retryMiddleware(policy: RetryPolicy = {}): BackendMiddleware {
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const retryOn = policy.retryOn ?? isTransientError;
+
+  return async (operation, next) => {
+    const methods = policy.methods ?? IDEMPOTENT_METHODS[operation.domain];
+    if (!methods.includes(operation.method)) return next();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await next();
+      } catch (error) {
+        if (attempt >= maxAttempts || !retryOn(error, operation)) throw error;
+        await sleep(backoffDelay(policy, attempt));
+      }
+    }
+  };
+}
+
+type CircuitState = { failures: number; openedAt: number | null; trialInFlight: boolean };
+
+// Tracks consecutive transient failures per endpoint. While open, calls fail fast with
+// `CircuitOpenError`; after `resetTimeoutMs` one trial call decides whether it closes again.
+export function circuitBreakerMiddleware(
+  policy: CircuitBreakerPolicy = {},
+  now: () => number = Date.now,
+): BackendMiddleware {
+  const threshold = Math.max(1, policy.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD);
+  const resetTimeoutMs = policy.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+  const circuits = new Map<string, CircuitState>();
+
+  return async (operation, next) => {
+    const endpoint = endpointOf(operation);
+    let state = circuits.get(endpoint);
+    if (!state) {
+      state = { failures: 0, openedAt: null, trialInFlight: false };
+      circuits.set(endpoint, state);
+    }
+
+    let trial = false;
+    if (state.openedAt !== null) {
+      if (now() - state.openedAt < resetTimeoutMs || state.trialInFlight) {
+        throw new CircuitOpenError(endpoint, {
+          entity: operation.entity,
+          bucket: operation.bucket,
+        });
+      }
+      trial = true;
+      state.trialInFlight = true;
+    }
+
+    try {
+      const result = await next();
+      state.failures = 0;
+      state.openedAt = null;
+      return result;
+    } catch (error) {
+      if (isTransientError(error)) {
+        state.failures++;
+        if (trial || state.failures >= threshold) state.openedAt = now();
+      } else if (trial) {
+        // The backend answered, so it is reachable again.
+        state.failures = 0;
+        state.openedAt = null;
+      }
+      throw error;
+    } finally {
+      if (trial) state.trialInFlight = false;
+    }
+  };
+}
+
+// Routes each operation to the middleware built for its domain, so every domain gets its own
+// retry policy and its own set of circuits.
+function perDomain<P>(
+  policies: DomainPolicies<P>,
+  create: (policy: P) => BackendMiddleware,
+): BackendMiddleware {
+  const byDomain = new Map<BackendDomain, BackendMiddleware | null>();
+  return (operation, next) => {
+    let middleware = byDomain.get(operation.domain);
+    if (middleware === undefined) {
+      const policy = policyFor(policies, operation.domain);
+      middleware = policy ? create(policy) : null;
+      byDomain.set(operation.domain, middleware);
+    }
+    return middleware ? middleware(operation, next) : next();
+  };
+}
+
+// Adds retries and circuit breakers to any backend. The breaker wraps the retries, so it counts
+// operations that still failed after their last attempt. Without policies the backend is returned
+// unchanged.
+export function withResilience<B extends object>(backend: B, options: ResilienceOptions): B {
+  const middleware: BackendMiddleware[] = [];
+  if (options.circuitBreaker) {
+    middleware.push(perDomain(options.circuitBreaker, (p) => circuitBreakerMiddleware(p)));
+  }
+  if (options.retry) middleware.push(perDomain(options.retry, (p) => retryMiddleware(p)));
+  return withMiddleware(backend, middleware);
+}
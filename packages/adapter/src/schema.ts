@@ -0,0 +1,7 @@
+import type { Backend, EntitySchema } from './index.js';
+
+// Applies a compile-time schema to an untyped backend. Nothing is checked at runtime; adapters use
+// this to return `Backend<S>` from their factories.
+export function withSchema<S extends EntitySchema>(backend: Backend): Backend<S> {
+  return backend as unknown as Backend<S>;
+}
@@ -0,0 +1,6 @@
+// For adapters over synchronous stores (in-memory maps, better-sqlite3), whose Backend methods
+// still return promises. Runs `operation` right away; an error it throws rejects the promise, as
+// it would in an async method.
+export function settle<T>(operation: () => T): Promise<T> {
+  return new Promise((resolve) => resolve(operation()));
+}
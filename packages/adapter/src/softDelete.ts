@@ -0,0 +1,35 @@
+import type { DataFilterNode } from './index.js';
+
+export type SoftDeleteOptions = {
+  // Entities whose `delete`/`deleteWhere` only mark rows as deleted. Use `purge` to remove them.
+  entities: string[];
+  // Timestamp column set on delete and cleared by `restore`. Defaults to `deleted_at`.
+  column?: string;
+};
+
+const DEFAULT_SOFT_DELETE_COLUMN = 'deleted_at';
+
+type SoftDeleteReadOptions = { filters?: DataFilterNode[]; includeDeleted?: boolean };
+
+// The column marking deleted rows of an entity, or null when its deletes are permanent.
+export function softDeleteColumn(
+  options: SoftDeleteOptions | undefined,
+  entity: string,
+): string | null {
+  if (!options?.entities.includes(entity)) return null;
+  return options.column ?? DEFAULT_SOFT_DELETE_COLUMN;
+}
+
+// Adds the `column is null` filter that hides soft-deleted rows, unless `includeDeleted` is set.
+export function excludeSoftDeleted<O extends SoftDeleteReadOptions | undefined>(
+  options: SoftDeleteOptions | undefined,
+  entity: string,
+  readOptions: O,
+): O {
+  const column = softDeleteColumn(options, entity);
+  if (!column || readOptions?.includeDeleted) return readOptions;
+  return {
+    ...readOptions,
+    filters: [...(readOptions?.filters ?? []), { field: column, op: 'is', value: null }],
+  } as O;
+}
@@ -0,0 +1,152 @@
+import { ValidationError } from './errors.js';
+import type { BackendStorage, DataFilterNode, DataRecord, Id } from './index.js';
+import { withMiddleware, type BackendMiddleware } from './middleware.js';
+
+export type TenantScope = {
+  // Column holding the tenant on every scoped table, e.g. `org_id`.
+  column: string;
+  value: string | number;
+  // Only these entities are scoped; others (shared lookup tables) pass through. Defaults to all.
+  entities?: string[];
+  // Folder prepended to storage paths. Defaults to the tenant value; `false` leaves paths as is.
+  storageFolder?: string | false;
+};
+
+// Methods whose options (second argument) take `filters`.
+const READ_METHODS = new Set(['read', 'readPage', 'count', 'aggregate']);
+// Storage methods whose second argument is a path (or, for `remove`, paths).
+const STORAGE_PATH_METHODS = new Set(['upload', 'download', 'remove', 'list', 'createSignedUrl']);
+
+function joinPath(folder: string, path: string | undefined): string {
+  const rest = (path ?? '').replace(/^\/+/, '');
+  return rest ? `${folder}/${rest}` : folder;
+}
+
+function storageFolderOf(scope: TenantScope): string | null {
+  return scope.storageFolder === false ? null : (scope.storageFolder ?? String(scope.value));
+}
+
+function tenantMiddleware(scope: TenantScope): BackendMiddleware {
+  const { column, value } = scope;
+  const tenantFilter: DataFilterNode = { field: column, op: 'eq', value };
+  const folder = storageFolderOf(scope);
+
+  // Rows written through the scope always belong to the tenant; naming another one is an error
+  // rather than a silent reassignment.
+  function stamp(entity: string, row: DataRecord): DataRecord {
+    const current = row[column];
+    if (current !== undefined && current !== null && String(current as string) !== String(value)) {
+      throw new ValidationError(`Row is outside the tenant scope (${column})`, { entity });
+    }
+    return { ...row, [column]: value };
+  }
+
+  return async (operation, next) => {
+    if (operation.domain === 'storage') {
+      if (folder === null || !STORAGE_PATH_METHODS.has(operation.method)) return next();
+      const [bucket, path, ...rest] = operation.args;
+      const scoped = Array.isArray(path)
+        ? path.map((p) => joinPath(folder, p as string))
+        : joinPath(folder, path as string | undefined);
+      return next({ ...operation, args: [bucket, scoped, ...rest] });
+    }
+
+    const entity = operation.entity;
+    if (operation.domain !== 'data' || !entity) return next();
+    if (scope.entities && !scope.entities.includes(entity)) return next();
+    const args = operation.args;
+    const call = (method: string, rest: unknown[]): ReturnType<typeof next> =>
+      next({ ...operation, method, args: [entity, ...rest] });
+
+    switch (operation.method) {
+      case 'create':
+        return call('create', [stamp(entity, args[1] as DataRecord)]);
+      case 'createMany':
+        return call('createMany', [(args[1] as DataRecord[]).map((row) => stamp(entity, row))]);
+      case 'upsert': {
+        const rows = args[1] as DataRecord | DataRecord[];
+        const stamped = Array.isArray(rows)
+          ? rows.map((row) => stamp(entity, row))
+          : stamp(entity, rows);
+        // Stamping alone would let a row keyed like another tenant's overwrite it and move it
+        // into this tenant, so rows already holding the conflict keys must belong to the tenant.
+        const options = args[2] as { onConflict?: string } | undefined;
+        const conflict = (options?.onConflict ?? 'id').split(',').map((c) => c.trim());
+        const keyed = (Array.isArray(stamped) ? stamped : [stamped]).filter((row) =>
+          conflict.every((c) => row[c] !== undefined),
+        );
+        if (keyed.length > 0) {
+          const matches: DataFilterNode = {
+            or: keyed.map((row) => ({
+              and: conflict.map((c): DataFilterNode => ({ field: c, op: 'eq', value: row[c] })),
+            })),
+          };
+          const existing = (await call('read', [
+            { filters: [matches], select: [column], includeDeleted: true },
+          ])) as DataRecord[];
+          if (existing.some((row) => String(row[column] as string) !== String(value))) {
+            throw new ValidationError(`Row is outside the tenant scope (${column})`, { entity });
+          }
+        }
+        return call('upsert', [stamped, ...args.slice(2)]);
+      }
+      case 'update': {
+        // By id alone another tenant's row could be changed, so this becomes a filtered update.
+        const [, id, patch] = args as [string, Id, DataRecord];
+        const idFilter: DataFilterNode = { field: 'id', op: 'eq', value: id };
+        const rows = await call('updateWhere', [[idFilter, tenantFilter], stamp(entity, patch)]);
+        return (rows as DataRecord[])[0] ?? { id, ...patch };
+      }
+      case 'delete': {
+        const idFilter: DataFilterNode = { field: 'id', op: 'eq', value: args[1] };
+        await call('deleteWhere', [[idFilter, tenantFilter]]);
+        return undefined;
+      }
+      case 'restore':
+      case 'purge': {
+        // There is no filtered variant, so the row is first looked up within the tenant.
+        const row = await call('read', [
+          { id: args[1], filters: [tenantFilter], select: ['id'], includeDeleted: true },
+        ]);
+        return row ? next() : undefined;
+      }
+      case 'updateWhere':
+        return call('updateWhere', [
+          [...(args[1] as DataFilterNode[]), tenantFilter],
+          stamp(entity, args[2] as DataRecord),
+        ]);
+      case 'deleteWhere':
+        return call('deleteWhere', [[...(args[1] as DataFilterNode[]), tenantFilter]]);
+      default: {
+        if (!READ_METHODS.has(operation.method)) return next();
+        const options = (args[1] ?? {}) as { filters?: DataFilterNode[] };
+        return call(operation.method, [
+          { ...options, filters: [...(options.filters ?? []), tenantFilter] },
+          ...args.slice(2),
+        ]);
+      }
+    }
+  };
+}
+
+// Confines a backend to one tenant: reads, counts and bulk operations get a tenant filter,
+// writes by id (`update`, `delete`, `restore`, `purge`) only touch the tenant's rows, written rows
+// get the tenant column, and storage paths are placed in the tenant's folder. This is a
+// convenience for application code; the database must still enforce the boundary with RLS (see
+// `init-supabase --tenant-column`).
+// Realtime subscriptions, RPC and auth are not scoped.
+export function scopeBackend<B extends object>(backend: B, scope: TenantScope): B {
+  const scoped = withMiddleware(backend, [tenantMiddleware(scope)]) as B & {
+    storage?: BackendStorage;
+  };
+  const folder = storageFolderOf(scope);
+  // `getPublicUrl` is synchronous, so it bypasses the middleware pipeline.
+  if (folder !== null && scoped.storage) {
+    const storage = scoped.storage;
+    scoped.storage = {
+      ...storage,
+      getPublicUrl: (bucket, path) => storage.getPublicUrl(bucket, joinPath(folder, path)),
+    };
+  }
+  return scoped;
+}
@@ -0,0 +1,128 @@
+import { ValidationError } from './errors.js';
+import type { DataTextSearchOptions } from './index.js';
+
+// Approximates Postgres full-text search: documents and queries are split into lowercase words.
+// There is no stemming and there are no stop words, so the `config` is ignored and `cats` does
+// not match `cat` (use a `:*` prefix in tsquery syntax instead).
+
+type Query =
+  | { kind: 'term'; word: string; prefix: boolean }
+  | { kind: 'phrase'; words: string[] }
+  | { kind: 'not'; query: Query }
+  | { kind: 'and' | 'or'; queries: Query[] };
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function phraseOrTerm(text: string): Query | null {
+  const found = words(text);
+  if (found.length === 0) return null;
+  return found.length === 1
+    ? { kind: 'term', word: found[0]!, prefix: false }
+    : { kind: 'phrase', words: found };
+}
+
+// `to_tsquery` syntax: `&`, `|`, `!`, parentheses and `:*` prefixes. `<->` is not supported.
+function parseTsQuery(text: string): Query {
+  const tokens = text.match(/'(?:[^']|'')*'(?::\*)?|[&|!()]|[^\s&|!()']+/g) ?? [];
+  let position = 0;
+  const fail = (): never => {
+    throw new ValidationError(`Unsupported text search query: ${text}`);
+  };
+
+  function parseOr(): Query {
+    const queries = [parseAnd()];
+    while (tokens[position] === '|') {
+      position++;
+      queries.push(parseAnd());
+    }
+    return queries.length === 1 ? queries[0]! : { kind: 'or', queries };
+  }
+  function parseAnd(): Query {
+    const queries = [parseUnary()];
+    while (tokens[position] === '&') {
+      position++;
+      queries.push(parseUnary());
+    }
+    return queries.length === 1 ? queries[0]! : { kind: 'and', queries };
+  }
+  function parseUnary(): Query {
+    const token = tokens[position++] ?? fail();
+    if (token === '!') return { kind: 'not', query: parseUnary() };
+    if (token === '(') {
+      const inner = parseOr();
+      if (tokens[position++] !== ')') fail();
+      return inner;
+    }
+    if (token === '&' || token === '|' || token === ')') fail();
+    const prefix = token.endsWith(':*');
+    const raw = prefix ? token.slice(0, -2) : token;
+    const query = phraseOrTerm(raw.replace(/^'|'$/g, '').replaceAll("''", "'")) ?? fail();
+    return query.kind === 'term' ? { ...query, prefix } : query;
+  }
+
+  const query = parseOr();
+  if (position < tokens.length) fail();
+  return query;
+}
+
+// `websearch_to_tsquery` syntax: quoted phrases, `or` between terms and `-` for exclusion.
+function parseWebsearch(text: string): Query | null {
+  const alternatives: Query[][] = [[]];
+  for (const [, negate, quoted, bare] of text.matchAll(/(-?)(?:"([^"]*)"?|(\S+))/g)) {
+    if (!quoted && bare?.toLowerCase() === 'or') {
+      alternatives.push([]);
+      continue;
+    }
+    const query = phraseOrTerm(quoted ?? bare ?? '');
+    if (query) alternatives.at(-1)!.push(negate ? { kind: 'not', query } : query);
+  }
+  const branches = alternatives
+    .filter((queries) => queries.length > 0)
+    .map((queries): Query => (queries.length === 1 ? queries[0]! : { kind: 'and', queries }));
+  if (branches.length === 0) return null;
+  return branches.length === 1 ? branches[0]! : { kind: 'or', queries: branches };
+}
+
+function evaluate(query: Query, document: string[]): boolean {
+  switch (query.kind) {
+    case 'term':
+      return document.some((w) => (query.prefix ? w.startsWith(query.word) : w === query.word));
+    case 'phrase':
+      return document.some((_, start) =>
+        query.words.every((word, offset) => document[start + offset] === word),
+      );
+    case 'not':
+      return !evaluate(query.query, document);
+    case 'and':
+      return query.queries.every((q) => evaluate(q, document));
+    case 'or':
+      return query.queries.some((q) => evaluate(q, document));
+  }
+}
+
+export function matchesTextSearch(
+  document: string,
+  text: string,
+  options: DataTextSearchOptions = {},
+): boolean {
+  let query: Query | null;
+  switch (options.type) {
+    case 'plain': {
+      const terms = words(text).map((word): Query => ({ kind: 'term', word, prefix: false }));
+      query = terms.length > 0 ? { kind: 'and', queries: terms } : null;
+      break;
+    }
+    case 'phrase':
+      query = phraseOrTerm(text);
+      break;
+    case 'websearch':
+      query = parseWebsearch(text);
+      break;
+    default:
+      query = parseTsQuery(text);
+  }
+  // Like Postgres, a query without any words matches nothing.
+  return query !== null && evaluate(query, words(document));
+}
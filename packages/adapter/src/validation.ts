@@ -0,0 +1,214 @@
+import { FieldValidationError, type FieldIssue } from './errors.js';
+import type { DataRecord } from './index.js';
+import { withMiddleware, type BackendMiddleware } from './middleware.js';
+
+// The Standard Schema interface (https://standardschema.dev) implemented by zod, valibot, arktype
+// and others, declared here so validators plug in without a dependency on any of them.
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+};
+
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaV1Issue> };
+
+export type StandardSchemaV1Issue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+};
+
+// `create` checks rows passed to `create`, `createMany` and `upsert`; `update` checks the patches
+// passed to `update` and `updateWhere` (with zod, typically `schema.partial()`).
+export type EntityValidator = {
+  create?: StandardSchemaV1;
+  update?: StandardSchemaV1;
+};
+
+// A bare schema only checks created and upserted rows.
+export type EntityValidators = Record<string, StandardSchemaV1 | EntityValidator>;
+
+export type RecordFieldType = 'text' | 'uuid' | 'timestamptz' | 'numeric' | 'boolean' | 'unknown';
+
+export type RecordField = {
+  type: RecordFieldType;
+  // Must be present when a row is created.
+  required?: boolean;
+  // Defaults to true.
+  nullable?: boolean;
+  // Set by the database (e.g. generated columns); writing it is an error.
+  readOnly?: boolean;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isStandardSchema(value: StandardSchemaV1 | EntityValidator): value is StandardSchemaV1 {
+  return '~standard' in value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function issuePath(issue: StandardSchemaV1Issue): string {
+  return (issue.path ?? [])
+    .map((segment) => String(typeof segment === 'object' ? segment.key : segment))
+    .join('.');
+}
+
+// Checks one value against its column type, returning the normalized value or an error message.
+function checkField(field: RecordField, value: unknown): { value: unknown } | { message: string } {
+  if (value === null) return field.nullable === false ? { message: 'Must not be null' } : { value };
+  switch (field.type) {
+    case 'text':
+      return typeof value === 'string' ? { value } : { message: 'Expected a string' };
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value)
+        ? { value }
+        : { message: 'Expected a UUID' };
+    case 'timestamptz': {
+      if (value instanceof Date && !Number.isNaN(value.getTime())) {
+        return { value: value.toISOString() };
+      }
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+        ? { value }
+        : { message: 'Expected a timestamp' };
+    }
+    case 'numeric': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      return typeof number === 'number' && Number.isFinite(number)
+        ? { value: number }
+        : { message: 'Expected a number' };
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? { value } : { message: 'Expected a boolean' };
+    case 'unknown':
+      return { value: value instanceof Date ? value.toISOString() : value };
+  }
+}
+
+function recordSchema(
+  fields: Record<string, RecordField>,
+  partial: boolean,
+): StandardSchemaV1<DataRecord> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'base44-to-supabase',
+      validate(input) {
+        if (!isPlainObject(input)) return { issues: [{ message: 'Expected an object' }] };
+        const issues: StandardSchemaV1Issue[] = [];
+        const value: DataRecord = {};
+        for (const [key, raw] of Object.entries(input)) {
+          // Dropped rather than sent, the way JSON serialization would.
+          if (raw === undefined) continue;
+          const field = fields[key];
+          if (!field) {
+            issues.push({ message: 'Unknown field', path: [key] });
+            continue;
+          }
+          if (field.readOnly) {
+            issues.push({ message: 'Field is read-only', path: [key] });
+            continue;
+          }
+          const checked = checkField(field, raw);
+          if ('message' in checked) issues.push({ message: checked.message, path: [key] });
+          else value[key] = checked.value;
+        }
+        if (!partial) {
+          for (const [key, field] of Object.entries(fields)) {
+            if (field.required && input[key] === undefined) {
+              issues.push({ message: 'Required', path: [key] });
+            }
+          }
+        }
+        return issues.length ? { issues } : { value };
+      },
+    },
+  };
+}
+
+// Validators for a table described column by column, as generated by `init-supabase` into
+// `validators.ts`. Unknown fields are rejected, `Date` values become ISO strings and numeric
+// strings become numbers.
+export function entityValidator(fields: Record<string, RecordField>): EntityValidator {
+  return { create: recordSchema(fields, false), update: recordSchema(fields, true) };
+}
+
+// Runs `schema` over each row and returns the validated (possibly normalized) rows. Issues of all
+// rows are reported together; with `indexed`, their paths start with the row index.
+async function validateRows(
+  schema: StandardSchemaV1,
+  entity: string,
+  rows: unknown[],
+  indexed: boolean,
+): Promise<DataRecord[]> {
+  const issues: FieldIssue[] = [];
+  const validated: DataRecord[] = [];
+  for (const [index, row] of rows.entries()) {
+    const result = await schema['~standard'].validate(row);
+    if (result.issues) {
+      for (const issue of result.issues) {
+        const path = issuePath(issue);
+        issues.push({
+          path: indexed ? [index, path].filter((p) => p !== '').join('.') : path,
+          message: issue.message,
+        });
+      }
+    } else {
+      validated.push(result.value as DataRecord);
+    }
+  }
+  if (issues.length) throw new FieldValidationError(issues, { entity });
+  return validated;
+}
+
+function validationMiddleware(validators: EntityValidators): BackendMiddleware {
+  return async (operation, next) => {
+    const entity = operation.entity;
+    const validator = entity ? validators[entity] : undefined;
+    if (operation.domain !== 'data' || !entity || !validator) return next();
+    const { create, update } = isStandardSchema(validator) ? { create: validator } : validator;
+    const args = operation.args;
+    // Replaces the payload argument at `index` with its validated form.
+    const withArg = (index: number, value: unknown) =>
+      next({ ...operation, args: args.map((arg, i) => (i === index ? value : arg)) });
+
+    switch (operation.method) {
+      case 'create':
+        if (!create) return next();
+        return withArg(1, (await validateRows(create, entity, [args[1]], false))[0]);
+      case 'createMany':
+        if (!create) return next();
+        return withArg(1, await validateRows(create, entity, args[1] as unknown[], true));
+      case 'upsert': {
+        if (!create) return next();
+        const rows = args[1];
+        return Array.isArray(rows)
+          ? withArg(1, await validateRows(create, entity, rows, true))
+          : withArg(1, (await validateRows(create, entity, [rows], false))[0]);
+      }
+      case 'update':
+        if (!update) return next();
+        return withArg(2, (await validateRows(update, entity, [args[2]], false))[0]);
+      case 'updateWhere':
+        if (!update) return next();
+        return withArg(2, (await validateRows(update, entity, [args[2]], false))[0]);
+      default:
+        return next();
+    }
+  };
+}
+
+// Checks and normalizes write payloads before they reach the backend. A rejected payload throws a
+// `FieldValidationError` listing every failing field, instead of the database error PostgREST
+// would return for the first one. Entities without a validator pass through.
+export function withValidation<B extends object>(backend: B, validators: EntityValidators): B {
+  return withMiddleware(backend, [validationMiddleware(validators)]);
+}
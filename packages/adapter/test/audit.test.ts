@@ -0,0 +1,166 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  auditFileSink,
+  auditTableSink,
+  withAudit,
+  type AuditEntry,
+  type Backend,
+  type DataRecord,
+} from '../src/index.js';
+
+// A single `todos` table held in a map, read by id.
+function tableBackend(userId: string | null = 'user-1') {
+  const rows = new Map<string, DataRecord>([['1', { id: '1', title: 'a', done: false }]]);
+  const inserted: Array<[string, DataRecord[]]> = [];
+  const auth = {
+    getUser: vi.fn(() => Promise.resolve(userId ? { id: userId } : null)),
+    getSession: vi.fn(() => Promise.resolve(null)),
+  };
+  const backend = {
+    auth,
+    data: {
+      read: (_entity: string, options: { id: string }) =>
+        Promise.resolve(rows.get(options.id) ?? null),
+      create: (_entity: string, row: DataRecord) => {
+        rows.set(row.id as string, row);
+        return Promise.resolve(row);
+      },
+      update: (_entity: string, id: string, patch: DataRecord) => {
+        const row = { ...rows.get(id), ...patch };
+        rows.set(id, row);
+        return Promise.resolve(row);
+      },
+      delete: (_entity: string, id: string) => {
+        rows.delete(id);
+        return Promise.resolve();
+      },
+      createMany: (entity: string, batch: DataRecord[]) => {
+        inserted.push([entity, batch]);
+        return Promise.resolve(batch);
+      },
+    },
+  } as unknown as Backend;
+  return { backend, inserted, auth };
+}
+
+const now = () => new Date('2024-01-01T00:00:00Z');
+
+describe('withAudit', () => {
+  it('records creates, updates and deletes with actor and diff', async () => {
+    const entries: AuditEntry[] = [];
+    const { backend: raw, auth } = tableBackend();
+    const backend = withAudit(raw, { sink: (batch) => void entries.push(...batch), now });
+
+    await backend.data.create('todos', { id: '2', title: 'b' });
+    await backend.data.update('todos', '1', { done: true });
+    await backend.data.delete('todos', '2');
+    // Nothing to delete, so nothing to record.
+    await backend.data.delete('todos', 'missing');
+    await backend.data.read('todos', { id: '1' });
+
+    // The actor comes from the verified user, not the locally stored session.
+    expect(auth.getUser).toHaveBeenCalled();
+    expect(auth.getSession).not.toHaveBeenCalled();
+
+    const base = { entity: 'todos', actor: 'user-1', at: '2024-01-01T00:00:00.000Z' };
+    expect(entries).toEqual([
+      {
+        ...base,
+        recordId: '2',
+        operation: 'create',
+        diff: { id: { old: null, new: '2' }, title: { old: null, new: 'b' } },
+      },
+      { ...base, recordId: '1', operation: 'update', diff: { done: { old: false, new: true } } },
+      {
+        ...base,
+        recordId: '2',
+        operation: 'delete',
+        diff: { id: { old: '2', new: null }, title: { old: 'b', new: null } },
+      },
+    ]);
+  });
+
+  it('reports sink failures to onError without failing the mutation', async () => {
+    const failures: unknown[] = [];
+    const { backend: raw } = tableBackend(null);
+    const backend = withAudit(raw, {
+      entities: ['todos'],
+      sink: () => Promise.reject(new Error('sink down')),
+      onError: (error) => failures.push(error),
+    });
+
+    expect(await backend.data.update('todos', '1', { title: 'z' })).toMatchObject({ title: 'z' });
+    await backend.data.create('notes', { id: 'n1' });
+    expect(failures).toHaveLength(1);
+  });
+
+  it('takes the actor from the option and reports lookup failures to onError', async () => {
+    const entries: AuditEntry[] = [];
+    const failures: Array<[unknown, AuditEntry[]]> = [];
+    const { backend: raw } = tableBackend();
+    let actor: () => string | null = () => 'request-user';
+    const backend = withAudit(raw, {
+      sink: (batch) => void entries.push(...batch),
+      actor: () => actor(),
+      onError: (error, batch) => failures.push([error, batch]),
+    });
+
+    await backend.data.update('todos', '1', { title: 'x' });
+    actor = () => {
+      throw new Error('no request context');
+    };
+    await backend.data.update('todos', '1', { title: 'y' });
+
+    expect(entries.map((e) => e.actor)).toEqual(['request-user', null]);
+    expect(failures).toEqual([[new Error('no request context'), [entries[1]]]]);
+
+    // Without onError, a failed lookup rejects before the row is written.
+    const strict = withAudit(raw, { sink: () => {}, actor: () => actor() });
+    await expect(strict.data.update('todos', '1', { title: 'z' })).rejects.toThrow('no request');
+    expect(await raw.data.read('todos', { id: '1' })).toMatchObject({ title: 'y' });
+  });
+
+  it('writes entries to an audit table or a JSONL file', async () => {
+    const { backend: raw, inserted } = tableBackend();
+    const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'audit-')), 'audit.jsonl');
+    const fileSink = auditFileSink(file);
+    const tableSink = auditTableSink(raw.data);
+    const backend = withAudit(raw, {
+      sink: async (entries) => {
+        await tableSink(entries);
+        await fileSink(entries);
+      },
+      now,
+    });
+
+    await backend.data.update('todos', '1', { title: 'b' });
+    await backend.data.update('todos', '1', { title: 'c' });
+
+    expect(inserted).toEqual([
+      [
+        'audit_log',
+        [
+          {
+            entity: 'todos',
+            record_id: '1',
+            operation: 'update',
+            actor: 'user-1',
+            diff: { title: { old: 'a', new: 'b' } },
+            created_at: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      ],
+      ['audit_log', [expect.objectContaining({ diff: { title: { old: 'b', new: 'c' } } })]],
+    ]);
+    const lines = (await fs.readFile(file, 'utf8')).trim().split('\n');
+    expect(lines.map((line) => (JSON.parse(line) as AuditEntry).diff)).toEqual([
+      { title: { old: 'a', new: 'b' } },
+      { title: { old: 'b', new: 'c' } },
+    ]);
+  });
+});
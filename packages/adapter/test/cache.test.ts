@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createLruCacheStore, createReadCache, withCache, type Backend } from '../src/index.js';
+
+function countingBackend() {
+  const calls: string[] = [];
+  const rows = [{ id: '1', title: 'a' }];
+  const backend = {
+    data: {
+      read: (entity: string) => {
+        calls.push(`read:${entity}`);
+        return Promise.resolve(rows.map((r) => ({ ...r })));
+      },
+      create: (entity: string, row: { id: string; title: string }) => {
+        calls.push(`create:${entity}`);
+        rows.push(row);
+        return Promise.resolve(row);
+      },
+    },
+  } as unknown as Backend;
+  return { backend, calls };
+}
+
+describe('withCache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('serves equivalent reads from the cache until a write invalidates them', async () => {
+    const { backend: raw, calls } = countingBackend();
+    const backend = withCache(raw);
+
+    const first = (await backend.data.read('todos', { orderBy: { field: 'title' } })) as any[];
+    first[0].title = 'mutated by caller';
+    const second = await backend.data.read('todos', { orderBy: [{ field: 'title' }] });
+    expect(second).toEqual([{ id: '1', title: 'a' }]);
+    expect(calls).toEqual(['read:todos']);
+
+    await backend.data.read('notes');
+    await backend.data.create('todos', { id: '2', title: 'b' });
+    expect(await backend.data.read('todos', { orderBy: { field: 'title' } })).toHaveLength(2);
+    expect(calls).toEqual(['read:todos', 'read:notes', 'create:todos', 'read:todos']);
+  });
+
+  it('honours TTLs, entity selection and manual invalidation', async () => {
+    let time = 0;
+    const { backend: raw, calls } = countingBackend();
+    const cache = createReadCache({
+      store: createLruCacheStore({ now: () => time }),
+      entities: { todos: { ttlMs: 100 } },
+    });
+    const backend = withCache(raw, cache);
+
+    await backend.data.read('todos');
+    await backend.data.read('todos');
+    time = 100;
+    await backend.data.read('todos');
+    await cache.invalidate('todos');
+    await backend.data.read('todos');
+    await backend.data.read('notes');
+    await backend.data.read('notes');
+
+    expect(calls).toEqual(['read:todos', 'read:todos', 'read:todos', 'read:notes', 'read:notes']);
+  });
+
+  it('drops expired keys from the invalidation index', async () => {
+    let time = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => time);
+    const lru = createLruCacheStore({ now: () => time });
+    const deleted: string[] = [];
+    const store = {
+      ...lru,
+      delete: (key: string) => {
+        deleted.push(key);
+        return lru.delete(key);
+      },
+    };
+    const { backend: raw } = countingBackend();
+    const cache = createReadCache({ store, ttlMs: 100 });
+    const backend = withCache(raw, cache);
+
+    await backend.data.read('todos', { limit: 1 });
+    time = 100;
+    // Caching another read sweeps the expired todos key out of the index.
+    await backend.data.read('notes');
+    await cache.invalidate('todos');
+    expect(deleted).toEqual([]);
+
+    await backend.data.read('todos', { limit: 2 });
+    await cache.invalidate('todos');
+    expect(deleted).toEqual(['read:todos:{"limit":2}']);
+  });
+
+  it('invalidates reads that include a written entity', async () => {
+    const { backend: raw, calls } = countingBackend();
+    const backend = withCache(raw, {
+      relations: { todos: { owner: { entity: 'users', kind: 'one', field: 'owner_id' } } },
+    });
+    const withTodos = { include: { todos: { include: { owner: true as const } } } };
+
+    await backend.data.read('projects', withTodos);
+    await backend.data.read('projects', withTodos);
+    await backend.data.create('todos', { id: '2', title: 'b' });
+    await backend.data.read('projects', withTodos);
+    await backend.data.create('users', { id: '3', title: 'c' });
+    await backend.data.read('projects', withTodos);
+    await backend.data.create('notes', { id: '4', title: 'd' });
+    await backend.data.read('projects', withTodos);
+
+    expect(calls).toEqual([
+      'read:projects',
+      'create:todos',
+      'read:projects',
+      'create:users',
+      'read:projects',
+      'create:notes',
+    ]);
+  });
+});
+
+describe('createLruCacheStore', () => {
+  it('evicts the least recently used entry', () => {
+    let time = 0;
+    const evicted: string[] = [];
+    const store = createLruCacheStore({
+      maxEntries: 2,
+      now: () => time,
+      onEvict: (key) => evicted.push(key),
+    });
+    store.set('a', 1, 1000);
+    store.set('b', 2, 1000);
+    store.get('a');
+    store.set('c', 3, 1000);
+    expect([store.get('a'), store.get('b'), store.get('c')]).toEqual([1, undefined, 3]);
+    time = 1000;
+    expect(store.get('a')).toBeUndefined();
+    expect(evicted).toEqual(['b', 'a']);
+  });
+});
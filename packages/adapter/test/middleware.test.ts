@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  NotFoundError,
+  observe,
+  withMiddleware,
+  withSchema,
+  type Backend,
+  type BackendOperation,
+} from '../src/index.js';
+
+function stubBackend(calls: unknown[][]): Backend {
+  const record =
+    (name: string) =>
+    (...args: unknown[]) => {
+      calls.push([name, ...args]);
+      if (args[0] === 'missing')
+        return Promise.reject(new NotFoundError('missing', { entity: 'missing' }));
+      return Promise.resolve({ name, args });
+    };
+  return {
+    auth: { getUser: record('auth.getUser'), onAuthStateChange: () => ({ unsubscribe() {} }) },
+    data: { read: record('data.read'), create: record('data.create') },
+    storage: {
+      download: record('storage.download'),
+      getPublicUrl: (bucket: string, path: string) => ({ publicUrl: `${bucket}/${path}` }),
+    },
+    rpc: { call: record('rpc.call') },
+    realtime: { subscribe: () => ({ unsubscribe() {} }) },
+  } as unknown as Backend;
+}
+
+describe('withMiddleware', () => {
+  it('describes operations and runs middleware outermost first', async () => {
+    const calls: unknown[][] = [];
+    const seen: string[] = [];
+    const backend = withMiddleware(stubBackend(calls), [
+      async (op, next) => {
+        seen.push(`outer:${op.domain}.${op.method}:${op.entity ?? op.bucket ?? '-'}`);
+        return next();
+      },
+      async (op, next) => {
+        seen.push(`inner:${op.method}`);
+        return next();
+      },
+    ]);
+
+    await backend.data.read('todos', { id: '1' });
+    await backend.storage.download('files', 'a.txt');
+    await backend.rpc.call('hello', { name: 'x' });
+
+    expect(seen).toEqual([
+      'outer:data.read:todos',
+      'inner:read',
+      'outer:storage.download:files',
+      'inner:download',
+      'outer:rpc.call:-',
+      'inner:call',
+    ]);
+    expect(calls).toEqual([
+      ['data.read', 'todos', { id: '1' }],
+      ['storage.download', 'files', 'a.txt'],
+      ['rpc.call', 'hello', { name: 'x' }],
+    ]);
+  });
+
+  it('transforms arguments and short-circuits', async () => {
+    const calls: unknown[][] = [];
+    const backend = withMiddleware(stubBackend(calls), [
+      async (op, next) => {
+        if (op.domain === 'data' && op.method === 'read' && op.entity === 'cached') return [];
+        if (op.method === 'create') {
+          const [entity, row] = op.args as [string, Record<string, unknown>];
+          return next({ ...op, args: [entity, { ...row, tenant_id: 't1' }] });
+        }
+        return next();
+      },
+    ]);
+
+    expect(await backend.data.read('cached')).toEqual([]);
+    await backend.data.create('todos', { title: 'x' });
+    expect(calls).toEqual([['data.create', 'todos', { title: 'x', tenant_id: 't1' }]]);
+  });
+
+  it('observes results and errors without changing them', async () => {
+    const outcomes: Array<[BackendOperation, boolean]> = [];
+    const backend = withMiddleware(stubBackend([]), [
+      observe((op, outcome) => {
+        outcomes.push([op, outcome.ok]);
+        throw new Error('observer bug');
+      }),
+    ]);
+
+    await backend.auth.getUser();
+    await expect(backend.data.read('missing')).rejects.toThrow(NotFoundError);
+
+    expect(outcomes.map(([op, ok]) => [op.domain, op.method, ok])).toEqual([
+      ['auth', 'getUser', true],
+      ['data', 'read', false],
+    ]);
+  });
+
+  it('passes synchronous methods through and keeps schema typing', () => {
+    type Schema = { todos: { id: string; title: string } };
+    const backend = withMiddleware(withSchema<Schema>(stubBackend([])), [
+      () => Promise.reject(new Error('should not run')),
+    ]);
+
+    expect(backend.storage.getPublicUrl('files', 'a.txt')).toEqual({ publicUrl: 'files/a.txt' });
+    backend.realtime.subscribe('todos', () => {}).unsubscribe();
+    backend.auth.onAuthStateChange(() => {}).unsubscribe();
+
+    // @ts-expect-error unknown entity
+    void backend.data.read('users').catch(() => {});
+  });
+});
@@ -0,0 +1,203 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  ConflictError,
+  NetworkError,
+  createFileQueueStorage,
+  createOfflineQueue,
+  withOfflineQueue,
+  type Backend,
+  type DataRecord,
+  type OfflineQueueState,
+} from '../src/index.js';
+
+// A data API that fails with NetworkError while `online` is false.
+function flakyBackend() {
+  const rows = new Map<string, DataRecord>();
+  const calls: string[] = [];
+  let nextId = 1;
+  const state = { online: true, conflictOn: null as string | null };
+
+  const guard = (name: string) => {
+    if (!state.online) return Promise.reject(new NetworkError('fetch failed'));
+    calls.push(name);
+    return null;
+  };
+
+  const backend = {
+    data: {
+      create: (entity: string, row: DataRecord) => {
+        const failed = guard(`create:${entity}`);
+        if (failed) return failed;
+        if (row.title === state.conflictOn) return Promise.reject(new ConflictError('duplicate'));
+        const created = { ...row, id: `real-${nextId++}` };
+        rows.set(created.id, created);
+        return Promise.resolve(created);
+      },
+      update: (entity: string, id: string, patch: DataRecord) => {
+        const failed = guard(`update:${entity}:${id}`);
+        if (failed) return failed;
+        const updated = { ...rows.get(id), ...patch, id };
+        rows.set(id, updated);
+        return Promise.resolve(updated);
+      },
+      delete: (entity: string, id: string) => {
+        const failed = guard(`delete:${entity}:${id}`);
+        if (failed) return failed;
+        rows.delete(id);
+        return Promise.resolve();
+      },
+      read: () => Promise.resolve([...rows.values()]),
+    },
+  } as unknown as Backend;
+  return { backend, rows, calls, state };
+}
+
+describe('offline queue', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('queues writes while offline and replays them in order with real ids', async () => {
+    const { backend: raw, rows, calls, state } = flakyBackend();
+    let n = 0;
+    const queue = createOfflineQueue({
+      generateTempId: () => `temp-${++n}`,
+      replayOnReconnect: false,
+    });
+    const backend = withOfflineQueue(raw, queue);
+
+    state.online = false;
+    const created = await backend.data.create('tasks', { title: 'Inspect pump' });
+    expect(created).toEqual({ title: 'Inspect pump', id: 'temp-1' });
+    await backend.data.update('tasks', 'temp-1', { done: true });
+    await backend.data.create('notes', { task_id: 'temp-1', body: 'ok' });
+
+    // Still ordered behind the queue even though the backend is reachable again.
+    state.online = true;
+    await backend.data.create('tasks', { title: 'Later' });
+    expect(calls).toEqual([]);
+    expect(await queue.pending()).toHaveLength(4);
+
+    const result = await queue.replay();
+    expect(result).toEqual({ replayed: 4, dropped: [], remaining: 0 });
+    expect(calls).toEqual(['create:tasks', 'update:tasks:real-1', 'create:notes', 'create:tasks']);
+    expect(rows.get('real-1')).toEqual({ title: 'Inspect pump', done: true, id: 'real-1' });
+    expect(rows.get('real-2')).toMatchObject({ task_id: 'real-1' });
+    expect(await queue.resolveId('temp-1')).toBe('real-1');
+  });
+
+  it('stops on network errors and reports conflicts', async () => {
+    const { backend: raw, state } = flakyBackend();
+    const conflicts: string[] = [];
+    const queue = createOfflineQueue({
+      isOnline: () => state.online,
+      replayOnReconnect: false,
+      onConflict: ({ entry }) => {
+        conflicts.push(entry.method);
+        return 'drop';
+      },
+    });
+    const backend = withOfflineQueue(raw, queue);
+
+    state.online = false;
+    state.conflictOn = 'dup';
+    await backend.data.create('tasks', { title: 'dup' });
+    await backend.data.create('tasks', { title: 'fine' });
+
+    expect(await queue.replay()).toEqual({ replayed: 0, dropped: [], remaining: 2 });
+
+    state.online = true;
+    const result = await queue.replay();
+    expect(result.replayed).toBe(1);
+    expect(result.dropped.map((e) => e.args[0])).toEqual([{ title: 'dup' }]);
+    expect(conflicts).toEqual(['create']);
+  });
+
+  it('persists the queue to a file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'base44-to-supabase-offline-'));
+    const file = path.join(dir, 'nested', 'queue.json');
+    const { backend: raw, state, calls } = flakyBackend();
+
+    state.online = false;
+    const first = createOfflineQueue({
+      storage: createFileQueueStorage(file),
+      replayOnReconnect: false,
+    });
+    await withOfflineQueue(raw, first).data.delete('tasks', 'a');
+
+    // A new queue (e.g. after a restart) picks up the stored entries.
+    state.online = true;
+    const second = createOfflineQueue({
+      storage: createFileQueueStorage(file),
+      replayOnReconnect: false,
+    });
+    withOfflineQueue(raw, second);
+    expect(await second.replay()).toMatchObject({ replayed: 1, remaining: 0 });
+    expect(calls).toEqual(['delete:tasks:a']);
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).entries).toEqual([]);
+  });
+
+  it('keeps concurrent writes to the queue file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'base44-to-supabase-offline-'));
+    const file = path.join(dir, 'queue.json');
+    const { backend: raw, state } = flakyBackend();
+
+    state.online = false;
+    const queue = createOfflineQueue({
+      storage: createFileQueueStorage(file),
+      replayOnReconnect: false,
+    });
+    const offline = withOfflineQueue(raw, queue);
+    const ids = ['a', 'b', 'c', 'd', 'e'];
+    await Promise.all(ids.map((id) => offline.data.delete('tasks', id)));
+
+    const stored = JSON.parse(await fs.readFile(file, 'utf8')) as OfflineQueueState;
+    expect(stored.entries).toHaveLength(ids.length);
+  });
+
+  it('retries loading the queue after a failed load', async () => {
+    const { backend: raw } = flakyBackend();
+    const stored: OfflineQueueState = { entries: [], idMap: {} };
+    const load = vi
+      .fn<() => Promise<OfflineQueueState | null>>()
+      .mockRejectedValueOnce(new Error('EBUSY: resource busy or locked'))
+      .mockResolvedValue(stored);
+    const queue = createOfflineQueue({
+      storage: { load, save: () => Promise.resolve() },
+      replayOnReconnect: false,
+    });
+    const backend = withOfflineQueue(raw, queue);
+
+    await expect(backend.data.create('tasks', { title: 'a' })).rejects.toThrow('EBUSY');
+    expect(await backend.data.create('tasks', { title: 'b' })).toMatchObject({ id: 'real-1' });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('replays on the online event until disposed', async () => {
+    const events = new EventTarget();
+    vi.stubGlobal('addEventListener', events.addEventListener.bind(events));
+    vi.stubGlobal('removeEventListener', events.removeEventListener.bind(events));
+    const { backend: raw, calls, state } = flakyBackend();
+    const queue = createOfflineQueue({ isOnline: () => state.online });
+    const backend = withOfflineQueue(raw, queue);
+
+    state.online = false;
+    await backend.data.delete('tasks', 'a');
+    state.online = true;
+    events.dispatchEvent(new Event('online'));
+    await vi.waitFor(() => expect(calls).toEqual(['delete:tasks:a']));
+
+    queue.dispose();
+    state.online = false;
+    await backend.data.delete('tasks', 'b');
+    state.online = true;
+    events.dispatchEvent(new Event('online'));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(await queue.pending()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,124 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  FieldValidationError,
+  NotFoundError,
+  ReplayMismatchError,
+  createBackendRecorder,
+  createReplayBackend,
+  readBackendFixture,
+  withRecording,
+  type Backend,
+  type BackendFixture,
+} from '../src/index.js';
+
+function liveBackend() {
+  let nextId = 1;
+  return {
+    auth: { getUser: () => Promise.resolve({ id: 'user-1' }) },
+    data: {
+      create: (_entity: string, row: Record<string, unknown>) =>
+        Promise.resolve({ ...row, id: String(nextId++) }),
+      read: (_entity: string, options?: { id?: string }) =>
+        options?.id === 'missing'
+          ? Promise.reject(new NotFoundError('No such row', { entity: 'todos', status: 404 }))
+          : Promise.resolve([{ id: '1', title: 'a' }]),
+    },
+    storage: { download: () => Promise.resolve(new Uint8Array([1, 2, 255])) },
+  } as unknown as Backend;
+}
+
+async function recordSession() {
+  const recorder = createBackendRecorder();
+  const backend = withRecording(liveBackend(), recorder);
+  await backend.auth.getUser();
+  await backend.data.create('todos', { title: 'a', createdAt: new Date('2024-01-01T00:00:00Z') });
+  await backend.data.read('todos', { filter: { done: false }, orderBy: { field: 'title' } });
+  await expect(backend.data.read('todos', { id: 'missing' })).rejects.toThrow(NotFoundError);
+  await backend.storage.download('files', 'a.bin');
+  return recorder;
+}
+
+describe('withRecording and createReplayBackend', () => {
+  it('records calls to a fixture file and replays them in order', async () => {
+    const recorder = await recordSession();
+    const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'replay-')), 'session.json');
+    await recorder.save(file);
+
+    const fixture = await readBackendFixture(file);
+    expect(fixture.calls[1]).toEqual({
+      domain: 'data',
+      method: 'create',
+      args: ['todos', { title: 'a', createdAt: '2024-01-01T00:00:00.000Z' }],
+      result: { title: 'a', createdAt: '2024-01-01T00:00:00.000Z', id: '1' },
+    });
+
+    const backend = createReplayBackend(fixture);
+    expect(await backend.auth.getUser()).toEqual({ id: 'user-1' });
+    await backend.data.create('todos', { title: 'a', createdAt: '2024-01-01T00:00:00.000Z' });
+    // Key order does not matter.
+    expect(
+      await backend.data.read('todos', { orderBy: { field: 'title' }, filter: { done: false } }),
+    ).toEqual([{ id: '1', title: 'a' }]);
+    const error = await backend.data.read('todos', { id: 'missing' }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ entity: 'todos', status: 404, message: 'No such row' });
+    expect(await backend.storage.download('files', 'a.bin')).toEqual(new Uint8Array([1, 2, 255]));
+
+    await expect(backend.data.read('todos')).rejects.toThrow(ReplayMismatchError);
+  });
+
+  it('replays validation failures with their field issues', async () => {
+    const issues = [{ path: 'title', message: 'Required' }];
+    const live = {
+      data: {
+        create: () => Promise.reject(new FieldValidationError(issues, { entity: 'todos' })),
+      },
+    } as unknown as Backend;
+    const recorder = createBackendRecorder();
+    await expect(withRecording(live, recorder).data.create('todos', {})).rejects.toThrow(
+      FieldValidationError,
+    );
+
+    const fixture = JSON.parse(JSON.stringify(recorder.fixture())) as BackendFixture;
+    const error = await createReplayBackend(fixture)
+      .data.create('todos', {})
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(FieldValidationError);
+    expect(error).toMatchObject({
+      issues,
+      entity: 'todos',
+      message: 'Invalid todos: title: Required',
+    });
+  });
+
+  it('rejects out-of-order calls when strict and matches them loosely otherwise', async () => {
+    const fixture = (await recordSession()).fixture();
+
+    const strict = createReplayBackend(fixture);
+    await expect(strict.data.read('todos', { filter: { done: false } })).rejects.toThrow(
+      /Expected auth\.getUser\(\) at call 0, got data\.read\("todos",\{"filter":\{"done":false\}\}\)/,
+    );
+
+    const loose = createReplayBackend(fixture, { matching: 'loose' });
+    expect(
+      await loose.data.create('todos', { title: 'a', createdAt: 'another time' }),
+    ).toMatchObject({ id: '1' });
+    // A read with other options falls back to an unused recorded read of the entity.
+    expect(await loose.data.read('todos', { filter: { done: true } })).toEqual([
+      { id: '1', title: 'a' },
+    ]);
+    await expect(loose.data.read('todos', { id: 'missing' })).rejects.toThrow(NotFoundError);
+    // Once used, a recorded call answers repeats of itself.
+    const read = { filter: { done: false }, orderBy: { field: 'title' } };
+    expect(await loose.data.read('todos', read)).toHaveLength(1);
+    await expect(loose.data.count('todos')).rejects.toThrow(ReplayMismatchError);
+    expect(loose.storage.getPublicUrl('files', 'a.bin').publicUrl).toBe(
+      'replay://storage/files/a.bin',
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  CircuitOpenError,
+  NetworkError,
+  NotFoundError,
+  circuitBreakerMiddleware,
+  retryMiddleware,
+  withResilience,
+  type Backend,
+  type BackendOperation,
+} from '../src/index.js';
+
+const read: BackendOperation = { domain: 'data', method: 'read', entity: 'todos', args: ['todos'] };
+const create: BackendOperation = {
+  domain: 'data',
+  method: 'create',
+  entity: 'todos',
+  args: ['todos', {}],
+};
+
+// Fails with the given errors in order, then succeeds.
+function flaky(errors: Error[]) {
+  let calls = 0;
+  const next = () => {
+    const error = errors[calls++];
+    return error ? Promise.reject(error) : Promise.resolve('ok');
+  };
+  return { next, calls: () => calls };
+}
+
+describe('retryMiddleware', () => {
+  const retry = retryMiddleware({ maxAttempts: 3, baseDelayMs: 1 });
+
+  it('retries transient errors on idempotent operations', async () => {
+    const target = flaky([new NetworkError('offline'), new NetworkError('still offline')]);
+    await expect(retry(read, target.next)).resolves.toBe('ok');
+    expect(target.calls()).toBe(3);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const target = flaky([1, 2, 3, 4].map(() => new NetworkError('offline')));
+    await expect(retry(read, target.next)).rejects.toThrow(NetworkError);
+    expect(target.calls()).toBe(3);
+  });
+
+  it('does not retry writes or non-transient errors by default', async () => {
+    const write = flaky([new NetworkError('offline')]);
+    await expect(retry(create, write.next)).rejects.toThrow(NetworkError);
+    expect(write.calls()).toBe(1);
+
+    const missing = flaky([new NotFoundError('missing')]);
+    await expect(retry(read, missing.next)).rejects.toThrow(NotFoundError);
+    expect(missing.calls()).toBe(1);
+  });
+});
+
+describe('circuitBreakerMiddleware', () => {
+  it('opens after consecutive failures and closes after a successful trial', async () => {
+    let time = 0;
+    const breaker = circuitBreakerMiddleware(
+      { failureThreshold: 2, resetTimeoutMs: 1000 },
+      () => time,
+    );
+    const failing = () => Promise.reject(new NetworkError('offline'));
+
+    await expect(breaker(read, failing)).rejects.toThrow(NetworkError);
+    await expect(breaker(read, failing)).rejects.toThrow(NetworkError);
+
+    const target = flaky([]);
+    await expect(breaker(read, target.next)).rejects.toThrow(CircuitOpenError);
+    expect(target.calls()).toBe(0);
+
+    // Other endpoints are unaffected.
+    await expect(breaker({ ...read, entity: 'notes' }, target.next)).resolves.toBe('ok');
+
+    time = 1000;
+    await expect(breaker(read, target.next)).resolves.toBe('ok');
+    await expect(breaker(read, target.next)).resolves.toBe('ok');
+  });
+});
+
+describe('withResilience', () => {
+  it('applies policies per domain', async () => {
+    let reads = 0;
+    let sessions = 0;
+    const backend = withResilience(
+      {
+        auth: {
+          getSession: () => {
+            sessions++;
+            return Promise.reject(new NetworkError('offline'));
+          },
+        },
+        data: {
+          read: () =>
+            ++reads < 2 ? Promise.reject(new NetworkError('offline')) : Promise.resolve([]),
+        },
+      } as unknown as Backend,
+      { retry: { default: { baseDelayMs: 1 }, auth: false } },
+    );
+
+    await expect(backend.data.read('todos')).resolves.toEqual([]);
+    expect(reads).toBe(2);
+    await expect(backend.auth.getSession()).rejects.toThrow(NetworkError);
+    expect(sessions).toBe(1);
+  });
+});
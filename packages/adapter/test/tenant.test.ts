@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  ValidationError,
+  matchesFilterNode,
+  scopeBackend,
+  type Backend,
+  type DataFilterNode,
+} from '../src/index.js';
+
+// Rows the adapter already holds, for lookups by filter: row 2 is acme's, row 3 another tenant's.
+const STORED = [
+  { id: '2', org_id: 'acme' },
+  { id: '3', org_id: 'other' },
+];
+
+// Records the method and arguments every call reaches the adapter with.
+function recordingBackend() {
+  const calls: Array<[string, ...unknown[]]> = [];
+  const record =
+    (method: string, result: unknown = null) =>
+    (...args: unknown[]) => {
+      calls.push([method, ...args]);
+      return Promise.resolve(result);
+    };
+  const backend = {
+    data: {
+      // Reading by id finds only row 1; reading by filters searches STORED.
+      read: (...args: unknown[]) => {
+        const options = args[1] as { id?: string; filters?: DataFilterNode[] } | undefined;
+        const id = options?.id;
+        if (id !== undefined) return record('read', id === '1' ? { id } : null)(...args);
+        const filters = options?.filters ?? [];
+        const rows = STORED.filter((row) => filters.every((node) => matchesFilterNode(row, node)));
+        return record('read', filters.length ? rows : [])(...args);
+      },
+      count: record('count', 0),
+      create: record('create'),
+      upsert: record('upsert'),
+      update: record('update'),
+      delete: record('delete'),
+      updateWhere: record('updateWhere', [{ id: '1', title: 'b', org_id: 'acme' }]),
+      deleteWhere: record('deleteWhere', 1),
+      restore: record('restore'),
+      purge: record('purge'),
+    },
+    storage: {
+      upload: record('upload'),
+      remove: record('remove'),
+      list: record('list', []),
+      getPublicUrl: (bucket: string, path: string) => ({ publicUrl: `${bucket}/${path}` }),
+    },
+  } as unknown as Backend;
+  return { backend, calls };
+}
+
+const orgFilter = { field: 'org_id', op: 'eq', value: 'acme' };
+
+describe('scopeBackend', () => {
+  it('filters reads and id-based writes by the tenant column', async () => {
+    const { backend: raw, calls } = recordingBackend();
+    const backend = scopeBackend(raw, { column: 'org_id', value: 'acme', entities: ['todos'] });
+
+    await backend.data.read('todos', { filters: [{ field: 'done', op: 'eq', value: false }] });
+    await backend.data.count('todos');
+    expect(await backend.data.update('todos', '1', { title: 'b' })).toEqual({
+      id: '1',
+      title: 'b',
+      org_id: 'acme',
+    });
+    await backend.data.delete('todos', '1');
+    await backend.data.read('plans');
+
+    expect(calls).toEqual([
+      ['read', 'todos', { filters: [{ field: 'done', op: 'eq', value: false }, orgFilter] }],
+      ['count', 'todos', { filters: [orgFilter] }],
+      [
+        'updateWhere',
+        'todos',
+        [{ field: 'id', op: 'eq', value: '1' }, orgFilter],
+        { title: 'b', org_id: 'acme' },
+      ],
+      ['deleteWhere', 'todos', [{ field: 'id', op: 'eq', value: '1' }, orgFilter]],
+      ['read', 'plans'],
+    ]);
+  });
+
+  it('stamps written rows and rejects rows of another tenant', async () => {
+    const { backend: raw, calls } = recordingBackend();
+    const backend = scopeBackend(raw, { column: 'org_id', value: 'acme' });
+
+    await backend.data.create('todos', { title: 'a' });
+    await backend.data.upsert('todos', [{ id: '2', org_id: 'acme' }], { onConflict: 'id' });
+    await expect(backend.data.create('todos', { title: 'x', org_id: 'other' })).rejects.toThrow(
+      ValidationError,
+    );
+
+    expect(calls).toEqual([
+      ['create', 'todos', { title: 'a', org_id: 'acme' }],
+      [
+        'read',
+        'todos',
+        {
+          filters: [{ or: [{ and: [{ field: 'id', op: 'eq', value: '2' }] }] }],
+          select: ['org_id'],
+          includeDeleted: true,
+        },
+      ],
+      ['upsert', 'todos', [{ id: '2', org_id: 'acme' }], { onConflict: 'id' }],
+    ]);
+  });
+
+  it("rejects upserts that would take over another tenant's row", async () => {
+    const { backend: raw, calls } = recordingBackend();
+    const backend = scopeBackend(raw, { column: 'org_id', value: 'acme' });
+
+    await expect(
+      backend.data.upsert('todos', [
+        { id: '2', title: 'mine' },
+        { id: '3', title: 'theirs' },
+      ]),
+    ).rejects.toThrow(ValidationError);
+    await expect(backend.data.upsert('todos', { id: '3', title: 'theirs' })).rejects.toThrow(
+      ValidationError,
+    );
+    // Rows without the conflict keys are inserts and need no lookup.
+    await backend.data.upsert('todos', { title: 'new' });
+
+    expect(calls.filter(([method]) => method === 'upsert')).toEqual([
+      ['upsert', 'todos', { title: 'new', org_id: 'acme' }],
+    ]);
+    expect(calls.filter(([method]) => method === 'read')).toHaveLength(2);
+  });
+
+  it('only restores or purges rows found within the tenant', async () => {
+    const { backend: raw, calls } = recordingBackend();
+    const backend = scopeBackend(raw, { column: 'org_id', value: 'acme' });
+
+    const lookup = (id: string) => ({
+      id,
+      filters: [orgFilter],
+      select: ['id'],
+      includeDeleted: true,
+    });
+
+    await backend.data.restore('todos', '1');
+    await backend.data.purge('todos', '2');
+
+    expect(calls).toEqual([
+      ['read', 'todos', lookup('1')],
+      ['restore', 'todos', '1'],
+      ['read', 'todos', lookup('2')],
+    ]);
+  });
+
+  it('places storage paths in the tenant folder', async () => {
+    const { backend: raw, calls } = recordingBackend();
+    const backend = scopeBackend(raw, { column: 'org_id', value: 'acme' });
+    const file = new Uint8Array([1]);
+
+    await backend.storage.upload('files', '/a.txt', file);
+    await backend.storage.remove('files', ['a.txt', 'b.txt']);
+    await backend.storage.list('files');
+
+    expect(calls).toEqual([
+      ['upload', 'files', 'acme/a.txt', file],
+      ['remove', 'files', ['acme/a.txt', 'acme/b.txt']],
+      ['list', 'files', 'acme'],
+    ]);
+    expect(backend.storage.getPublicUrl('files', 'a.txt').publicUrl).toBe('files/acme/a.txt');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  FieldValidationError,
+  entityValidator,
+  withValidation,
+  type Backend,
+  type StandardSchemaV1,
+} from '../src/index.js';
+
+// Echoes the payload every write reaches the adapter with.
+function echoBackend() {
+  const calls: Array<[string, ...unknown[]]> = [];
+  const echo =
+    (method: string) =>
+    (...args: unknown[]) => {
+      calls.push([method, ...args]);
+      return Promise.resolve(args[args.length - 1]);
+    };
+  const backend = {
+    data: {
+      create: echo('create'),
+      createMany: echo('createMany'),
+      update: echo('update'),
+      read: echo('read'),
+    },
+  } as unknown as Backend;
+  return { backend, calls };
+}
+
+const todos = entityValidator({
+  id: { type: 'uuid', nullable: false },
+  title: { type: 'text', required: true },
+  priority: { type: 'numeric' },
+  due_at: { type: 'timestamptz' },
+  fts: { type: 'unknown', readOnly: true },
+});
+
+async function rejection(promise: Promise<unknown>): Promise<FieldValidationError> {
+  const error = await promise.then(
+    () => null,
+    (e: unknown) => e,
+  );
+  expect(error).toBeInstanceOf(FieldValidationError);
+  return error as FieldValidationError;
+}
+
+describe('withValidation', () => {
+  it('normalizes valid payloads before they reach the backend', async () => {
+    const { backend: raw, calls } = echoBackend();
+    const backend = withValidation(raw, { todos });
+
+    await backend.data.create('todos', {
+      title: 'a',
+      priority: '2',
+      due_at: new Date('2024-01-01T00:00:00Z'),
+      notes: undefined,
+    });
+    await backend.data.update('todos', '1', { priority: null });
+    await backend.data.read('todos', { filter: { bogus: 1 } });
+
+    expect(calls).toEqual([
+      ['create', 'todos', { title: 'a', priority: 2, due_at: '2024-01-01T00:00:00.000Z' }],
+      ['update', 'todos', '1', { priority: null }],
+      ['read', 'todos', { filter: { bogus: 1 } }],
+    ]);
+  });
+
+  it('rejects invalid payloads with every failing field', async () => {
+    const { backend: raw, calls } = echoBackend();
+    const backend = withValidation(raw, { todos });
+
+    const error = await rejection(
+      backend.data.createMany('todos', [{ title: 'ok' }, { id: 'x', fts: 'a', extra: true }]),
+    );
+    expect(error.entity).toBe('todos');
+    expect(error.issues).toEqual([
+      { path: '1.id', message: 'Expected a UUID' },
+      { path: '1.fts', message: 'Field is read-only' },
+      { path: '1.extra', message: 'Unknown field' },
+      { path: '1.title', message: 'Required' },
+    ]);
+    // Patches only check the fields they contain.
+    await expect(backend.data.update('todos', '1', { priority: 'high' })).rejects.toThrow(
+      'Invalid todos: priority: Expected a number',
+    );
+    expect(calls).toEqual([]);
+  });
+
+  it('accepts Standard Schema validators such as zod or valibot', async () => {
+    const { backend: raw, calls } = echoBackend();
+    const notes: StandardSchemaV1 = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value) =>
+          Promise.resolve(
+            typeof (value as { body?: unknown }).body === 'string'
+              ? { value: { ...(value as object), checked: true } }
+              : { issues: [{ message: 'Required', path: [{ key: 'body' }] }] },
+          ),
+      },
+    };
+    const backend = withValidation(raw, { notes });
+
+    await backend.data.create('notes', { body: 'hi' });
+    // A bare schema only checks created rows.
+    await backend.data.update('notes', '1', { pinned: true });
+    const error = await rejection(backend.data.create('notes', {}));
+    expect(error.issues).toEqual([{ path: 'body', message: 'Required' }]);
+
+    expect(calls).toEqual([
+      ['create', 'notes', { body: 'hi', checked: true }],
+      ['update', 'notes', '1', { pinned: true }],
+    ]);
+  });
+});
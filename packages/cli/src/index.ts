@@ -195,6 +195,26 @@ function parseEnvPairs(pairs: string[] | undefined): Record<string, string> {
   return out;
 }
 
+// `todos` indexes every inferred field; `todos:title,notes` only the listed ones.
+function parseSearchableSpecs(specs: string[] | undefined): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  for (const raw of specs ?? []) {
+    const [entity = '', fields = ''] = raw.split(':', 2);
+    if (!entity.trim()) continue;
+    out[entity.trim()] = fields
+      .split(',')
+      .map((f) => f.trim())
+      .filter(Boolean);
+  }
+  return out;
+}
+
+function parseAuditLogMode(value: unknown): 'table' | 'trigger' | null {
+  if (value === undefined) return null;
+  if (value === 'table' || value === 'trigger') return value;
+  throw new Error(`--audit-log must be "table" or "trigger", got: ${String(value as string)}`);
+}
+
 function printVerifyResult(result: {
   ok: boolean;
   filesScanned: number;
@@ -414,6 +434,7 @@ async function main() {
     )
     .option('--no-init-supabase', 'Skip generating Supabase SQL assets')
     .option('--owner-column <name>', 'Owner column name for generated RLS templates')
+    .option('--tenant-column <name>', 'Tenant column name for generated tables and RLS templates')
     .option('--include-updated-at', 'Include updated_at columns in generated tables', false)
     .option(
       '--generate-edge-functions',
@@ -486,6 +507,7 @@ async function main() {
             }
 
             const ownerColumn = cmd?.ownerColumn ? String(cmd.ownerColumn) : null;
+            const tenantColumn = cmd?.tenantColumn ? String(cmd.tenantColumn) : null;
             const includeUpdatedAt = Boolean(cmd?.includeUpdatedAt);
 
             const hasServerFunctions = (report.inferred.serverFunctions?.length ?? 0) > 0;
@@ -516,6 +538,7 @@ async function main() {
               console.log('Initializing Supabase assets...');
               await runInitSupabase(chosenOut, {
                 ownerColumn,
+                tenantColumn,
                 includeUpdatedAt,
                 generateEdgeFunctions,
                 functionsDir,
@@ -631,6 +654,12 @@ async function main() {
               { defaultValue: '' },
             );
             const ownerColumn = ownerColumnRaw.trim() ? ownerColumnRaw.trim() : null;
+            const tenantColumnRaw = await promptInput(
+              rl,
+              'Optional tenant column for multi-tenant tables (leave blank for none)',
+              { defaultValue: '' },
+            );
+            const tenantColumn = tenantColumnRaw.trim() ? tenantColumnRaw.trim() : null;
             const includeUpdatedAt = await promptConfirm(
               rl,
               'Include updated_at columns in generated tables?',
@@ -679,6 +708,7 @@ async function main() {
               console.log('Initializing Supabase assets...');
               await runInitSupabase(chosenOut, {
                 ownerColumn,
+                tenantColumn,
                 includeUpdatedAt,
                 generateEdgeFunctions,
                 functionsDir,
@@ -742,21 +772,53 @@ async function main() {
     .command('init-supabase')
     .argument('<path>', 'Path to the project to initialize Supabase assets for')
     .option('--owner-column <name>', 'Add an owner column (uuid) and tailor RLS templates to it')
+    .option(
+      '--tenant-column <name>',
+      'Add a tenant column (uuid) to every table with tenant-isolation RLS templates',
+    )
     .option('--include-updated-at', 'Add updated_at columns to generated tables', false)
+    .option(
+      '--searchable <entity[:fields]>',
+      'Add a full-text search column and GIN index to an entity, e.g. todos:title,notes (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      [],
+    )
+    .option('--search-config <name>', 'Text search configuration for search columns', 'english')
+    .option(
+      '--soft-delete <entity>',
+      'Add a deleted_at column, partial index and RLS template for soft deletes (repeatable)',
+      (value: string, previous: string[]) => [...previous, value],
+      [],
+    )
+    .option(
+      '--audit-log <mode>',
+      'Add an audit_log table: "table" for the adapter\'s withAudit, "trigger" to also fill it from triggers',
+    )
     .option(
       '--edge-functions',
       'Generate Edge Function stub(s) for inferred server function calls',
       false,
     )
     .option('--functions-dir <path>', 'Where to write Edge Function stubs', 'supabase/functions')
+    .option('--no-schema-types', 'Skip generating the typed Schema file for the backend entry')
+    .option('--no-validators', 'Skip generating default write validators for the entities')
+    .option('--force', 'Overwrite existing schema types and validators', false)
     .description('Generate Supabase SQL migrations and safe-by-default RLS policy templates.')
     .action(async (targetPath: string, cmd: any) => {
       const abs = resolveTargetPath(targetPath);
       const { reportPath, report } = await runInitSupabase(abs, {
         ownerColumn: cmd?.ownerColumn ?? null,
+        tenantColumn: cmd?.tenantColumn ?? null,
         includeUpdatedAt: Boolean(cmd?.includeUpdatedAt),
+        searchable: parseSearchableSpecs(cmd?.searchable),
+        searchConfig: cmd?.searchConfig,
+        softDelete: cmd?.softDelete,
+        auditLog: parseAuditLogMode(cmd?.auditLog),
         generateEdgeFunctions: Boolean(cmd?.edgeFunctions),
         functionsDir: cmd?.functionsDir,
+        generateSchemaTypes: cmd?.schemaTypes !== false,
+        generateValidators: cmd?.validators !== false,
+        force: Boolean(cmd?.force),
       });
       console.log(`Wrote report: ${reportPath}`);
       if (report.initSupabase) {
@@ -766,11 +828,18 @@ async function main() {
         );
         if (report.initSupabase.seedGenerated)
           console.log(`Generated: ${report.initSupabase.seedGenerated}`);
+        if (report.initSupabase.schemaTypesGenerated)
+          console.log(`Generated: ${report.initSupabase.schemaTypesGenerated}`);
+        if (report.initSupabase.validatorsGenerated)
+          console.log(`Generated: ${report.initSupabase.validatorsGenerated}`);
         if (report.initSupabase.edgeFunctionsGenerated?.length) {
           console.log(
             `Generated: ${report.initSupabase.edgeFunctionsGenerated.length} Edge Function stub(s)`,
           );
         }
+        for (const skipped of report.initSupabase.skippedExisting ?? []) {
+          console.log(`Skipped: ${skipped} already exists (pass --force to overwrite)`);
+        }
       }
       console.log('');
       printSupabaseNextSteps(abs);
@@ -1,6 +1,7 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import {
+  Node,
   Project,
   SyntaxKind,
   type CallExpression,
@@ -11,6 +12,8 @@ import {
 
 import { findProjectSourceFiles, toPosixPath } from './fs.js';
 import { findImportedModuleSpecifiers } from './importScan.js';
+import { translateQueryObject } from './queryFilters.js';
+import { renderPlaceholderSchemaTypes, schemaTypesPathFor } from './schemaTypes.js';
 import { isLikelyBase44ImportSource } from './sdkHeuristics.js';
 import type { Base44ToSupabaseReport, ConversionTodo, UsageCategory } from './report.js';
 
@@ -31,6 +34,15 @@ type Base44Bindings = {
   storage: string[];
 };
 
+async function fileExists(p: string): Promise<boolean> {
+  try {
+    await fs.stat(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 function rel(rootPath: string, abs: string): string {
   return toPosixPath(path.relative(rootPath, abs));
 }
@@ -158,8 +170,134 @@ function getCallSnapshotReverse(sf: SourceFile): CallExpression[] {
   return calls;
 }
 
-function rewriteAuthCalls(sf: SourceFile, bindings: Base44Bindings): number {
+const PASSTHROUGH_AUTH_METHODS = new Set([
+  'signIn',
+  'signUp',
+  'signOut',
+  'getUser',
+  'getSession',
+  'resetPasswordForEmail',
+  'updatePassword',
+  'onAuthStateChange',
+  'signInWithOtp',
+  'verifyOtp',
+  'signInWithOAuth',
+  'exchangeCodeForSession',
+]);
+
+// Base44-style helpers taking the email as their first argument.
+const MAGIC_LINK_AUTH_METHODS = new Set([
+  'signInWithMagicLink',
+  'sendMagicLink',
+  'loginWithMagicLink',
+]);
+
+// Generic helpers taking the provider id as their first argument.
+const PROVIDER_AUTH_METHODS = new Set(['signInWithProvider', 'loginWithProvider']);
+
+// Per-provider shortcuts, mapped to Supabase provider ids.
+const OAUTH_SHORTCUT_PROVIDERS: Record<string, string> = {
+  signInWithGoogle: 'google',
+  signInWithGithub: 'github',
+  signInWithGitHub: 'github',
+  signInWithApple: 'apple',
+  signInWithFacebook: 'facebook',
+  signInWithMicrosoft: 'azure',
+};
+
+// Base44 sign-in option keys with a `backend.auth` equivalent, mapped to that option's name.
+// Anything else is left as a TODO comment in the rewritten call.
+const OTP_OPTION_KEYS: Record<string, string> = {
+  redirectTo: 'redirectTo',
+  redirectUrl: 'redirectTo',
+  emailRedirectTo: 'redirectTo',
+  shouldCreateUser: 'shouldCreateUser',
+};
+
+const OAUTH_OPTION_KEYS: Record<string, string> = {
+  redirectTo: 'redirectTo',
+  redirectUrl: 'redirectTo',
+  scopes: 'scopes',
+  scope: 'scopes',
+};
+
+type AuthRewrite = { text: string; unmapped: boolean };
+
+function optionKey(prop: Node): string | null {
+  if (Node.isPropertyAssignment(prop)) {
+    const nameNode = prop.getNameNode();
+    if (Node.isIdentifier(nameNode)) return nameNode.getText();
+    if (Node.isStringLiteral(nameNode)) return nameNode.getLiteralText();
+  }
+  if (Node.isShorthandPropertyAssignment(prop)) return prop.getName();
+  // Spreads, computed keys and methods cannot be mapped statically.
+  return null;
+}
+
+// Builds the options object of a `backend.auth` sign-in call from fixed `entries` plus the Base44
+// `options` argument. Keys in `keys` are renamed; other keys, and options that are not an object
+// literal, become `// TODO(base44-to-supabase)` lines inside the object.
+function authParams(
+  entries: string[],
+  options: Node | undefined,
+  keys: Record<string, string>,
+): AuthRewrite {
+  const todos: string[] = [];
+  if (options && Node.isObjectLiteralExpression(options)) {
+    for (const prop of options.getProperties()) {
+      const key = optionKey(prop);
+      const target = key === null ? undefined : keys[key];
+      if (target === undefined) {
+        const text = prop.getText().replace(/\s+/g, ' ');
+        todos.push(`// TODO(base44-to-supabase): Base44 option not mapped: ${text}`);
+        continue;
+      }
+      const value = Node.isPropertyAssignment(prop) ? prop.getInitializerOrThrow().getText() : key;
+      entries.push(target === value ? target : `${target}: ${value}`);
+    }
+  } else if (options) {
+    const supported = [...new Set(Object.values(keys))].join(', ');
+    todos.push(
+      `// TODO(base44-to-supabase): map ${options.getText().replace(/\s+/g, ' ')} to backend.auth options (${supported})`,
+    );
+  }
+  if (todos.length === 0) return { text: `{ ${entries.join(', ')} }`, unmapped: false };
+  const lines = [...entries.map((e) => `${e},`), ...todos];
+  return { text: `{\n${lines.map((l) => `  ${l}`).join('\n')}\n}`, unmapped: true };
+}
+
+function rewriteAuthCall(method: string, args: Node[]): AuthRewrite | null {
+  if (PASSTHROUGH_AUTH_METHODS.has(method)) {
+    const text = `backend.auth.${method}(${args.map((a) => a.getText()).join(', ')})`;
+    return { text, unmapped: false };
+  }
+
+  let call: string | null = null;
+  let params: AuthRewrite | null = null;
+  if (MAGIC_LINK_AUTH_METHODS.has(method) && args.length >= 1) {
+    const [email, options] = args;
+    call = 'signInWithOtp';
+    params = authParams([`email: ${email!.getText()}`], options, OTP_OPTION_KEYS);
+  } else if (PROVIDER_AUTH_METHODS.has(method) && args.length >= 1) {
+    const [provider, options] = args;
+    call = 'signInWithOAuth';
+    params = authParams([`provider: ${provider!.getText()}`], options, OAUTH_OPTION_KEYS);
+  } else if (method in OAUTH_SHORTCUT_PROVIDERS) {
+    const [options] = args;
+    const provider = OAUTH_SHORTCUT_PROVIDERS[method]!;
+    call = 'signInWithOAuth';
+    params = authParams([`provider: '${provider}'`], options, OAUTH_OPTION_KEYS);
+  }
+  if (!call || !params) return null;
+  return { text: `backend.auth.${call}(${params.text})`, unmapped: params.unmapped };
+}
+
+function rewriteAuthCalls(
+  sf: SourceFile,
+  bindings: Base44Bindings,
+): { rewritten: number; unmapped: number } {
   let rewritten = 0;
+  let unmapped = 0;
   for (const call of getCallSnapshotReverse(sf)) {
     if (call.wasForgotten()) continue;
     const expr = call.getExpression();
@@ -167,28 +305,14 @@ function rewriteAuthCalls(sf: SourceFile, bindings: Base44Bindings): number {
     const pae = expr as PropertyAccessExpression;
     if (!isAuthReceiver(pae.getExpression(), bindings)) continue;
 
-    const method = pae.getName();
-    if (
-      method !== 'signIn' &&
-      method !== 'signUp' &&
-      method !== 'signOut' &&
-      method !== 'getUser' &&
-      method !== 'getSession' &&
-      method !== 'resetPasswordForEmail' &&
-      method !== 'updatePassword' &&
-      method !== 'onAuthStateChange'
-    )
-      continue;
+    const replacement = rewriteAuthCall(pae.getName(), call.getArguments());
+    if (!replacement) continue;
 
-    call.replaceWithText(
-      `backend.auth.${method}(${call
-        .getArguments()
-        .map((a) => a.getText())
-        .join(', ')})`,
-    );
+    call.replaceWithText(replacement.text);
     rewritten++;
+    if (replacement.unmapped) unmapped++;
   }
-  return rewritten;
+  return { rewritten, unmapped };
 }
 
 function rewriteStorageCalls(
@@ -229,6 +353,21 @@ function rewriteStorageCalls(
   return { rewritten, unknown };
 }
 
+// `list(query)`/`find(query)`: equality objects become `filter`, objects with `$or`/`$and`/`$not`
+// or comparison operators become `filters` groups. Returns false (leaving the call for manual
+// conversion) when the query uses operators that cannot be translated.
+function rewriteQueryRead(call: CallExpression, entityText: string): boolean {
+  const query = call.getArguments()[0]!;
+  const translation = translateQueryObject(query);
+  if (translation.kind === 'unsupported') return false;
+  call.replaceWithText(
+    translation.kind === 'filters'
+      ? `backend.data.read(${entityText}, { filters: ${translation.text} })`
+      : `backend.data.read(${entityText}, { filter: ${query.getText()} })`,
+  );
+  return true;
+}
+
 function rewriteCollectionsCrud(
   sf: SourceFile,
   bindings: Base44Bindings,
@@ -320,16 +459,16 @@ function rewriteCollectionsCrud(
         continue;
       }
       if (args.length >= 1) {
-        call.replaceWithText(`backend.data.read(${entityText}, { filter: ${args[0]} })`);
-        rewritten++;
+        if (rewriteQueryRead(call, entityText)) rewritten++;
+        else unknown++;
         continue;
       }
     }
 
     if (method === 'find') {
       if (args.length >= 1) {
-        call.replaceWithText(`backend.data.read(${entityText}, { filter: ${args[0]} })`);
-        rewritten++;
+        if (rewriteQueryRead(call, entityText)) rewritten++;
+        else unknown++;
         continue;
       }
       unknown++;
@@ -415,11 +554,12 @@ export async function convertProject(options: ConvertOptions): Promise<Base44ToS
     ensureBackendImport(sf, backendImport);
 
     // Attempt best-effort call-site rewrites for common patterns.
-    const authRewritten = rewriteAuthCalls(sf, bindings);
+    const authResult = rewriteAuthCalls(sf, bindings);
     const collectionsResult = rewriteCollectionsCrud(sf, bindings);
     const storageResult = rewriteStorageCalls(sf, bindings);
 
-    const anyRewritten = authRewritten + collectionsResult.rewritten + storageResult.rewritten;
+    const anyRewritten =
+      authResult.rewritten + collectionsResult.rewritten + storageResult.rewritten;
     const anyUnknown =
       collectionsResult.unknown + collectionsResult.unknownEntities + storageResult.unknown;
 
@@ -447,6 +587,13 @@ export async function convertProject(options: ConvertOptions): Promise<Base44ToS
         `Found collections CRUD calls that do not match supported signatures (${collectionsResult.unknown} occurrence(s)). Manual conversion required.`,
       );
     }
+    if (authResult.unmapped > 0) {
+      addFileTodo(
+        todos,
+        r,
+        `Found auth sign-in options that could not be mapped to backend.auth (${authResult.unmapped} occurrence(s)). See the TODO(base44-to-supabase) comments in the rewritten calls.`,
+      );
+    }
     if (storageResult.unknown > 0) {
       addFileTodo(
         todos,
@@ -486,17 +633,24 @@ export async function convertProject(options: ConvertOptions): Promise<Base44ToS
   if (backendMode === 'local') {
     await fs.writeFile(
       backendEntryAbs,
-      `import type { Backend } from '@base44-to-supabase/adapter';\nimport { createLocalSupabaseBackendFromEnv } from '@base44-to-supabase/adapter-local';\n\n// Generated by base44-to-supabase.\n// Customize this file for your app (e.g. multiple clients, admin client, server-only code).\n\nexport const backend: Backend = createLocalSupabaseBackendFromEnv();\n`,
+      `import type { Backend } from '@base44-to-supabase/adapter';\nimport { createLocalSupabaseBackendFromEnv } from '@base44-to-supabase/adapter-local';\n\nimport type { Schema } from './schema.js';\n\n// Generated by base44-to-supabase.\n// Customize this file for your app (e.g. multiple clients, admin client, server-only code).\n\nexport const backend: Backend<Schema> = createLocalSupabaseBackendFromEnv<Schema>();\n`,
       'utf8',
     );
   } else {
     await fs.writeFile(
       backendEntryAbs,
-      `import type { Backend } from '@base44-to-supabase/adapter';\nimport { createSupabaseBackendFromEnv } from '@base44-to-supabase/adapter-supabase';\n\n// Generated by base44-to-supabase.\n// Customize this file for your app (e.g. multiple clients, admin client, server-only code).\n\nexport const backend: Backend = createSupabaseBackendFromEnv();\n`,
+      `import type { Backend } from '@base44-to-supabase/adapter';\nimport { createSupabaseBackendFromEnv } from '@base44-to-supabase/adapter-supabase';\n\nimport type { Schema } from './schema.js';\n\n// Generated by base44-to-supabase.\n// Customize this file for your app (e.g. multiple clients, admin client, server-only code).\n\nexport const backend: Backend<Schema> = createSupabaseBackendFromEnv<Schema>();\n`,
       'utf8',
     );
   }
 
+  // init-supabase replaces this placeholder with types for the inferred entities; keep whatever
+  // is already there so re-running convert doesn't discard them.
+  const schemaTypesAbs = path.join(rootPath, schemaTypesPathFor(backendEntryRel));
+  if (!(await fileExists(schemaTypesAbs))) {
+    await fs.writeFile(schemaTypesAbs, renderPlaceholderSchemaTypes(), 'utf8');
+  }
+
   await fs.writeFile(
     envExampleAbs,
     `# Supabase\n# Cloud: set SUPABASE_URL and SUPABASE_ANON_KEY\n# Local: SUPABASE_URL defaults to http://127.0.0.1:54321 when using adapter-local\nSUPABASE_URL=\nSUPABASE_ANON_KEY=\n\n# Optional local overrides\nSUPABASE_LOCAL_URL=http://127.0.0.1:54321\nSUPABASE_LOCAL_ANON_KEY=\n`,
@@ -2,6 +2,7 @@ export * from './report.js';
 export * from './analyze.js';
 export * from './convert.js';
 export * from './initSupabase.js';
+export * from './schemaTypes.js';
 export * from './importScan.js';
 export * from './verify.js';
 export * from './cleanup.js';
@@ -3,18 +3,52 @@ import path from 'node:path';
 
 import type { Base44ToSupabaseReport } from './report.js';
 import { toPosixPath } from './fs.js';
+import {
+  SEARCH_COLUMN,
+  SOFT_DELETE_COLUMN,
+  renderPlaceholderSchemaTypes,
+  renderSchemaTypes,
+  renderValidators,
+  schemaTypesPathFor,
+  validatorsPathFor,
+} from './schemaTypes.js';
 
 export type InitSupabaseOptions = {
   rootPath: string;
   report: Base44ToSupabaseReport;
   schema?: {
     ownerColumn?: string | null;
+    // Column identifying the tenant (organization) of every row, for multi-tenant apps.
+    tenantColumn?: string | null;
     includeUpdatedAt?: boolean;
+    // Entities to make full-text searchable, mapped to the fields to index (empty for all inferred
+    // fields). Each gets a generated tsvector column plus a GIN index.
+    searchable?: Record<string, string[]>;
+    // Text search configuration for the tsvector columns. Defaults to `english`.
+    searchConfig?: string;
+    // Entities whose rows are soft-deleted: they get a `deleted_at` column, a partial index over
+    // live rows and a policy template hiding deleted rows.
+    softDelete?: string[];
+    // `table` creates an `audit_log` table for the adapter's `withAudit` table sink; `trigger`
+    // also fills it from a trigger on every generated table, auditing writes server-side.
+    auditLog?: 'table' | 'trigger' | null;
   };
   edgeFunctions?: {
     generate?: boolean;
     functionsDir?: string;
   };
+  schemaTypes?: {
+    generate?: boolean;
+    // Defaults to `schema.ts` next to the backend entry written by convert.
+    outputPath?: string;
+  };
+  validators?: {
+    // Writes `validators.ts` next to the schema types.
+    generate?: boolean;
+  };
+  // Rewrites existing schema types and validators, which may hold hand-made refinements.
+  // Without it they are left alone (and reported as skipped) unless still the convert placeholder.
+  force?: boolean;
 };
 
 function nowStamp(): string {
@@ -29,6 +63,76 @@ function sqlIdent(name: string): string {
   return `"${name.replaceAll('"', '""')}"`;
 }
 
+function sqlString(value: string): string {
+  return `'${value.replaceAll("'", "''")}'`;
+}
+
+// Generated column combining the searchable fields, kept in sync by Postgres on every write.
+function searchColumnSql(fields: string[], config: string): string {
+  const document = fields.map((f) => `coalesce(${sqlIdent(f)}, '')`).join(` || ' ' || `);
+  return `${SEARCH_COLUMN} tsvector generated always as (to_tsvector(${sqlString(config)}, ${document})) stored`;
+}
+
+// The tenant of the signed-in user, read from the JWT. Only the service role can change
+// app_metadata, so users cannot move themselves to another tenant.
+function tenantClaimSql(tenantColumn: string): string {
+  return `(auth.jwt() -> 'app_metadata' ->> ${sqlString(tenantColumn)})::uuid`;
+}
+
+const AUDIT_TABLE = 'audit_log';
+const AUDIT_TRIGGER_FUNCTION = 'audit_row_change';
+
+// Matches the rows written by the adapter's `auditTableSink`.
+function auditTableSql(): string[] {
+  return [
+    `create table if not exists ${AUDIT_TABLE} (`,
+    `  id bigint generated always as identity primary key,`,
+    `  entity text not null,`,
+    `  record_id text,`,
+    `  operation text not null,`,
+    `  actor uuid,`,
+    `  diff jsonb not null default '{}'::jsonb,`,
+    `  created_at timestamptz not null default now()`,
+    `);`,
+    `alter table ${AUDIT_TABLE} enable row level security;`,
+    `create index if not exists ${AUDIT_TABLE}_entity_record_idx on ${AUDIT_TABLE} (entity, record_id);`,
+  ];
+}
+
+// Generic row trigger recording the changed columns as `{ column: { old, new } }`, the same diff
+// shape as `withAudit`. Operations are recorded as insert, update and delete.
+function auditTriggerFunctionSql(): string[] {
+  return [
+    `create or replace function public.${AUDIT_TRIGGER_FUNCTION}() returns trigger`,
+    `language plpgsql security definer set search_path = public as $$`,
+    `declare`,
+    `  old_row jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;`,
+    `  new_row jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;`,
+    `  changes jsonb := '{}'::jsonb;`,
+    `  col text;`,
+    `begin`,
+    `  for col in select jsonb_object_keys(coalesce(old_row, '{}'::jsonb) || coalesce(new_row, '{}'::jsonb)) loop`,
+    `    if (old_row -> col) is distinct from (new_row -> col) then`,
+    `      changes := changes || jsonb_build_object(col, jsonb_build_object('old', old_row -> col, 'new', new_row -> col));`,
+    `    end if;`,
+    `  end loop;`,
+    `  insert into ${AUDIT_TABLE} (entity, record_id, operation, actor, diff)`,
+    `  values (tg_table_name, coalesce(new_row, old_row) ->> 'id', lower(tg_op), auth.uid(), changes);`,
+    `  return null;`,
+    `end;`,
+    `$$;`,
+  ];
+}
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
 function toSqlType(field: string): string {
   // Conservative default. Users should refine types after initial migration.
   void field;
@@ -42,7 +146,12 @@ export async function initSupabaseProject(
   const report = options.report;
 
   const ownerColumn = options.schema?.ownerColumn ?? null;
+  const tenantColumn = options.schema?.tenantColumn ?? null;
   const includeUpdatedAt = options.schema?.includeUpdatedAt ?? false;
+  const searchable = options.schema?.searchable ?? {};
+  const searchConfig = options.schema?.searchConfig ?? 'english';
+  const softDelete = options.schema?.softDelete ?? [];
+  const auditLog = options.schema?.auditLog ?? null;
   const shouldGenerateEdgeFunctions = options.edgeFunctions?.generate ?? false;
   const functionsDirRel =
     options.edgeFunctions?.functionsDir ?? toPosixPath(path.join('supabase', 'functions'));
@@ -61,6 +170,27 @@ export async function initSupabaseProject(
 
   const entities = report.inferred.entities;
 
+  // Inferred fields that do not collide with a column the generator adds itself (the tenant
+  // column, for one, is often already written by converted apps); a column listed twice fails
+  // the migration.
+  function inferredFieldsFor(entity: string, fields: string[]): string[] {
+    const generated = new Set(['id', 'created_at']);
+    if (ownerColumn) generated.add(ownerColumn);
+    if (tenantColumn) generated.add(tenantColumn);
+    if (includeUpdatedAt) generated.add('updated_at');
+    if (softDelete.includes(entity)) generated.add(SOFT_DELETE_COLUMN);
+    if (searchable[entity]) generated.add(SEARCH_COLUMN);
+    return fields.filter((f) => !generated.has(f));
+  }
+
+  // Listed fields that exist on the entity, or every inferred field; null if nothing to index.
+  function searchFieldsFor(entity: string, fields: string[]): string[] | null {
+    const requested = searchable[entity];
+    if (!requested) return null;
+    const selected = requested.length ? requested.filter((f) => fields.includes(f)) : fields;
+    return selected.length ? selected : null;
+  }
+
   const migrationSql: string[] = [];
   migrationSql.push(`-- Generated by base44-to-supabase on ${new Date().toISOString()}`);
   migrationSql.push(`-- Review and edit before applying.`);
@@ -70,9 +200,15 @@ export async function initSupabaseProject(
     const cols: string[] = [];
     cols.push(`id uuid primary key default gen_random_uuid()`);
     if (ownerColumn) cols.push(`${sqlIdent(ownerColumn)} uuid`);
-    for (const field of entity.fields) cols.push(`${sqlIdent(field)} ${toSqlType(field)}`);
+    if (tenantColumn) cols.push(`${sqlIdent(tenantColumn)} uuid not null`);
+    const fields = inferredFieldsFor(entity.name, entity.fields);
+    for (const field of fields) cols.push(`${sqlIdent(field)} ${toSqlType(field)}`);
     cols.push(`created_at timestamptz not null default now()`);
     if (includeUpdatedAt) cols.push(`updated_at timestamptz not null default now()`);
+    const isSoftDeleted = softDelete.includes(entity.name);
+    if (isSoftDeleted) cols.push(`${SOFT_DELETE_COLUMN} timestamptz`);
+    const searchFields = searchFieldsFor(entity.name, fields);
+    if (searchFields) cols.push(searchColumnSql(searchFields, searchConfig));
 
     migrationSql.push(`create table if not exists ${sqlIdent(entity.name)} (`);
     for (let i = 0; i < cols.length; i++) {
@@ -82,6 +218,50 @@ export async function initSupabaseProject(
     }
     migrationSql.push(');');
     migrationSql.push(`alter table ${sqlIdent(entity.name)} enable row level security;`);
+    if (tenantColumn) {
+      migrationSql.push(
+        `create index if not exists ${sqlIdent(`${entity.name}_${tenantColumn}_idx`)} on ${sqlIdent(entity.name)} (${sqlIdent(tenantColumn)});`,
+      );
+    }
+    if (isSoftDeleted) {
+      // Reads filter on `deleted_at is null`, so only live rows need to be indexed.
+      migrationSql.push(
+        `create index if not exists ${sqlIdent(`${entity.name}_live_idx`)} on ${sqlIdent(entity.name)} (created_at) where ${SOFT_DELETE_COLUMN} is null;`,
+      );
+    }
+    if (searchFields) {
+      migrationSql.push(
+        `create index if not exists ${sqlIdent(`${entity.name}_${SEARCH_COLUMN}_idx`)} on ${sqlIdent(entity.name)} using gin (${SEARCH_COLUMN});`,
+      );
+    }
+    migrationSql.push('');
+  }
+
+  for (const name of Object.keys(searchable)) {
+    if (!entities.some((e) => e.name === name)) {
+      migrationSql.push(`-- Searchable entity "${name}" was not inferred; no search column added.`);
+    }
+  }
+  for (const name of softDelete) {
+    if (!entities.some((e) => e.name === name)) {
+      migrationSql.push(
+        `-- Soft-delete entity "${name}" was not inferred; no ${SOFT_DELETE_COLUMN} column added.`,
+      );
+    }
+  }
+
+  if (auditLog) {
+    migrationSql.push('');
+    migrationSql.push(...auditTableSql());
+    if (auditLog === 'trigger') {
+      migrationSql.push('');
+      migrationSql.push(...auditTriggerFunctionSql());
+      for (const entity of entities) {
+        migrationSql.push(
+          `create or replace trigger ${sqlIdent(`${entity.name}_audit`)} after insert or update or delete on ${sqlIdent(entity.name)} for each row execute function public.${AUDIT_TRIGGER_FUNCTION}();`,
+        );
+      }
+    }
     migrationSql.push('');
   }
 
@@ -98,6 +278,33 @@ export async function initSupabaseProject(
     policySql.push(`-- for select to authenticated using (true);`);
     policySql.push('');
 
+    if (tenantColumn) {
+      const tenant = tenantClaimSql(tenantColumn);
+      policySql.push(
+        `-- Example: restrict every operation to the user's tenant (requires ${tenantColumn} in the`,
+      );
+      policySql.push(`-- user's app_metadata, e.g. set with the admin backend's setAppMetadata)`);
+      policySql.push(
+        `-- create policy "${entity.name}_tenant_isolation" on ${sqlIdent(entity.name)} as restrictive`,
+      );
+      policySql.push(`-- for all to authenticated`);
+      policySql.push(`-- using (${sqlIdent(tenantColumn)} = ${tenant})`);
+      policySql.push(`-- with check (${sqlIdent(tenantColumn)} = ${tenant});`);
+      policySql.push('');
+    }
+
+    if (softDelete.includes(entity.name)) {
+      policySql.push(
+        `-- Example: hide soft-deleted rows from users. Reads with includeDeleted and restore then`,
+      );
+      policySql.push(`-- need the admin backend (service role), which bypasses RLS`);
+      policySql.push(
+        `-- create policy "${entity.name}_hide_deleted" on ${sqlIdent(entity.name)} as restrictive`,
+      );
+      policySql.push(`-- for select to authenticated using (${SOFT_DELETE_COLUMN} is null);`);
+      policySql.push('');
+    }
+
     if (ownerColumn) {
       policySql.push(
         `-- Example: allow users to insert their own rows (requires a ${ownerColumn} column)`,
@@ -110,6 +317,16 @@ export async function initSupabaseProject(
     }
   }
 
+  if (auditLog) {
+    policySql.push(
+      `-- Example: let signed-in users append their own entries through the audit table sink.`,
+    );
+    policySql.push(`-- Reading the log is left to the service role.`);
+    policySql.push(`-- create policy "${AUDIT_TABLE}_insert_own" on ${AUDIT_TABLE}`);
+    policySql.push(`-- for insert to authenticated with check (actor = auth.uid());`);
+    policySql.push('');
+  }
+
   const seedSql: string[] = [];
   seedSql.push(`-- Optional seed data (generated by base44-to-supabase).`);
   seedSql.push(`-- Add inserts here once your schema is finalized.`);
@@ -119,6 +336,55 @@ export async function initSupabaseProject(
   await fs.writeFile(policyPath, policySql.join('\n'), 'utf8');
   await fs.writeFile(seedPath, seedSql.join('\n'), 'utf8');
 
+  const schemaTypesRel =
+    options.schemaTypes?.outputPath ?? schemaTypesPathFor(report.convert?.backendEntryPath);
+  const columnOptions = {
+    ownerColumn,
+    tenantColumn,
+    includeUpdatedAt,
+    searchable: entities
+      .filter((e) => searchFieldsFor(e.name, inferredFieldsFor(e.name, e.fields)))
+      .map((e) => e.name),
+    softDelete,
+  };
+
+  // Writes a generated TypeScript file unless the user already has one; returns its relative
+  // path, or undefined when it was skipped.
+  const skippedExisting: string[] = [];
+  async function writeTypeScript(fileRel: string, content: string): Promise<string | undefined> {
+    const fileAbs = path.join(rootPath, ...fileRel.split('/'));
+    const relative = toPosixPath(path.relative(rootPath, fileAbs));
+    const existing = await readIfExists(fileAbs);
+    if (
+      existing !== null &&
+      existing !== content &&
+      existing !== renderPlaceholderSchemaTypes() &&
+      !options.force
+    ) {
+      skippedExisting.push(relative);
+      return undefined;
+    }
+    await fs.mkdir(path.dirname(fileAbs), { recursive: true });
+    await fs.writeFile(fileAbs, content, 'utf8');
+    return relative;
+  }
+
+  let schemaTypesGenerated: string | undefined;
+  if (options.schemaTypes?.generate ?? true) {
+    schemaTypesGenerated = await writeTypeScript(
+      schemaTypesRel,
+      renderSchemaTypes(entities, columnOptions),
+    );
+  }
+
+  let validatorsGenerated: string | undefined;
+  if ((options.validators?.generate ?? true) && entities.length) {
+    validatorsGenerated = await writeTypeScript(
+      validatorsPathFor(schemaTypesRel),
+      renderValidators(entities, columnOptions),
+    );
+  }
+
   const edgeFunctionsGenerated: string[] = [];
   if (shouldGenerateEdgeFunctions && report.inferred.serverFunctions.length) {
     const functionsDirAbs = path.join(rootPath, ...functionsDirRel.split('/'));
@@ -156,6 +422,9 @@ serve((_req) => {
     policiesGenerated: [toPosixPath(path.relative(rootPath, policyPath))],
     seedGenerated: toPosixPath(path.relative(rootPath, seedPath)),
     edgeFunctionsGenerated: edgeFunctionsGenerated.length ? edgeFunctionsGenerated : undefined,
+    schemaTypesGenerated,
+    validatorsGenerated,
+    skippedExisting: skippedExisting.length ? skippedExisting : undefined,
   };
 
   return report;
@@ -0,0 +1,150 @@
+import { Node, SyntaxKind, type Expression, type ObjectLiteralExpression } from 'ts-morph';
+
+// Mongo-style comparison operators used in Base44 query objects, mapped to adapter filter ops.
+const COMPARISON_OPS: Record<string, string> = {
+  $eq: 'eq',
+  $ne: 'neq',
+  $gt: 'gt',
+  $gte: 'gte',
+  $lt: 'lt',
+  $lte: 'lte',
+  $in: 'in',
+  $like: 'like',
+  $ilike: 'ilike',
+  $contains: 'contains',
+};
+
+class Untranslatable extends Error {}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function propertyName(node: Node): string {
+  if (Node.isPropertyAssignment(node)) {
+    const nameNode = node.getNameNode();
+    if (Node.isStringLiteral(nameNode) || Node.isNoSubstitutionTemplateLiteral(nameNode)) {
+      return nameNode.getLiteralText();
+    }
+    if (Node.isIdentifier(nameNode) || Node.isNumericLiteral(nameNode)) return nameNode.getText();
+  }
+  if (Node.isShorthandPropertyAssignment(node)) return node.getName();
+  // Spreads, computed keys and methods cannot be mapped statically.
+  throw new Untranslatable();
+}
+
+function propertyValue(node: Node): Expression {
+  if (Node.isPropertyAssignment(node)) {
+    const initializer = node.getInitializer();
+    if (initializer) return initializer;
+  }
+  if (Node.isShorthandPropertyAssignment(node)) return node.getNameNode();
+  throw new Untranslatable();
+}
+
+function hasOperatorKeys(node: Node): boolean {
+  return node
+    .getDescendantsOfKind(SyntaxKind.PropertyAssignment)
+    .some((p) => /^['"`]?\$/.test(p.getName()));
+}
+
+function filterText(field: string, op: string, value: string): string {
+  return `{ field: ${quote(field)}, op: '${op}', value: ${value} }`;
+}
+
+function objectOperands(value: Expression): ObjectLiteralExpression[] {
+  if (!Node.isArrayLiteralExpression(value)) throw new Untranslatable();
+  return value.getElements().map((element) => {
+    if (!Node.isObjectLiteralExpression(element)) throw new Untranslatable();
+    return element;
+  });
+}
+
+// One query object as a list of filter nodes; its keys are ANDed together.
+function translateObject(object: ObjectLiteralExpression): string[] {
+  const nodes: string[] = [];
+  for (const property of object.getProperties()) {
+    const name = propertyName(property);
+    const value = propertyValue(property);
+
+    if (name === '$or' || name === '$and') {
+      const group = objectOperands(value).map(translateGroupMember);
+      nodes.push(`{ ${name.slice(1)}: [${group.join(', ')}] }`);
+      continue;
+    }
+    if (name === '$nor') {
+      const group = objectOperands(value).map(translateGroupMember);
+      nodes.push(`{ not: { or: [${group.join(', ')}] } }`);
+      continue;
+    }
+    if (name === '$not') {
+      if (!Node.isObjectLiteralExpression(value)) throw new Untranslatable();
+      nodes.push(`{ not: ${translateGroupMember(value)} }`);
+      continue;
+    }
+    if (name.startsWith('$')) throw new Untranslatable();
+
+    if (Node.isObjectLiteralExpression(value) && value.getProperties().length > 0) {
+      const operators = value.getProperties();
+      if (operators.every((op) => propertyName(op).startsWith('$'))) {
+        for (const op of operators) nodes.push(...translateFieldOperator(name, op));
+        continue;
+      }
+    }
+
+    nodes.push(
+      value.getKind() === SyntaxKind.NullKeyword
+        ? filterText(name, 'is', 'null')
+        : filterText(name, 'eq', value.getText()),
+    );
+  }
+  return nodes;
+}
+
+function translateFieldOperator(field: string, operator: Node): string[] {
+  const name = propertyName(operator);
+  const value = propertyValue(operator).getText();
+  if (name === '$nin') return [`{ not: ${filterText(field, 'in', value)} }`];
+  if (name === '$exists') {
+    const exists = value === 'true' ? true : value === 'false' ? false : null;
+    if (exists === null) throw new Untranslatable();
+    const isNull = filterText(field, 'is', 'null');
+    return [exists ? `{ not: ${isNull} }` : isNull];
+  }
+  if (name === '$regex') {
+    // Only string patterns: regex literals and `$options` flags have no PostgREST equivalent.
+    const pattern = propertyValue(operator);
+    if (!Node.isStringLiteral(pattern) && !Node.isNoSubstitutionTemplateLiteral(pattern)) {
+      throw new Untranslatable();
+    }
+    return [filterText(field, 'match', value)];
+  }
+  const op = COMPARISON_OPS[name];
+  if (!op) throw new Untranslatable();
+  return [filterText(field, op, value)];
+}
+
+function translateGroupMember(object: ObjectLiteralExpression): string {
+  const nodes = translateObject(object);
+  if (nodes.length === 0) throw new Untranslatable();
+  return nodes.length === 1 ? nodes[0]! : `{ and: [${nodes.join(', ')}] }`;
+}
+
+export type QueryTranslation =
+  // No operators: the object can be used as an equality `filter` as is.
+  | { kind: 'equality' }
+  | { kind: 'filters'; text: string }
+  // Operators we cannot express (e.g. `$size`, regex literals, spreads, computed keys).
+  | { kind: 'unsupported' };
+
+// Translates a Base44 query object such as `{ $or: [{ status: 'open' }, { assignee: me }] }` into
+// the text of a `filters` array with `and`/`or`/`not` groups.
+export function translateQueryObject(node: Node): QueryTranslation {
+  if (!Node.isObjectLiteralExpression(node) || !hasOperatorKeys(node)) return { kind: 'equality' };
+  try {
+    return { kind: 'filters', text: `[${translateObject(node).join(', ')}]` };
+  } catch (error) {
+    if (error instanceof Untranslatable) return { kind: 'unsupported' };
+    throw error;
+  }
+}
@@ -58,6 +58,10 @@ export type Base44ToSupabaseReport = {
     policiesGenerated: string[];
     seedGenerated?: string;
     edgeFunctionsGenerated?: string[];
+    schemaTypesGenerated?: string;
+    validatorsGenerated?: string;
+    // Generated files left alone because they already existed (see `--force`).
+    skippedExisting?: string[];
   };
   cleanup?: {
     mode: 'dry-run' | 'delete';
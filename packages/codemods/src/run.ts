@@ -17,9 +17,17 @@ export type RunConvertOptions = {
 
 export type RunInitSupabaseOptions = {
   ownerColumn?: string | null;
+  tenantColumn?: string | null;
   includeUpdatedAt?: boolean;
+  searchable?: Record<string, string[]>;
+  searchConfig?: string;
+  softDelete?: string[];
+  auditLog?: 'table' | 'trigger' | null;
   generateEdgeFunctions?: boolean;
   functionsDir?: string;
+  generateSchemaTypes?: boolean;
+  generateValidators?: boolean;
+  force?: boolean;
 };
 
 export type RunCleanupOptions = {
@@ -70,12 +78,24 @@ export async function runInitSupabase(
     report: existing,
     schema: {
       ownerColumn: options?.ownerColumn ?? null,
+      tenantColumn: options?.tenantColumn ?? null,
       includeUpdatedAt: options?.includeUpdatedAt ?? false,
+      searchable: options?.searchable,
+      searchConfig: options?.searchConfig,
+      softDelete: options?.softDelete,
+      auditLog: options?.auditLog ?? null,
     },
     edgeFunctions: {
       generate: options?.generateEdgeFunctions ?? false,
       functionsDir: options?.functionsDir,
     },
+    schemaTypes: {
+      generate: options?.generateSchemaTypes ?? true,
+    },
+    validators: {
+      generate: options?.generateValidators ?? true,
+    },
+    force: options?.force ?? false,
   });
   const reportPath = await writeReport(abs, updated);
   return { report: updated, reportPath };
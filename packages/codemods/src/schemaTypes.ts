@@ -0,0 +1,161 @@
+import path from 'node:path';
+
+import type { InferredEntity } from './report.js';
+import { toPosixPath } from './fs.js';
+
+export type SchemaTypesOptions = {
+  ownerColumn?: string | null;
+  tenantColumn?: string | null;
+  includeUpdatedAt?: boolean;
+  // Entities with a generated full-text search column.
+  searchable?: string[];
+  // Entities with a soft-delete timestamp column.
+  softDelete?: string[];
+};
+
+// Name of the tsvector column generated for searchable entities.
+export const SEARCH_COLUMN = 'fts';
+// Timestamp column marking soft-deleted rows; the adapters' default `SoftDeleteOptions.column`.
+export const SOFT_DELETE_COLUMN = 'deleted_at';
+
+const DEFAULT_BACKEND_ENTRY = 'src/backend/index.ts';
+
+// The schema file lives next to the generated backend entry so the entry can import './schema.js'.
+export function schemaTypesPathFor(backendEntryRel?: string): string {
+  const entry = backendEntryRel ?? DEFAULT_BACKEND_ENTRY;
+  return toPosixPath(path.join(path.dirname(entry), 'schema.ts'));
+}
+
+function toTypeName(entity: string, used: Set<string>): string {
+  const words = entity.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  let name = words.map((w) => w[0]!.toUpperCase() + w.slice(1)).join('') || 'Entity';
+  if (/^[0-9]/.test(name)) name = `_${name}`;
+  if (name === 'Schema') name = 'SchemaEntity';
+
+  let unique = name;
+  for (let i = 2; used.has(unique); i++) unique = `${name}${i}`;
+  used.add(unique);
+  return unique;
+}
+
+function toPropertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+// Same directory as the schema types, so the backend entry can import './validators.js'.
+export function validatorsPathFor(schemaTypesRel: string): string {
+  return toPosixPath(path.join(path.dirname(schemaTypesRel), 'validators.ts'));
+}
+
+type GeneratedColumn = {
+  // TypeScript type of the column in `Schema`.
+  type: string;
+  // `RecordField` literal for the generated validator.
+  field: string;
+};
+
+// Mirrors the columns generated by initSupabaseProject.
+function generatedColumns(
+  entity: InferredEntity,
+  options?: SchemaTypesOptions,
+): Map<string, GeneratedColumn> {
+  const columns = new Map<string, GeneratedColumn>();
+  columns.set('id', { type: 'string', field: "{ type: 'uuid', nullable: false }" });
+  if (options?.ownerColumn) {
+    columns.set(options.ownerColumn, { type: 'string | null', field: "{ type: 'uuid' }" });
+  }
+  if (options?.tenantColumn) {
+    columns.set(options.tenantColumn, {
+      type: 'string',
+      field: "{ type: 'uuid', nullable: false }",
+    });
+  }
+  for (const field of entity.fields) {
+    if (!columns.has(field)) columns.set(field, { type: 'unknown', field: "{ type: 'unknown' }" });
+  }
+  const timestamp = { type: 'string', field: "{ type: 'timestamptz', nullable: false }" };
+  columns.set('created_at', timestamp);
+  if (options?.includeUpdatedAt) columns.set('updated_at', timestamp);
+  if (options?.softDelete?.includes(entity.name)) {
+    columns.set(SOFT_DELETE_COLUMN, { type: 'string | null', field: "{ type: 'timestamptz' }" });
+  }
+  if (options?.searchable?.includes(entity.name)) {
+    columns.set(SEARCH_COLUMN, { type: 'string', field: "{ type: 'unknown', readOnly: true }" });
+  }
+  return columns;
+}
+
+export function renderPlaceholderSchemaTypes(): string {
+  return `import type { EntitySchema } from '@base44-to-supabase/adapter';
+
+// Generated by base44-to-supabase.
+// Placeholder: run \`init-supabase\` to generate entity types from the report, or describe your
+// tables here by hand. Until then any entity name and field is accepted.
+
+export type Schema = EntitySchema;
+`;
+}
+
+export function renderSchemaTypes(
+  entities: InferredEntity[],
+  options?: SchemaTypesOptions,
+): string {
+  if (entities.length === 0) return renderPlaceholderSchemaTypes();
+
+  const used = new Set<string>();
+  const lines: string[] = [];
+  lines.push(`// Generated by base44-to-supabase from inferred entities.`);
+  lines.push(`// Field types start as \`unknown\`: refine them to match your final column types.`);
+  lines.push(
+    `// Entities the analyzer could not infer must be added here before they can be used.`,
+  );
+  lines.push('');
+
+  const entries: Array<{ entity: string; typeName: string }> = [];
+  for (const entity of entities) {
+    const typeName = toTypeName(entity.name, used);
+    entries.push({ entity: entity.name, typeName });
+
+    lines.push(`export type ${typeName} = {`);
+    for (const [column, { type }] of generatedColumns(entity, options)) {
+      lines.push(`  ${toPropertyKey(column)}: ${type};`);
+    }
+    lines.push('};');
+    lines.push('');
+  }
+
+  lines.push('export type Schema = {');
+  for (const { entity, typeName } of entries)
+    lines.push(`  ${toPropertyKey(entity)}: ${typeName};`);
+  lines.push('};');
+  lines.push('');
+  return lines.join('\n');
+}
+
+// Default write validators for the generated tables, applied with `withValidation`. Unknown
+// fields and writes to generated columns are rejected; inferred fields accept any value until
+// their types are refined.
+export function renderValidators(entities: InferredEntity[], options?: SchemaTypesOptions): string {
+  const lines: string[] = [];
+  lines.push(
+    `import { entityValidator, type EntityValidators } from '@base44-to-supabase/adapter';`,
+  );
+  lines.push('');
+  lines.push(`// Generated by base44-to-supabase from inferred entities.`);
+  lines.push(
+    `// Apply with \`withValidation(backend, validators)\`. Tighten field types as columns get their`,
+  );
+  lines.push(`// final types, or replace an entry with a zod or valibot schema.`);
+  lines.push('');
+  lines.push('export const validators: EntityValidators = {');
+  for (const entity of entities) {
+    lines.push(`  ${toPropertyKey(entity.name)}: entityValidator({`);
+    for (const [column, { field }] of generatedColumns(entity, options)) {
+      lines.push(`    ${toPropertyKey(column)}: ${field},`);
+    }
+    lines.push('  }),');
+  }
+  lines.push('};');
+  lines.push('');
+  return lines.join('\n');
+}
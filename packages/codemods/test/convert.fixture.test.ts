@@ -16,16 +16,22 @@ async function makeTempProject(): Promise<string> {
       '',
       "import { auth, collections, storage } from 'base44';",
       '',
-      'export async function run() {',
+      'export async function run(me: string) {',
       '  await auth.signIn({ email: "a@b.com", password: "pw" });',
+      '  await auth.sendMagicLink("a@b.com");',
+      "  await auth.signInWithMagicLink(me, { redirectUrl: '/welcome', locale: 'fr' });",
+      "  await auth.signInWithGoogle({ redirectTo: '/done' });",
+      "  await auth.signInWithProvider('github');",
       "  const todo = await collections('todos').create({ title: 'hello', done: false });",
       "  const one = await collections('todos').get('123');",
       "  const list = await collections('todos').list({ done: false });",
+      "  const mine = await collections('todos').list({ $or: [{ status: 'open' }, { assignee: me, priority: { $gte: 2 } }] });",
+      "  const fixes = await collections('todos').find({ title: { $regex: '^fix' } });",
       "  const upd = await collections('todos').update('123', { done: true });",
       "  await collections('todos').delete('123');",
       "  await storage.upload('files', 'a.txt', new Uint8Array([1,2,3]));",
       "  await storage.download('files', 'a.txt');",
-      '  return { todo, one, list, upd };',
+      '  return { todo, one, list, mine, fixes, upd };',
       '}',
       '',
       'export function env() {',
@@ -35,6 +41,18 @@ async function makeTempProject(): Promise<string> {
     ].join('\n'),
     'utf8',
   );
+  await fs.writeFile(
+    path.join(dir, 'search.ts'),
+    [
+      "import { collections } from 'base44';",
+      '',
+      'export function search() {',
+      "  return collections('todos').find({ tags: { $size: 2 } });",
+      '}',
+      '',
+    ].join('\n'),
+    'utf8',
+  );
   return dir;
 }
 
@@ -59,9 +77,36 @@ describe('convertProject (fixture)', () => {
     expect(out).toMatch(/import\s+\{\s*backend\s*\}\s+from\s+['"]\.\/src\/backend\/index\.js['"]/);
 
     expect(out).toMatch(/backend\.auth\.signIn\(/);
+    expect(out).toContain('backend.auth.signInWithOtp({ email: "a@b.com" })');
+    expect(out).toContain(
+      "backend.auth.signInWithOAuth({ provider: 'google', redirectTo: '/done' })",
+    );
+    expect(out).toContain(
+      [
+        'backend.auth.signInWithOtp({',
+        '    email: me,',
+        "    redirectTo: '/welcome',",
+        "    // TODO(base44-to-supabase): Base44 option not mapped: locale: 'fr'",
+        '  })',
+      ].join('\n'),
+    );
+    expect(updated.convert?.todos.some((t) => /sign-in options/.test(t.message))).toBe(true);
+    expect(out).toContain("backend.auth.signInWithOAuth({ provider: 'github' })");
     expect(out).toMatch(/backend\.data\.create\('todos',/);
     expect(out).toMatch(/backend\.data\.read\('todos', \{ id: '123' \}\)/);
     expect(out).toMatch(/backend\.data\.read\('todos', \{ filter: \{ done: false \} \}\)/);
+    expect(out).toContain(
+      "backend.data.read('todos', { filters: [{ or: [{ field: 'status', op: 'eq', value: 'open' }, { and: [{ field: 'assignee', op: 'eq', value: me }, { field: 'priority', op: 'gte', value: 2 }] }] }] })",
+    );
+    expect(out).toContain(
+      "backend.data.read('todos', { filters: [{ field: 'title', op: 'match', value: '^fix' }] })",
+    );
+    // `$size` has no adapter equivalent: the call is left for manual conversion.
+    const search = await fs.readFile(path.join(rootPath, 'search.ts'), 'utf8');
+    expect(search).toContain("collections('todos').find({ tags: { $size: 2 } })");
+    expect(
+      updated.convert?.todos.some((t) => /do not match supported signatures/.test(t.message)),
+    ).toBe(true);
     expect(out).toMatch(/backend\.data\.update\('todos', '123',/);
     expect(out).toMatch(/backend\.data\.delete\('todos', '123'\)/);
 
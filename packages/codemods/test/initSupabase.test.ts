@@ -0,0 +1,272 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { analyzeProject } from '../src/analyze.js';
+import { convertProject } from '../src/convert.js';
+import { initSupabaseProject } from '../src/initSupabase.js';
+
+async function makeTempProject(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'base44-to-supabase-init-'));
+  await fs.writeFile(
+    path.join(dir, 'app.ts'),
+    [
+      "import { collection } from 'base44';",
+      '',
+      'export async function run() {',
+      "  await collection('todos').create({ title: 'hello', done: false });",
+      "  await collection('todo-lists').create({ name: 'Inbox' });",
+      '}',
+      '',
+    ].join('\n'),
+    'utf8',
+  );
+  return dir;
+}
+
+describe('initSupabaseProject (schema types)', () => {
+  it('replaces the placeholder schema written by convert with inferred entity types', async () => {
+    const rootPath = await makeTempProject();
+    const report = await analyzeProject({ rootPath });
+    await convertProject({ rootPath, report });
+
+    const schemaPath = path.join(rootPath, 'src/backend/schema.ts');
+    expect(await fs.readFile(schemaPath, 'utf8')).toMatch(/export type Schema = EntitySchema;/);
+    const entry = await fs.readFile(path.join(rootPath, 'src/backend/index.ts'), 'utf8');
+    expect(entry).toMatch(/import type \{ Schema \} from '\.\/schema\.js';/);
+    expect(entry).toMatch(/Backend<Schema> = createSupabaseBackendFromEnv<Schema>\(\)/);
+
+    const updated = await initSupabaseProject({
+      rootPath,
+      report,
+      schema: { ownerColumn: 'owner_id' },
+    });
+    expect(updated.initSupabase?.schemaTypesGenerated).toBe('src/backend/schema.ts');
+
+    const schema = await fs.readFile(schemaPath, 'utf8');
+    expect(schema).toMatch(
+      /export type Todos = \{\n {2}id: string;\n {2}owner_id: string \| null;/,
+    );
+    expect(schema).toMatch(/ {2}title: unknown;/);
+    expect(schema).toMatch(/export type TodoLists = \{[^}]* name: unknown;/);
+    expect(schema).toMatch(/ {2}"todo-lists": TodoLists;/);
+    expect(schema).toMatch(/ {2}todos: Todos;/);
+
+    expect(updated.initSupabase?.validatorsGenerated).toBe('src/backend/validators.ts');
+    const validators = await fs.readFile(path.join(rootPath, 'src/backend/validators.ts'), 'utf8');
+    expect(validators).toContain(
+      "import { entityValidator, type EntityValidators } from '@base44-to-supabase/adapter';",
+    );
+    expect(validators).toMatch(
+      /"todo-lists": entityValidator\(\{\n {4}id: \{ type: 'uuid', nullable: false \},\n {4}owner_id: \{ type: 'uuid' \},\n {4}name: \{ type: 'unknown' \},/,
+    );
+  });
+});
+
+describe('initSupabaseProject (existing files)', () => {
+  it('keeps edited schema types and validators unless forced', async () => {
+    const rootPath = await makeTempProject();
+    const report = await analyzeProject({ rootPath });
+    await initSupabaseProject({ rootPath, report });
+
+    const schemaPath = path.join(rootPath, 'src/backend/schema.ts');
+    const validatorsPath = path.join(rootPath, 'src/backend/validators.ts');
+    await fs.writeFile(schemaPath, '// refined by hand\n', 'utf8');
+    const validators = await fs.readFile(validatorsPath, 'utf8');
+
+    const again = await initSupabaseProject({
+      rootPath,
+      report,
+      schema: { ownerColumn: 'owner_id' },
+    });
+    expect(again.initSupabase?.schemaTypesGenerated).toBeUndefined();
+    expect(again.initSupabase?.validatorsGenerated).toBeUndefined();
+    expect(again.initSupabase?.skippedExisting).toEqual([
+      'src/backend/schema.ts',
+      'src/backend/validators.ts',
+    ]);
+    expect(await fs.readFile(schemaPath, 'utf8')).toBe('// refined by hand\n');
+    expect(await fs.readFile(validatorsPath, 'utf8')).toBe(validators);
+
+    const forced = await initSupabaseProject({
+      rootPath,
+      report,
+      schema: { ownerColumn: 'owner_id' },
+      force: true,
+    });
+    expect(forced.initSupabase?.skippedExisting).toBeUndefined();
+    expect(await fs.readFile(schemaPath, 'utf8')).toMatch(/owner_id: string \| null;/);
+  });
+});
+
+describe('initSupabaseProject (full-text search)', () => {
+  it('adds a generated tsvector column and GIN index to searchable entities', async () => {
+    const rootPath = await makeTempProject();
+    const report = await analyzeProject({ rootPath });
+
+    const updated = await initSupabaseProject({
+      rootPath,
+      report,
+      schema: { searchable: { todos: ['title', 'missing'], notes: [] }, searchConfig: 'simple' },
+    });
+
+    const migration = await fs.readFile(
+      path.join(rootPath, updated.initSupabase!.migrationsGenerated[0]!),
+      'utf8',
+    );
+    expect(migration).toContain(
+      `fts tsvector generated always as (to_tsvector('simple', coalesce("title", ''))) stored`,
+    );
+    expect(migration).toContain(
+      'create index if not exists "todos_fts_idx" on "todos" using gin (fts);',
+    );
+    expect(migration).not.toMatch(/"todo-lists_fts_idx"/);
+    expect(migration).toContain('-- Searchable entity "notes" was not inferred');
+
+    const schema = await fs.readFile(path.join(rootPath, 'src/backend/schema.ts'), 'utf8');
+    expect(schema).toMatch(/export type Todos = \{[^}]* fts: string;/);
+  });
+});
+
+describe('initSupabaseProject (generated columns)', () => {
+  it('drops inferred fields that collide with generated columns', async () => {
+    const rootPath = await makeTempProject();
+    const report = await analyzeProject({ rootPath });
+    report.inferred.entities
+      .find((e) => e.name === 'todos')
+      ?.fields.push('created_at', 'deleted_at', 'fts', 'owner_id');
+
+    const updated = await initSupabaseProject({
+      rootPath,
+      report,
+      schema: { ownerColumn: 'owner_id', softDelete: ['todos'], searchable: { todos: [] } },
+    });
+
+    const migration = await fs.readFile(
+      path.join(rootPath, updated.initSupabase!.migrationsGenerated[0]!),
+      'utf8',
+    );
+    const todos = migration.slice(migration.indexOf('create table if not exists "todos"'));
+    const columns = todos
+      .slice(0, todos.indexOf(');'))
+      .split('\n')
+      .slice(1)
+      .filter(Boolean)
+      .map((line) => line.trim().split(' ')[0]);
+    expect(columns).toEqual([
+      'id',
+      '"owner_id"',
+      '"done"',
+      '"title"',
+      'created_at',
+      'deleted_at',
+      'fts',
+    ]);
+    expect(migration).toContain(`coalesce("done", '') || ' ' || coalesce("title", '')`);
+  });
+});
+
+describe('initSupabaseProject (tenant column)', () => {
+  it('adds a tenant column, index and tenant-isolation policy template to every table', async () => {
+    const rootPath = await makeTempProject();
+    const report = await analyzeProject({ rootPath });
+    report.inferred.entities.find((e) => e.name === 'todos')?.fields.push('org_id');
+
+    const updated = await initSupabaseProject({
+      rootPath,
+      report,
+      schema: { tenantColumn: 'org_id' },
+    });
+
+    const migration = await fs.readFile(
+      path.join(rootPath, updated.initSupabase!.migrationsGenerated[0]!),
+      'utf8',
+    );
+    expect(migration.match(/"org_id" uuid not null/g)).toHaveLength(2);
+    expect(migration).not.toContain('"org_id" text');
+    expect(migration).toContain(
+      'create index if not exists "todos_org_id_idx" on "todos" ("org_id");',
+    );
+
+    const policies = await fs.readFile(
+      path.join(rootPath, updated.initSupabase!.policiesGenerated[0]!),
+      'utf8',
+    );
+    expect(policies).toContain(
+      '-- create policy "todo-lists_tenant_isolation" on "todo-lists" as restrictive',
+    );
+    expect(policies).toContain(
+      `-- using ("org_id" = (auth.jwt() -> 'app_metadata' ->> 'org_id')::uuid)`,
+    );
+
+    const schema = await fs.readFile(path.join(rootPath, 'src/backend/schema.ts'), 'utf8');
+    expect(schema).toMatch(/export type TodoLists = \{\n {2}id: string;\n {2}org_id: string;/);
+  });
+});
+
+describe('initSupabaseProject (soft delete)', () => {
+  it('adds deleted_at, a partial index and a policy template hiding deleted rows', async () => {
+    const rootPath = await makeTempProject();
+    const report = await analyzeProject({ rootPath });
+
+    const updated = await initSupabaseProject({
+      rootPath,
+      report,
+      schema: { softDelete: ['todos', 'archive'] },
+    });
+
+    const migration = await fs.readFile(
+      path.join(rootPath, updated.initSupabase!.migrationsGenerated[0]!),
+      'utf8',
+    );
+    expect(migration.match(/deleted_at timestamptz/g)).toHaveLength(1);
+    expect(migration).toContain(
+      'create index if not exists "todos_live_idx" on "todos" (created_at) where deleted_at is null;',
+    );
+    expect(migration).toContain('-- Soft-delete entity "archive" was not inferred');
+
+    const policies = await fs.readFile(
+      path.join(rootPath, updated.initSupabase!.policiesGenerated[0]!),
+      'utf8',
+    );
+    expect(policies).toContain('-- create policy "todos_hide_deleted" on "todos" as restrictive');
+    expect(policies).toContain('-- for select to authenticated using (deleted_at is null);');
+    expect(policies).not.toContain('todo-lists_hide_deleted');
+
+    const schema = await fs.readFile(path.join(rootPath, 'src/backend/schema.ts'), 'utf8');
+    expect(schema).toContain('  deleted_at: string | null;');
+  });
+});
+
+describe('initSupabaseProject (audit log)', () => {
+  it('adds an audit_log table and, in trigger mode, a trigger on every table', async () => {
+    const rootPath = await makeTempProject();
+    const report = await analyzeProject({ rootPath });
+
+    const updated = await initSupabaseProject({
+      rootPath,
+      report,
+      schema: { auditLog: 'trigger' },
+    });
+
+    const migration = await fs.readFile(
+      path.join(rootPath, updated.initSupabase!.migrationsGenerated[0]!),
+      'utf8',
+    );
+    expect(migration).toContain('create table if not exists audit_log (');
+    expect(migration).toContain(
+      'create or replace function public.audit_row_change() returns trigger',
+    );
+    expect(migration).toContain(
+      'create or replace trigger "todo-lists_audit" after insert or update or delete on "todo-lists" for each row execute function public.audit_row_change();',
+    );
+
+    const policies = await fs.readFile(
+      path.join(rootPath, updated.initSupabase!.policiesGenerated[0]!),
+      'utf8',
+    );
+    expect(policies).toContain('-- for insert to authenticated with check (actor = auth.uid());');
+  });
+});
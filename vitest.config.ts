@@ -1,6 +1,22 @@
+import { fileURLToPath } from 'node:url';
+
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    alias: [
+      {
+        // Resolve workspace packages to their sources so tests don't depend on a prior build.
+        find: /^@base44-to-supabase\/([^/]+)$/,
+        replacement: fileURLToPath(new URL('./packages/$1/src/index.ts', import.meta.url)),
+      },
+      {
+        // Subpath exports such as `@base44-to-supabase/adapter/conformance`.
+        find: /^@base44-to-supabase\/([^/]+)\/([^/]+)$/,
+        replacement: fileURLToPath(new URL('./packages/$1/src/$2.ts', import.meta.url)),
+      },
+    ],
+  },
   test: {
     environment: 'node',
     include: ['**/*.test.ts'],